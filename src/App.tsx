@@ -12,6 +12,8 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
 import CustomerMenu from "./pages/CustomerMenu";
+import KitchenDisplay from "./pages/KitchenDisplay";
+import CounterDisplay from "./pages/CounterDisplay";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -47,7 +49,18 @@ const App = () => (
                     <Settings />
                   </ProtectedRoute>
                 } />
+                <Route path="/kitchen/:restaurantId" element={
+                  <ProtectedRoute>
+                    <KitchenDisplay />
+                  </ProtectedRoute>
+                } />
+                <Route path="/counter/:restaurantId" element={
+                  <ProtectedRoute>
+                    <CounterDisplay />
+                  </ProtectedRoute>
+                } />
                 <Route path="/order/:restaurantId/:tableNumber" element={<CustomerMenu />} />
+                <Route path="/pickup/:restaurantId" element={<CustomerMenu />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Search } from 'lucide-react';
+import { useMenuItems, MenuItem } from '@/hooks/useMenuItems';
+import {
+  useMenuModifiers,
+  getItemModifiers,
+  getItemModifierGroups,
+  getRequiredModifierIds
+} from '@/hooks/useMenuModifiers';
+import { useMenuItemVariants } from '@/hooks/useMenuItemVariants';
+import { useAddOrderItems } from '@/hooks/useOrders';
+import PosItemDialog, { PosLineDraft } from '@/components/pos/PosItemDialog';
+
+interface AddOrderItemsDialogProps {
+  orderId: string;
+  restaurantId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AddOrderItemsDialog = ({ orderId, restaurantId, open, onOpenChange }: AddOrderItemsDialogProps) => {
+  const { data: menuItems } = useMenuItems(restaurantId);
+  const { data: modifierData } = useMenuModifiers(restaurantId);
+  const { data: variants = [] } = useMenuItemVariants(restaurantId);
+  const addOrderItems = useAddOrderItems();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedItem, setSelectedItem] = useState<MenuItem | null>(null);
+
+  const availableItems = ((menuItems || []) as MenuItem[]).filter(item =>
+    item.is_available && item.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const handleSave = async (draft: PosLineDraft) => {
+    if (!selectedItem) return;
+
+    try {
+      await addOrderItems.mutateAsync({
+        orderId,
+        items: [{
+          menu_item_id: selectedItem.id,
+          variant_id: draft.variantId || undefined,
+          quantity: draft.quantity,
+          special_instructions: draft.instructions.trim() || undefined,
+          modifier_ids: draft.modifierIds,
+          seat_number: Number(draft.seat) || undefined
+        }]
+      });
+      setSelectedItem(null);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adding items to order:', error);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open && !selectedItem} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add Items</DialogTitle>
+          </DialogHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <Input
+              placeholder="Search menu..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <div className="space-y-1">
+            {availableItems.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setSelectedItem(item)}
+                className="w-full flex justify-between px-3 py-2 rounded-md text-left text-sm hover:bg-amber-50"
+              >
+                <span className="font-medium">{item.name}</span>
+                <span className="text-gray-600">
+                  {variants.some(variant => variant.menu_item_id === item.id)
+                    ? 'Sizes'
+                    : `$${Number(item.price).toFixed(2)}`}
+                </span>
+              </button>
+            ))}
+            {availableItems.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">No available menu items</p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <PosItemDialog
+        itemName={selectedItem?.name || null}
+        basePrice={selectedItem?.price || 0}
+        variants={selectedItem ? variants.filter(variant => variant.menu_item_id === selectedItem.id && variant.is_available) : []}
+        modifiers={selectedItem ? getItemModifiers(selectedItem, modifierData) : []}
+        groups={selectedItem ? getItemModifierGroups(selectedItem, modifierData) : []}
+        requiredModifierIds={selectedItem ? getRequiredModifierIds(selectedItem, modifierData?.links || []) : []}
+        onClose={() => setSelectedItem(null)}
+        onSave={handleSave}
+      />
+    </>
+  );
+};
+
+export default AddOrderItemsDialog;
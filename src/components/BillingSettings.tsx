@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Receipt, AlertTriangle } from 'lucide-react';
+import { useRestaurants, useUpdateRestaurantBilling } from '@/hooks/useRestaurants';
+import { isValidVpa } from '@/lib/upi';
+
+const BillingSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const updateBilling = useUpdateRestaurantBilling();
+  const [serviceChargeRate, setServiceChargeRate] = useState('0');
+  const [upiVpa, setUpiVpa] = useState('');
+  const [upiPayeeName, setUpiPayeeName] = useState('');
+
+  useEffect(() => {
+    if (!restaurant) return;
+    setServiceChargeRate(String(restaurant.service_charge_rate ?? 0));
+    setUpiVpa(restaurant.upi_vpa || '');
+    setUpiPayeeName(restaurant.upi_payee_name || '');
+  }, [restaurant]);
+
+  const isValidRate = (value: string) => {
+    const rate = parseFloat(value);
+    return !isNaN(rate) && rate >= 0 && rate <= 100;
+  };
+
+  const isVpaValid = !upiVpa.trim() || isValidVpa(upiVpa);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant) return;
+
+    try {
+      await updateBilling.mutateAsync({
+        id: restaurant.id,
+        service_charge_rate: parseFloat(serviceChargeRate),
+        upi_vpa: upiVpa.trim() || null,
+        upi_payee_name: upiPayeeName.trim() || null
+      });
+    } catch (error) {
+      console.error('Error updating billing settings:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="w-5 h-5" />
+          Billing
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Applied when a bill is generated. Bills already issued keep the rates they were generated with.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="serviceChargeRate">Service Charge (%)</Label>
+                <Input
+                  id="serviceChargeRate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={serviceChargeRate}
+                  onChange={(e) => setServiceChargeRate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-gray-900">UPI Payments</h3>
+              <p className="text-sm text-gray-600">
+                Unpaid bills show a QR code diners can scan with any UPI app. Leave the UPI ID empty to turn this off.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="upiVpa">UPI ID</Label>
+                  <Input
+                    id="upiVpa"
+                    value={upiVpa}
+                    onChange={(e) => setUpiVpa(e.target.value)}
+                    placeholder="e.g. restaurant@okbank"
+                  />
+                  {!isVpaValid && (
+                    <p className="text-xs text-red-600 mt-1">Enter a UPI ID like name@bank</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="upiPayeeName">Payee Name</Label>
+                  <Input
+                    id="upiPayeeName"
+                    value={upiPayeeName}
+                    onChange={(e) => setUpiPayeeName(e.target.value)}
+                    placeholder={restaurant.name}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              disabled={!isValidRate(serviceChargeRate) || !isVpaValid || updateBilling.isPending}
+              className="bg-amber-500 hover:bg-amber-600"
+            >
+              {updateBilling.isPending ? 'Saving...' : 'Save Billing Settings'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillingSettings;
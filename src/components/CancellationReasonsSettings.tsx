@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Plus, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import {
+  useCancellationReasons,
+  useCreateCancellationReason,
+  useDeleteCancellationReason
+} from '@/hooks/useCancellationReasons';
+
+const CancellationReasonsSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: reasons, isLoading } = useCancellationReasons(restaurant?.id);
+  const createReason = useCreateCancellationReason();
+  const deleteReason = useDeleteCancellationReason();
+  const [label, setLabel] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant || !label.trim()) return;
+
+    try {
+      await createReason.mutateAsync({ restaurantId: restaurant.id, label: label.trim() });
+      setLabel('');
+    } catch (error) {
+      console.error('Error adding rejection reason:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <XCircle className="w-5 h-5" />
+          Order Rejection Reasons
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Staff pick one of these when rejecting an order. The reason is shown to the customer
+              and used in the cancellation report.
+            </p>
+
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Item out of stock"
+              />
+              <Button
+                type="submit"
+                disabled={!label.trim() || createReason.isPending}
+                className="bg-amber-500 hover:bg-amber-600"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </form>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-500"></div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {reasons?.map((reason) => (
+                  <div key={reason.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+                    <span className="text-sm font-medium">{reason.label}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteReason.mutate(reason.id)}
+                      disabled={deleteReason.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+                {reasons?.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    No reasons configured. Staff will need to type a reason for each rejection.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CancellationReasonsSettings;
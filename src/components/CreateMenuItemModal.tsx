@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCreateMenuItem } from '@/hooks/useMenuItems';
+import { useMenuCategories } from '@/hooks/useMenuCategories';
 import { toast } from '@/components/ui/use-toast';
 import ImageUpload from '@/components/ImageUpload';
 import { supabase } from '@/integrations/supabase/client';
@@ -20,11 +22,15 @@ const CreateMenuItemModal = ({ open, onOpenChange, restaurantId }: CreateMenuIte
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [price, setPrice] = useState('');
+  const [categoryId, setCategoryId] = useState('none');
+  const [station, setStation] = useState('');
+  const [prepTime, setPrepTime] = useState('15');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageUrl, setImageUrl] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   
   const createMenuItem = useCreateMenuItem();
+  const { data: categories } = useMenuCategories(restaurantId || undefined);
 
   const uploadImage = async (file: File): Promise<string | null> => {
     try {
@@ -96,15 +102,20 @@ const CreateMenuItemModal = ({ open, onOpenChange, restaurantId }: CreateMenuIte
         description: description.trim() || null,
         price: priceNumber,
         image_url: finalImageUrl || null,
-        category_id: null,
+        category_id: categoryId === 'none' ? null : categoryId,
         is_available: true,
-        sort_order: 0
+        sort_order: 0,
+        station: station.trim().toLowerCase() || null,
+        estimated_prep_time: parseInt(prepTime) || 15
       });
       
       // Reset form
       setName('');
       setDescription('');
       setPrice('');
+      setCategoryId('none');
+      setStation('');
+      setPrepTime('15');
       setImageFile(null);
       setImageUrl('');
       onOpenChange(false);
@@ -165,6 +176,45 @@ const CreateMenuItemModal = ({ open, onOpenChange, restaurantId }: CreateMenuIte
             />
           </div>
 
+          {!!categories?.length && (
+            <div className="space-y-2">
+              <Label htmlFor="category">Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger id="category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="station">Kitchen Station</Label>
+              <Input
+                id="station"
+                value={station}
+                onChange={(e) => setStation(e.target.value)}
+                placeholder="e.g. grill, bar, tandoor"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prepTime">Prep Time (min)</Label>
+              <Input
+                id="prepTime"
+                type="number"
+                min="1"
+                value={prepTime}
+                onChange={(e) => setPrepTime(e.target.value)}
+              />
+            </div>
+          </div>
+
           <ImageUpload
             onImageSelect={handleImageSelect}
             onImageRemove={handleImageRemove}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { useMenuCategories, useCreateMenuCategory, useDeleteMenuCategory } from '@/hooks/useMenuCategories';
+
+interface MenuCategoriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restaurantId: string;
+}
+
+const MenuCategoriesDialog = ({ open, onOpenChange, restaurantId }: MenuCategoriesDialogProps) => {
+  const { data: categories } = useMenuCategories(restaurantId);
+  const createCategory = useCreateMenuCategory();
+  const deleteCategory = useDeleteMenuCategory();
+  const [name, setName] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await createCategory.mutateAsync({ restaurantId, name: name.trim() });
+      setName('');
+    } catch (error) {
+      console.error('Error adding category:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="text-brand-600">Menu Categories</DialogTitle>
+          <DialogDescription>
+            Group items into categories. Categories can carry their own tax rates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Beverages"
+          />
+          <Button
+            type="submit"
+            disabled={!name.trim() || createCategory.isPending}
+            className="bg-brand-500 hover:bg-brand-600"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {categories?.map((category) => (
+            <div key={category.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="font-medium">{category.name}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteCategory.mutate(category.id)}
+                disabled={deleteCategory.isPending}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {categories?.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No categories yet</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MenuCategoriesDialog;
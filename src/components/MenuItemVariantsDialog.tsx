@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  useMenuItemVariants,
+  useCreateMenuItemVariant,
+  useUpdateMenuItemVariant,
+  useDeleteMenuItemVariant
+} from '@/hooks/useMenuItemVariants';
+
+interface MenuItemVariantsDialogProps {
+  restaurantId: string;
+  item: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+const MenuItemVariantsDialog = ({ restaurantId, item, onClose }: MenuItemVariantsDialogProps) => {
+  const { data: allVariants } = useMenuItemVariants(restaurantId);
+  const createVariant = useCreateMenuItemVariant();
+  const updateVariant = useUpdateMenuItemVariant();
+  const deleteVariant = useDeleteMenuItemVariant();
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState('');
+  const [costPrice, setCostPrice] = useState('');
+
+  const variants = (allVariants || []).filter((variant) => variant.menu_item_id === item?.id);
+  const parsedPrice = parseFloat(price);
+  const canAdd = !!name.trim() && parsedPrice >= 0;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !canAdd) return;
+
+    try {
+      await createVariant.mutateAsync({
+        restaurantId,
+        menuItemId: item.id,
+        sortOrder: variants.length,
+        variant: { name: name.trim(), price: parsedPrice, cost_price: parseFloat(costPrice) || 0 }
+      });
+      setName('');
+      setPrice('');
+      setCostPrice('');
+    } catch (error) {
+      console.error('Error adding size:', error);
+    }
+  };
+
+  // Prices are saved when the field loses focus, and only if they changed
+  const handlePriceBlur = (variantId: string, field: 'price' | 'cost_price', current: number | null, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0 || parsed === Number(current)) return;
+    updateVariant.mutate({ id: variantId, [field]: parsed });
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="text-brand-600">Sizes · {item?.name}</DialogTitle>
+          <DialogDescription>
+            Sell the item as half/full portions or in sizes. Each size has its own price and can
+            be switched off when it runs out. Customers must pick a size once the item has any.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Half"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="Price"
+            className="w-24"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={costPrice}
+            onChange={(e) => setCostPrice(e.target.value)}
+            placeholder="Cost"
+            className="w-24"
+          />
+          <Button
+            type="submit"
+            disabled={!canAdd || createVariant.isPending}
+            className="bg-brand-500 hover:bg-brand-600"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </form>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {variants.map((variant) => (
+            <div key={variant.id} className="flex items-center gap-2 p-3 bg-gray-50 rounded-lg">
+              <span className="font-medium flex-1">{variant.name}</span>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={variant.price}
+                onBlur={(e) => handlePriceBlur(variant.id, 'price', variant.price, e.target.value)}
+                className="w-24 h-8"
+                aria-label={`${variant.name} price`}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={variant.cost_price ?? 0}
+                onBlur={(e) => handlePriceBlur(variant.id, 'cost_price', variant.cost_price, e.target.value)}
+                className="w-24 h-8"
+                aria-label={`${variant.name} cost price`}
+              />
+              <Switch
+                checked={variant.is_available}
+                onCheckedChange={(checked) => updateVariant.mutate({ id: variant.id, is_available: checked })}
+                aria-label={`${variant.name} available`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteVariant.mutate(variant.id)}
+                disabled={deleteVariant.isPending}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {variants.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">
+              No sizes yet; the item is sold at its regular price
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MenuItemVariantsDialog;
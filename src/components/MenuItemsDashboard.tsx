@@ -4,10 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Search, Trash2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Search, Trash2, Tags, Layers } from 'lucide-react';
 import { useRestaurants } from '@/hooks/useRestaurants';
-import { useMenuItems, useDeleteMenuItem } from '@/hooks/useMenuItems';
+import { useMenuItems, useDeleteMenuItem, useUpdateMenuItem } from '@/hooks/useMenuItems';
+import { useMenuCategories } from '@/hooks/useMenuCategories';
+import { useMenuItemVariants } from '@/hooks/useMenuItemVariants';
 import CreateMenuItemModal from '@/components/CreateMenuItemModal';
+import MenuCategoriesDialog from '@/components/MenuCategoriesDialog';
+import MenuItemVariantsDialog from '@/components/MenuItemVariantsDialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,7 +30,12 @@ const MenuItemsDashboard = () => {
   const restaurant = restaurants?.[0];
   const { data: menuItems, isLoading: menuItemsLoading, error: menuItemsError } = useMenuItems(restaurant?.id);
   const deleteMenuItem = useDeleteMenuItem();
+  const updateMenuItem = useUpdateMenuItem();
+  const { data: categories } = useMenuCategories(restaurant?.id);
+  const { data: variants } = useMenuItemVariants(restaurant?.id);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [sizesItem, setSizesItem] = useState<{ id: string; name: string } | null>(null);
+  const [showCategories, setShowCategories] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
 
   const filteredItems = menuItems?.filter(item => 
@@ -102,6 +112,10 @@ const MenuItemsDashboard = () => {
               className="pl-10 w-64"
             />
           </div>
+          <Button variant="outline" onClick={() => setShowCategories(true)}>
+            <Tags className="w-4 h-4 mr-2" />
+            Categories
+          </Button>
           <Button
             onClick={() => setShowCreateModal(true)}
             className="bg-brand-500 hover:bg-brand-600"
@@ -164,10 +178,46 @@ const MenuItemsDashboard = () => {
                 {item.description && (
                   <p className="text-gray-600 text-sm line-clamp-2">{item.description}</p>
                 )}
+
+                {!!categories?.length && (
+                  <Select
+                    value={item.category_id || 'none'}
+                    onValueChange={(value) =>
+                      updateMenuItem.mutate({ id: item.id, category_id: value === 'none' ? null : value })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No category</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 
                 <div className="flex items-center justify-between">
-                  <span className="text-xl font-bold text-brand-600">₹{item.price}</span>
+                  {variants?.some((variant) => variant.menu_item_id === item.id) ? (
+                    <span className="text-sm font-semibold text-brand-600">
+                      {variants
+                        .filter((variant) => variant.menu_item_id === item.id)
+                        .map((variant) => `${variant.name} ₹${variant.price}`)
+                        .join(' · ')}
+                    </span>
+                  ) : (
+                    <span className="text-xl font-bold text-brand-600">₹{item.price}</span>
+                  )}
                   <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSizesItem({ id: item.id, name: item.name })}
+                      aria-label={`Sizes of ${item.name}`}
+                    >
+                      <Layers className="w-4 h-4" />
+                    </Button>
                     <AlertDialog>
                       <AlertDialogTrigger asChild>
                         <Button variant="outline" size="sm">
@@ -225,6 +275,18 @@ const MenuItemsDashboard = () => {
         onOpenChange={setShowCreateModal}
         restaurantId={restaurant?.id || ''}
       />
+
+      <MenuCategoriesDialog
+        open={showCategories}
+        onOpenChange={setShowCategories}
+        restaurantId={restaurant.id}
+      />
+
+      <MenuItemVariantsDialog
+        restaurantId={restaurant.id}
+        item={sizesItem}
+        onClose={() => setSizesItem(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { MenuCategory } from '@/hooks/useMenuCategories';
+import { MenuItem } from '@/hooks/useMenuItems';
+import {
+  ModifierGroup,
+  useCreateModifierGroup,
+  useUpdateModifierGroup,
+  useSetModifierGroupItems
+} from '@/hooks/useMenuModifiers';
+
+interface ModifierGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restaurantId: string;
+  group: ModifierGroup | null;
+  attachedItemIds: string[];
+  categories: MenuCategory[];
+  menuItems: MenuItem[];
+}
+
+const ModifierGroupDialog = ({
+  open,
+  onOpenChange,
+  restaurantId,
+  group,
+  attachedItemIds,
+  categories,
+  menuItems
+}: ModifierGroupDialogProps) => {
+  const createGroup = useCreateModifierGroup();
+  const updateGroup = useUpdateModifierGroup();
+  const setGroupItems = useSetModifierGroupItems();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectionType, setSelectionType] = useState<ModifierGroup['selection_type']>('multiple');
+  const [minSelections, setMinSelections] = useState('0');
+  const [maxSelections, setMaxSelections] = useState('');
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [itemIds, setItemIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(group?.name || '');
+    setDescription(group?.description || '');
+    setSelectionType(group?.selection_type || 'multiple');
+    setMinSelections(String(group?.min_selections ?? 0));
+    setMaxSelections(group?.max_selections ? String(group.max_selections) : '');
+    setCategoryIds(group?.applicable_categories || []);
+    setItemIds(attachedItemIds);
+  }, [open, group, attachedItemIds]);
+
+  const min = parseInt(minSelections, 10);
+  const max = maxSelections ? parseInt(maxSelections, 10) : null;
+
+  // Same limits as the checks on modifier_groups
+  const validationError =
+    !name.trim() ? 'Give the group a name.'
+    : isNaN(min) || min < 0 ? 'Minimum must be 0 or more.'
+    : selectionType === 'single' && min > 1 ? 'A single choice group can require at most 1.'
+    : selectionType === 'multiple' && max !== null && (isNaN(max) || max < Math.max(min, 1))
+      ? 'Maximum must be at least the minimum.'
+      : null;
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter((value) => value !== id) : [...list, id];
+
+  const isSaving = createGroup.isPending || updateGroup.isPending || setGroupItems.isPending;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    const input = {
+      name: name.trim(),
+      description: description.trim() || null,
+      selection_type: selectionType,
+      min_selections: min,
+      max_selections: selectionType === 'single' ? 1 : max,
+      applicable_categories: categoryIds
+    };
+
+    try {
+      const saved = group
+        ? await updateGroup.mutateAsync({ id: group.id, group: input })
+        : await createGroup.mutateAsync({ restaurantId, group: input });
+      await setGroupItems.mutateAsync({ groupId: saved.id, menuItemIds: itemIds });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving modifier group:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{group ? 'Edit Modifier Group' : 'New Modifier Group'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="groupName">Name</Label>
+            <Input
+              id="groupName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Choose your bread"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="groupDescription">Description</Label>
+            <Textarea
+              id="groupDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Shown to customers under the group name"
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Selection</Label>
+              <Select value={selectionType} onValueChange={(value) => setSelectionType(value as ModifierGroup['selection_type'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Single choice</SelectItem>
+                  <SelectItem value="multiple">Multiple choice</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="groupMin">Minimum</Label>
+              <Input
+                id="groupMin"
+                type="number"
+                min={0}
+                max={selectionType === 'single' ? 1 : undefined}
+                value={minSelections}
+                onChange={(e) => setMinSelections(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="groupMax">Maximum</Label>
+              <Input
+                id="groupMax"
+                type="number"
+                min={1}
+                value={selectionType === 'single' ? '1' : maxSelections}
+                onChange={(e) => setMaxSelections(e.target.value)}
+                disabled={selectionType === 'single'}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Offer on whole categories</Label>
+            {categories.length === 0 ? (
+              <p className="text-sm text-gray-500">No categories yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={categoryIds.includes(category.id)}
+                      onCheckedChange={() => setCategoryIds(toggle(categoryIds, category.id))}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Offer on individual items</Label>
+            <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border p-3">
+              {menuItems.map((item) => (
+                <label key={item.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={itemIds.includes(item.id)}
+                    onCheckedChange={() => setItemIds(toggle(itemIds, item.id))}
+                  />
+                  {item.name}
+                </label>
+              ))}
+              {menuItems.length === 0 && <p className="text-sm text-gray-500">No menu items yet.</p>}
+            </div>
+          </div>
+
+          {validationError && name && <p className="text-sm text-red-600">{validationError}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!!validationError || isSaving} className="bg-amber-500 hover:bg-amber-600">
+              {isSaving ? 'Saving...' : group ? 'Save Group' : 'Create Group'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ModifierGroupDialog;
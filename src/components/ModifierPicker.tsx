@@ -0,0 +1,127 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  MenuModifier,
+  ModifierGroup,
+  describeModifierGroupRule,
+  getModifierGroupMax
+} from '@/hooks/useMenuModifiers';
+
+interface ModifierPickerProps {
+  modifiers: MenuModifier[];
+  groups: ModifierGroup[];
+  requiredModifierIds: string[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  currency: string;
+}
+
+const UNGROUPED_SECTIONS: { type: MenuModifier['modifier_type']; label: string }[] = [
+  { type: 'addition', label: 'Add-ons' },
+  { type: 'substitution', label: 'Swaps' },
+  { type: 'removal', label: 'Leave out' },
+  { type: null, label: 'Options' },
+];
+
+// Shared by the customer sheet and the POS so both follow the same group rules:
+// a single choice group swaps its selection, a multiple choice group stops at its max
+const ModifierPicker = ({
+  modifiers,
+  groups,
+  requiredModifierIds,
+  selectedIds,
+  onChange,
+  currency
+}: ModifierPickerProps) => {
+  const formatAdjustment = (amount: number | null) => {
+    const value = Number(amount || 0);
+    if (value === 0) return null;
+    return `${value > 0 ? '+' : '-'}${currency}${Math.abs(value).toFixed(2)}`;
+  };
+
+  const toggleModifier = (modifier: MenuModifier, group?: ModifierGroup) => {
+    if (selectedIds.includes(modifier.id)) {
+      onChange(selectedIds.filter((id) => id !== modifier.id));
+      return;
+    }
+
+    if (group?.selection_type === 'single') {
+      const groupIds = modifiers.filter((option) => option.group_id === group.id).map((option) => option.id);
+      onChange([...selectedIds.filter((id) => !groupIds.includes(id)), modifier.id]);
+      return;
+    }
+
+    onChange([...selectedIds, modifier.id]);
+  };
+
+  const renderOption = (modifier: MenuModifier, group?: ModifierGroup, disabled = false) => {
+    const adjustment = formatAdjustment(modifier.price_adjustment);
+
+    return (
+      <label
+        key={modifier.id}
+        className={`flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 hover:bg-amber-50 ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      >
+        <span className="flex items-center gap-3">
+          <Checkbox
+            checked={selectedIds.includes(modifier.id)}
+            onCheckedChange={() => toggleModifier(modifier, group)}
+            disabled={disabled}
+            className={group?.selection_type === 'single' ? 'rounded-full' : undefined}
+          />
+          <span>
+            <span className="text-sm font-medium text-gray-900">{modifier.name}</span>
+            {requiredModifierIds.includes(modifier.id) && (
+              <span className="ml-2 text-xs font-semibold text-red-600">Required</span>
+            )}
+            {modifier.description && (
+              <span className="block text-xs text-gray-500">{modifier.description}</span>
+            )}
+          </span>
+        </span>
+        {adjustment && <span className="text-sm text-gray-600 shrink-0">{adjustment}</span>}
+      </label>
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      {groups.map((group) => {
+        const options = modifiers.filter((modifier) => modifier.group_id === group.id);
+        const selectedCount = options.filter((option) => selectedIds.includes(option.id)).length;
+        const atMax = group.selection_type === 'multiple' && selectedCount >= getModifierGroupMax(group);
+        if (options.length === 0) return null;
+
+        return (
+          <div key={group.id} className="space-y-2">
+            <div className="flex items-baseline justify-between gap-2">
+              <h4 className="font-semibold text-gray-900">{group.name}</h4>
+              <span className={`text-xs font-medium ${group.min_selections > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                {describeModifierGroupRule(group)}
+              </span>
+            </div>
+            {group.description && <p className="text-xs text-gray-500">{group.description}</p>}
+            {options.map((option) =>
+              renderOption(option, group, atMax && !selectedIds.includes(option.id))
+            )}
+          </div>
+        );
+      })}
+
+      {UNGROUPED_SECTIONS.map((section) => {
+        const sectionModifiers = modifiers.filter(
+          (modifier) => !modifier.group_id && (modifier.modifier_type || null) === section.type
+        );
+        if (sectionModifiers.length === 0) return null;
+
+        return (
+          <div key={section.label} className="space-y-2">
+            <h4 className="font-semibold text-gray-900">{section.label}</h4>
+            {sectionModifiers.map((modifier) => renderOption(modifier))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ModifierPicker;
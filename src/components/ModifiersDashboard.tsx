@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/components/ui/use-toast';
+import { ListChecks, Plus, Pencil, Trash2, Eye } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { useMenuItems, MenuItem } from '@/hooks/useMenuItems';
+import { useMenuCategories } from '@/hooks/useMenuCategories';
+import {
+  ModifierGroup,
+  ModifierType,
+  describeModifierGroupRule,
+  getItemModifierGroups,
+  getItemModifiers,
+  getRequiredModifierIds,
+  useMenuModifiers,
+  useModifierGroups,
+  useDeleteModifierGroup,
+  useCreateModifierOption,
+  useDeleteModifierOption
+} from '@/hooks/useMenuModifiers';
+import ModifierGroupDialog from '@/components/ModifierGroupDialog';
+import ItemCustomizeSheet from '@/components/customer/ItemCustomizeSheet';
+
+const MODIFIER_TYPE_LABELS: Record<ModifierType, string> = {
+  addition: 'Add-on',
+  substitution: 'Swap',
+  removal: 'Leave out'
+};
+
+const NO_TYPE = 'none';
+
+interface OptionDraft {
+  name: string;
+  type: string;
+  price: string;
+}
+
+const EMPTY_OPTION: OptionDraft = { name: '', type: 'addition', price: '' };
+
+const ModifiersDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: menuItemRows } = useMenuItems(restaurant?.id);
+  const { data: categories } = useMenuCategories(restaurant?.id);
+  const { data: groupData, isLoading } = useModifierGroups(restaurant?.id);
+  const { data: modifierData } = useMenuModifiers(restaurant?.id);
+  const deleteGroup = useDeleteModifierGroup();
+  const createOption = useCreateModifierOption();
+  const deleteOption = useDeleteModifierOption();
+  const [editingGroup, setEditingGroup] = useState<ModifierGroup | null>(null);
+  const [showGroupDialog, setShowGroupDialog] = useState(false);
+  const [optionDrafts, setOptionDrafts] = useState<Record<string, OptionDraft>>({});
+  const [previewItemId, setPreviewItemId] = useState('');
+  const [previewItem, setPreviewItem] = useState<MenuItem | null>(null);
+
+  const menuItems = (menuItemRows || []) as MenuItem[];
+  const groups = groupData?.groups || [];
+  const options = groupData?.options || [];
+  const groupLinks = groupData?.groupLinks;
+
+  const attachedItemIds = useMemo(
+    () => (groupLinks || [])
+      .filter((link) => link.group_id === editingGroup?.id)
+      .map((link) => link.menu_item_id),
+    [groupLinks, editingGroup]
+  );
+
+  const openGroupDialog = (group: ModifierGroup | null) => {
+    setEditingGroup(group);
+    setShowGroupDialog(true);
+  };
+
+  const getDraft = (groupId: string) => optionDrafts[groupId] || EMPTY_OPTION;
+
+  const updateDraft = (groupId: string, changes: Partial<OptionDraft>) => {
+    setOptionDrafts((prev) => ({ ...prev, [groupId]: { ...getDraft(groupId), ...changes } }));
+  };
+
+  const handleAddOption = async (groupId: string) => {
+    if (!restaurant) return;
+    const draft = getDraft(groupId);
+    if (!draft.name.trim()) return;
+
+    try {
+      await createOption.mutateAsync({
+        restaurantId: restaurant.id,
+        groupId,
+        option: {
+          name: draft.name.trim(),
+          modifier_type: draft.type === NO_TYPE ? null : draft.type as ModifierType,
+          price_adjustment: parseFloat(draft.price) || 0
+        }
+      });
+      setOptionDrafts((prev) => ({ ...prev, [groupId]: EMPTY_OPTION }));
+    } catch (error) {
+      console.error('Error adding option:', error);
+    }
+  };
+
+  const describeTargets = (group: ModifierGroup) => {
+    const categoryNames = (categories || [])
+      .filter((category) => (group.applicable_categories || []).includes(category.id))
+      .map((category) => category.name);
+    const itemCount = (groupLinks || []).filter((link) => link.group_id === group.id).length;
+    const targets = [...categoryNames];
+    if (itemCount > 0) targets.push(`${itemCount} item${itemCount !== 1 ? 's' : ''}`);
+    return targets.length > 0 ? targets.join(', ') : 'Not offered on any items yet';
+  };
+
+  if (!restaurant) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Please create a restaurant first.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Modifiers</h1>
+          <p className="text-gray-600">Option groups customers choose from when ordering an item</p>
+        </div>
+        <Button onClick={() => openGroupDialog(null)} className="bg-amber-500 hover:bg-amber-600">
+          <Plus className="w-4 h-4 mr-2" />
+          New Group
+        </Button>
+      </div>
+
+      <Card className="border-brand-100">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Eye className="w-5 h-5 text-brand-600" />
+            Preview
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-3">
+          <Select value={previewItemId} onValueChange={setPreviewItemId}>
+            <SelectTrigger className="sm:w-72">
+              <SelectValue placeholder="Choose a menu item" />
+            </SelectTrigger>
+            <SelectContent>
+              {menuItems.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            disabled={!previewItemId}
+            onClick={() => setPreviewItem(menuItems.find((item) => item.id === previewItemId) || null)}
+          >
+            See it as a customer
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        </div>
+      ) : groups.length === 0 ? (
+        <Card className="border-brand-100">
+          <CardContent className="text-center py-12">
+            <ListChecks className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No modifier groups yet</h3>
+            <p className="text-gray-600">Create a group such as "Choose your bread" or "Extra toppings".</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-6">
+          {groups.map((group) => {
+            const groupOptions = options.filter((option) => option.group_id === group.id);
+            const draft = getDraft(group.id);
+
+            return (
+              <Card key={group.id} className="border-brand-100">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">{group.name}</CardTitle>
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        <Badge variant="secondary">
+                          {group.selection_type === 'single' ? 'Single choice' : 'Multiple choice'}
+                        </Badge>
+                        <Badge variant="outline">{describeModifierGroupRule(group)}</Badge>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">{describeTargets(group)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openGroupDialog(group)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Remove Modifier Group</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{group.name}" and its options will no longer be offered. Past orders keep their choices.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteGroup.mutate(group.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Remove
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {groupOptions.map((option) => (
+                    <div key={option.id} className="flex items-center justify-between gap-2 text-sm border-b pb-2 last:border-0">
+                      <span>
+                        {option.name}
+                        {option.modifier_type && (
+                          <span className="text-gray-500"> · {MODIFIER_TYPE_LABELS[option.modifier_type]}</span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {!!Number(option.price_adjustment) && (
+                          <span className="text-gray-600">
+                            {Number(option.price_adjustment) > 0 ? '+' : '-'}₹{Math.abs(Number(option.price_adjustment)).toFixed(2)}
+                          </span>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 hover:text-red-600"
+                          onClick={() => deleteOption.mutate(option.id)}
+                          aria-label={`Remove ${option.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                  {groupOptions.length === 0 && (
+                    <p className="text-sm text-gray-500">Add options below; customers won't see the group until it has one.</p>
+                  )}
+                  {groupOptions.length > 0 && group.min_selections > groupOptions.length && (
+                    <p className="text-sm text-red-600">
+                      Customers must choose {group.min_selections} but there are only {groupOptions.length} options.
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <Input
+                      value={draft.name}
+                      onChange={(e) => updateDraft(group.id, { name: e.target.value })}
+                      placeholder="Option name"
+                      className="flex-1 min-w-[8rem]"
+                    />
+                    <Select value={draft.type} onValueChange={(value) => updateDraft(group.id, { type: value })}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="addition">Add-on</SelectItem>
+                        <SelectItem value="substitution">Swap</SelectItem>
+                        <SelectItem value="removal">Leave out</SelectItem>
+                        <SelectItem value={NO_TYPE}>Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={draft.price}
+                      onChange={(e) => updateDraft(group.id, { price: e.target.value })}
+                      placeholder="± Price"
+                      className="w-24"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => handleAddOption(group.id)}
+                      disabled={!draft.name.trim() || createOption.isPending}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ModifierGroupDialog
+        open={showGroupDialog}
+        onOpenChange={setShowGroupDialog}
+        restaurantId={restaurant.id}
+        group={editingGroup}
+        attachedItemIds={attachedItemIds}
+        categories={categories || []}
+        menuItems={menuItems}
+      />
+
+      <ItemCustomizeSheet
+        item={previewItem}
+        modifiers={previewItem ? getItemModifiers(previewItem, modifierData) : []}
+        groups={previewItem ? getItemModifierGroups(previewItem, modifierData) : []}
+        requiredModifierIds={previewItem ? getRequiredModifierIds(previewItem, modifierData?.links || []) : []}
+        onClose={() => setPreviewItem(null)}
+        onAdd={() => {
+          setPreviewItem(null);
+          toast({
+            title: "Preview",
+            description: "These choices would be accepted at checkout."
+          });
+        }}
+      />
+    </div>
+  );
+};
+
+export default ModifiersDashboard;
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { Printer, Plus, Ban, Send } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { Order, useVoidOrderItem } from '@/hooks/useOrders';
+import { useOrderItems, useOrderStatusEvents } from '@/hooks/useOrderDetail';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
+import { useQueueKitchenTickets } from '@/hooks/usePrinting';
+import { buildTicketHtml, printTicket } from '@/lib/printTicket';
+import { toast } from '@/components/ui/use-toast';
+import AddOrderItemsDialog from '@/components/AddOrderItemsDialog';
+
+interface OrderDetailDrawerProps {
+  order: Order | null;
+  onClose: () => void;
+}
+
+const OrderDetailDrawer = ({ order, onClose }: OrderDetailDrawerProps) => {
+  const { user } = useAuth();
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: items, isLoading } = useOrderItems(order?.id);
+  const { data: events } = useOrderStatusEvents(order?.id);
+  const voidOrderItem = useVoidOrderItem();
+  const queueKitchenTickets = useQueueKitchenTickets();
+  const [showAddItems, setShowAddItems] = useState(false);
+  const [voidingItemId, setVoidingItemId] = useState<string | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+
+  const isOpen = !!order && order.status !== 'served' && order.status !== 'cancelled';
+  const activeItems = items?.filter((item) => !item.voided_at) || [];
+  const voidingItem = items?.find((item) => item.id === voidingItemId);
+
+  const openVoidDialog = (itemId: string | null) => {
+    setVoidingItemId(itemId);
+    setVoidReason('');
+  };
+
+  const handleVoid = async () => {
+    if (!order || !voidingItemId || !voidReason.trim()) return;
+
+    try {
+      await voidOrderItem.mutateAsync({ orderId: order.id, orderItemId: voidingItemId, reason: voidReason.trim() });
+      openVoidDialog(null);
+    } catch (error) {
+      console.error('Error voiding order item:', error);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!order || !items) return;
+
+    try {
+      printTicket(buildTicketHtml(order, activeItems, restaurant?.name));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to print ticket",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const describeActor = (changedBy: string | null) => {
+    if (!changedBy) return 'Customer';
+    return changedBy === user?.id ? 'You' : 'Staff';
+  };
+
+  return (
+    <Sheet open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {order && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2">
+                Order #{order.id.slice(-6)}
+                <Badge variant="outline" className="capitalize">{order.status || 'pending'}</Badge>
+              </SheetTitle>
+              <SheetDescription>
+                {order.pickup_code ? `Pickup ${order.pickup_code}` : `Table ${order.table_number || '-'}`} · {order.customer_name || 'Anonymous'} ·{' '}
+                {new Date(order.created_at).toLocaleString()}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 mt-6">
+              {/* Line items */}
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-3">Items</h3>
+                {isLoading ? (
+                  <div className="flex justify-center py-6">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-500"></div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {items?.map((item) => (
+                      <div key={item.id} className={`text-sm ${item.voided_at ? 'text-gray-400' : ''}`}>
+                        <div className="flex justify-between items-start gap-2">
+                          <span className={`font-medium ${item.voided_at ? 'line-through' : ''}`}>
+                            {item.quantity} × {withVariantName(item.menu_items?.name || 'Unknown item', item.variant_name)}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <span className={item.voided_at ? 'line-through' : ''}>
+                              ${Number(item.total_price).toFixed(2)}
+                            </span>
+                            {isOpen && !item.voided_at && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                title="Void item"
+                                onClick={() => openVoidDialog(item.id)}
+                              >
+                                <Ban className="w-3 h-3 text-red-500" />
+                              </Button>
+                            )}
+                          </span>
+                        </div>
+                        {item.voided_at && (
+                          <p className="text-xs text-red-500">Voided: {item.void_reason}</p>
+                        )}
+                        <p className="text-xs text-gray-500">${Number(item.unit_price).toFixed(2)} each</p>
+                        {item.order_item_modifiers.map((modifier) => (
+                          <p key={modifier.id} className="text-xs text-gray-600 pl-3">
+                            + {modifier.menu_modifiers?.name}
+                            {modifier.price_adjustment ? ` ($${Number(modifier.price_adjustment).toFixed(2)})` : ''}
+                          </p>
+                        ))}
+                        {item.special_instructions && (
+                          <p className="text-xs font-semibold text-amber-700 pl-3">Note: {item.special_instructions}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {isOpen && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full mt-3"
+                    onClick={() => setShowAddItems(true)}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Items
+                  </Button>
+                )}
+                <Separator className="my-3" />
+                <div className="flex justify-between font-semibold">
+                  <span>Total</span>
+                  <span className="text-brand-600">
+                    ${(items ? activeItems.reduce((sum, item) => sum + Number(item.total_price), 0) : order.total_amount || 0).toFixed(2)}
+                  </span>
+                </div>
+              </div>
+
+              {order.notes && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-1">Order Note</h3>
+                  <p className="text-sm font-medium text-amber-900 bg-amber-50 border border-amber-300 rounded-md px-3 py-2">
+                    {order.notes}
+                  </p>
+                </div>
+              )}
+
+              {order.cancellation_reason && (
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-1">Rejection Reason</h3>
+                  <p className="text-sm text-red-600">{order.cancellation_reason}</p>
+                </div>
+              )}
+
+              {/* Status history */}
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-3">Status History</h3>
+                <ol className="space-y-2 border-l-2 border-amber-200 pl-4">
+                  {events?.map((event) => (
+                    <li key={event.id} className="text-sm">
+                      <span className="font-medium capitalize">{event.to_status}</span>
+                      <span className="text-gray-500">
+                        {' '}· {new Date(event.created_at).toLocaleTimeString()} · {describeActor(event.changed_by)}
+                      </span>
+                    </li>
+                  ))}
+                  {events?.length === 0 && (
+                    <li className="text-sm text-gray-500">No status changes recorded</li>
+                  )}
+                </ol>
+              </div>
+
+              <Button
+                onClick={handlePrint}
+                disabled={activeItems.length === 0}
+                className="w-full bg-amber-500 hover:bg-amber-600"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print Ticket
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => queueKitchenTickets.mutate({ order, items: activeItems })}
+                disabled={activeItems.length === 0 || queueKitchenTickets.isPending}
+                className="w-full"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                Send to Kitchen Printers
+              </Button>
+            </div>
+            <AddOrderItemsDialog
+              orderId={order.id}
+              restaurantId={order.restaurant_id}
+              open={showAddItems}
+              onOpenChange={setShowAddItems}
+            />
+
+            <Dialog open={!!voidingItem} onOpenChange={(open) => !open && openVoidDialog(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>
+                    Void {voidingItem?.quantity} × {voidingItem && withVariantName(voidingItem.menu_items?.name || 'Unknown item', voidingItem.variant_name)}
+                  </DialogTitle>
+                </DialogHeader>
+                <Textarea
+                  placeholder="Reason for voiding (required)..."
+                  value={voidReason}
+                  onChange={(e) => setVoidReason(e.target.value)}
+                />
+                {activeItems.length === 1 && (
+                  <p className="text-sm text-red-600">
+                    This is the last item, so voiding it cancels the order.
+                  </p>
+                )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => openVoidDialog(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleVoid}
+                    disabled={!voidReason.trim() || voidOrderItem.isPending}
+                  >
+                    Void Item
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default OrderDetailDrawer;
@@ -0,0 +1,359 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Download, ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import {
+  useOrderHistory,
+  fetchAllOrderHistory,
+  ORDER_HISTORY_PAGE_SIZE,
+  OrderHistoryFilters,
+  OrderHistoryOrder,
+  OrderSource
+} from '@/hooks/useOrderHistory';
+import { Order } from '@/hooks/useOrders';
+import { toast } from '@/components/ui/use-toast';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import { addDays, getBusinessDate } from '@/lib/businessDay';
+import OrderDetailDrawer from '@/components/OrderDetailDrawer';
+
+const ORDER_STATUSES: Order['status'][] = ['pending', 'confirmed', 'preparing', 'ready', 'served', 'cancelled'];
+
+const ORDER_SOURCES: { value: OrderSource; label: string }[] = [
+  { value: 'qr_code', label: 'QR Code' },
+  { value: 'staff', label: 'Staff' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'online', label: 'Online' },
+  { value: 'pickup', label: 'Pickup' }
+];
+
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'confirmed': return 'bg-blue-100 text-blue-800';
+    case 'preparing': return 'bg-orange-100 text-orange-800';
+    case 'ready': return 'bg-purple-100 text-purple-800';
+    case 'served': return 'bg-green-100 text-green-800';
+    case 'cancelled': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Dates stay null until picked, so they follow the restaurant's business day once it loads
+interface FilterForm {
+  from: string | null;
+  to: string | null;
+  status: string;
+  tableNumber: string;
+  orderSource: string;
+  minAmount: string;
+  maxAmount: string;
+  search: string;
+}
+
+const withDefaultDates = (form: FilterForm, today: string) => ({
+  ...form,
+  from: form.from ?? addDays(today, -7),
+  to: form.to ?? today
+});
+
+const toFilters = (form: FilterForm, today: string): OrderHistoryFilters => {
+  const { from, to } = withDefaultDates(form, today);
+
+  return {
+    from,
+    to,
+    status: form.status === 'all' ? undefined : form.status as Order['status'],
+    tableNumber: form.tableNumber.trim() || undefined,
+    orderSource: form.orderSource === 'all' ? undefined : form.orderSource as OrderSource,
+    minAmount: form.minAmount ? parseFloat(form.minAmount) : undefined,
+    maxAmount: form.maxAmount ? parseFloat(form.maxAmount) : undefined,
+    search: form.search.trim() || undefined
+  };
+};
+
+const OrderHistoryDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const [form, setForm] = useState<FilterForm>({
+    from: null,
+    to: null,
+    status: 'all',
+    tableNumber: '',
+    orderSource: 'all',
+    minAmount: '',
+    maxAmount: '',
+    search: ''
+  });
+  const [appliedForm, setAppliedForm] = useState<FilterForm>(form);
+  const today = getBusinessDate(restaurant);
+  const formDates = withDefaultDates(form, today);
+  const filters = toFilters(appliedForm, today);
+  const [page, setPage] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [detailOrder, setDetailOrder] = useState<OrderHistoryOrder | null>(null);
+
+  const { data, isLoading, isFetching } = useOrderHistory(restaurant, filters, page);
+  const orders = data?.orders || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / ORDER_HISTORY_PAGE_SIZE));
+
+  const updateForm = (field: keyof FilterForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedForm(form);
+    setPage(0);
+  };
+
+  const handleExport = async () => {
+    if (!restaurant) return;
+
+    setIsExporting(true);
+    try {
+      const allOrders = await fetchAllOrderHistory(restaurant, filters);
+      const csv = toCsv(
+        ['Order ID', 'Date', 'Table', 'Customer', 'Source', 'Status', 'Total', 'Notes', 'Cancellation Reason'],
+        allOrders.map((order: OrderHistoryOrder) => [
+          order.id,
+          new Date(order.created_at).toLocaleString(),
+          order.table_number,
+          order.customer_name,
+          order.order_source,
+          order.status,
+          order.total_amount?.toFixed(2),
+          order.notes,
+          order.cancellation_reason
+        ])
+      );
+      downloadCsv(`orders-${filters.from}-to-${filters.to}.csv`, csv);
+    } catch (error) {
+      console.error('Error exporting orders:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export orders",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Order History</h1>
+          <p className="text-gray-600">Search and export past orders</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExport}
+          disabled={!restaurant || isExporting || total === 0}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="border-brand-100">
+        <CardContent className="p-4">
+          <form onSubmit={applyFilters} className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <Label htmlFor="history-from">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={formDates.from}
+                max={formDates.to}
+                onChange={(e) => e.target.value && updateForm('from', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="history-to">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={formDates.to}
+                min={formDates.from}
+                onChange={(e) => e.target.value && updateForm('to', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={form.status} onValueChange={(value) => updateForm('status', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {ORDER_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Source</Label>
+              <Select value={form.orderSource} onValueChange={(value) => updateForm('orderSource', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sources</SelectItem>
+                  {ORDER_SOURCES.map((source) => (
+                    <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="history-table">Table</Label>
+              <Input
+                id="history-table"
+                value={form.tableNumber}
+                onChange={(e) => updateForm('tableNumber', e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <Label htmlFor="history-min">Min amount</Label>
+              <Input
+                id="history-min"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.minAmount}
+                onChange={(e) => updateForm('minAmount', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="history-max">Max amount</Label>
+              <Input
+                id="history-max"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.maxAmount}
+                onChange={(e) => updateForm('maxAmount', e.target.value)}
+              />
+            </div>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                value={form.search}
+                onChange={(e) => updateForm('search', e.target.value)}
+                placeholder="Customer or notes..."
+                className="pl-10"
+              />
+            </div>
+            <div className="col-span-2 md:col-span-4 flex justify-end">
+              <Button type="submit" className="bg-amber-500 hover:bg-amber-600">
+                Apply Filters
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      <Card className="border-brand-100">
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+            </div>
+          ) : orders.length > 0 ? (
+            <div className={`overflow-x-auto ${isFetching ? 'opacity-60' : ''}`}>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b bg-gray-50">
+                    <th className="px-4 py-3 font-medium">Order</th>
+                    <th className="px-4 py-3 font-medium">Date</th>
+                    <th className="px-4 py-3 font-medium">Table</th>
+                    <th className="px-4 py-3 font-medium">Customer</th>
+                    <th className="px-4 py-3 font-medium">Source</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map((order) => (
+                    <tr
+                      key={order.id}
+                      className="border-b last:border-0 cursor-pointer hover:bg-amber-50/50"
+                      onClick={() => setDetailOrder(order)}
+                    >
+                      <td className="px-4 py-3 font-medium">#{order.id.slice(-6)}</td>
+                      <td className="px-4 py-3">{new Date(order.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-3">{order.table_number || '-'}</td>
+                      <td className="px-4 py-3">
+                        <p>{order.customer_name || 'Anonymous'}</p>
+                        {order.notes && <p className="text-xs text-gray-500 truncate max-w-xs">{order.notes}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        {ORDER_SOURCES.find((source) => source.value === order.order_source)?.label || '-'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge className={getStatusColor(order.status || 'pending')}>
+                          {order.status || 'pending'}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3 text-right">${order.total_amount?.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No orders found</h3>
+              <p className="text-gray-600">Try widening the date range or clearing some filters</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <OrderDetailDrawer order={detailOrder} onClose={() => setDetailOrder(null)} />
+
+      {/* Pagination */}
+      {total > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Showing {page * ORDER_HISTORY_PAGE_SIZE + 1}-{Math.min((page + 1) * ORDER_HISTORY_PAGE_SIZE, total)} of {total} orders
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderHistoryDashboard;
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MessageSquare, AlertTriangle } from 'lucide-react';
+import { useRestaurants, useUpdateOrderingSettings } from '@/hooks/useRestaurants';
+
+const OrderNotesSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const updateOrderingSettings = useUpdateOrderingSettings();
+  const [maxLength, setMaxLength] = useState('');
+  const [blockedWords, setBlockedWords] = useState('');
+
+  useEffect(() => {
+    if (restaurant) {
+      setMaxLength(String(restaurant.instructions_max_length));
+      setBlockedWords(restaurant.blocked_words.join(', '));
+    }
+  }, [restaurant]);
+
+  const parsedMaxLength = parseInt(maxLength, 10);
+  const isValid = parsedMaxLength >= 20 && parsedMaxLength <= 500;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant || !isValid) return;
+
+    const words = Array.from(new Set(
+      blockedWords
+        .split(/[,\n]/)
+        .map((word) => word.trim().toLowerCase())
+        .filter(Boolean)
+    ));
+
+    try {
+      await updateOrderingSettings.mutateAsync({
+        id: restaurant.id,
+        instructions_max_length: parsedMaxLength,
+        blocked_words: words
+      });
+    } catch (error) {
+      console.error('Error updating note settings:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Customer Notes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSave} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Customers can add special instructions to each dish and a note to the whole order.
+              Common profanity is masked automatically; add any other words to mask below.
+            </p>
+
+            <div className="space-y-1">
+              <Label htmlFor="instructionsMaxLength">Maximum note length (characters)</Label>
+              <Input
+                id="instructionsMaxLength"
+                type="number"
+                min={20}
+                max={500}
+                value={maxLength}
+                onChange={(e) => setMaxLength(e.target.value)}
+                className="w-32"
+              />
+              {!isValid && maxLength && (
+                <p className="text-xs text-red-600">Choose a length between 20 and 500.</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="blockedWords">Extra words to mask</Label>
+              <Textarea
+                id="blockedWords"
+                value={blockedWords}
+                onChange={(e) => setBlockedWords(e.target.value)}
+                placeholder="Separate words with commas"
+                rows={3}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={!isValid || updateOrderingSettings.isPending}
+              className="bg-amber-500 hover:bg-amber-600"
+            >
+              Save Note Settings
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderNotesSettings;
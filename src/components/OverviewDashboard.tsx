@@ -19,7 +19,7 @@ const OverviewDashboard = () => {
   const restaurant = restaurants?.[0];
   const { data: menuItems } = useMenuItems(restaurant?.id);
   const { data: tables } = useTables(restaurant?.id);
-  const { data: orders } = useTodaysOrders(restaurant?.id);
+  const { data: orders } = useTodaysOrders(restaurant);
 
   const totalRevenue = orders?.reduce((sum, order) => sum + (order.total_amount || 0), 0) || 0;
   const completedOrders = orders?.filter(order => order.status === 'served').length || 0;
@@ -0,0 +1,95 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShoppingBag, Copy, MonitorPlay, AlertTriangle } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { useRestaurants, useUpdateOrderingSettings } from '@/hooks/useRestaurants';
+import { buildQrSvg, svgToDataUrl } from '@/lib/upi';
+
+const PickupSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const updateOrderingSettings = useUpdateOrderingSettings();
+  const pickupUrl = restaurant ? `${window.location.origin}/pickup/${restaurant.id}` : '';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(pickupUrl);
+      toast({ title: "Copied", description: "Pickup link copied to the clipboard." });
+    } catch (error) {
+      console.error('Error copying pickup link:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShoppingBag className="w-5 h-5" />
+          Pickup Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="pickupEnabled">Accept pickup orders</Label>
+                <p className="text-sm text-gray-600">
+                  Customers order from the menu without a table, leave a name and phone number and
+                  collect their order at the counter with a pickup code.
+                </p>
+              </div>
+              <Switch
+                id="pickupEnabled"
+                checked={restaurant.pickup_enabled}
+                disabled={updateOrderingSettings.isPending}
+                onCheckedChange={(checked) =>
+                  updateOrderingSettings.mutate({ id: restaurant.id, pickup_enabled: checked })
+                }
+              />
+            </div>
+
+            {restaurant.pickup_enabled && (
+              <div className="flex flex-col sm:flex-row gap-4 items-start">
+                <img
+                  src={svgToDataUrl(buildQrSvg(pickupUrl))}
+                  alt="Pickup ordering QR code"
+                  className="w-32 h-32 border rounded-md"
+                />
+                <div className="space-y-2 flex-1 w-full">
+                  <Label htmlFor="pickupUrl">Pickup menu link</Label>
+                  <div className="flex gap-2">
+                    <Input id="pickupUrl" value={pickupUrl} readOnly />
+                    <Button variant="outline" onClick={copyLink}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`/counter/${restaurant.id}`, '_blank')}
+                  >
+                    <MonitorPlay className="w-4 h-4 mr-1" />
+                    Open Counter Display
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PickupSettings;
@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Minus, Plus, Pencil, Trash2, UtensilsCrossed, Phone } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { useMenuItems, MenuItem } from '@/hooks/useMenuItems';
+import { useTables } from '@/hooks/useTables';
+import {
+  useMenuModifiers,
+  getItemModifiers,
+  getItemModifierGroups,
+  getRequiredModifierIds
+} from '@/hooks/useMenuModifiers';
+import { useMenuItemVariants, withVariantName } from '@/hooks/useMenuItemVariants';
+import { usePlaceStaffOrder } from '@/hooks/useOrders';
+import PhoneInput from '@/components/PhoneInput';
+import PosItemDialog, { PosLineDraft } from '@/components/pos/PosItemDialog';
+
+interface PosLine extends PosLineDraft {
+  key: string;
+  item: MenuItem;
+}
+
+interface EditingLine {
+  item: MenuItem;
+  lineKey?: string;
+}
+
+// Lines with the same item, size, modifiers, notes and seat are merged into one
+const lineKey = (itemId: string, draft: PosLineDraft) =>
+  [itemId, draft.variantId, [...draft.modifierIds].sort().join(','), draft.instructions.trim(), draft.seat].join('|');
+
+const PosDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: menuItems, isLoading } = useMenuItems(restaurant?.id);
+  const { data: tables } = useTables(restaurant?.id);
+  const { data: modifierData } = useMenuModifiers(restaurant?.id);
+  const { data: variants = [] } = useMenuItemVariants(restaurant?.id);
+  const placeStaffOrder = usePlaceStaffOrder();
+
+  const [orderSource, setOrderSource] = useState<'staff' | 'phone'>('staff');
+  const [tableNumber, setTableNumber] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<PosLine[]>([]);
+  const [editing, setEditing] = useState<EditingLine | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const modifiers = modifierData?.modifiers || [];
+  const links = modifierData?.links || [];
+  // Items sold in sizes can only be ordered while one of the sizes is available
+  const availableItems = ((menuItems || []) as MenuItem[]).filter(item =>
+    item.is_available &&
+    item.name.toLowerCase().includes(searchTerm.toLowerCase()) && (
+      variants.every(variant => variant.menu_item_id !== item.id) ||
+      variants.some(variant => variant.menu_item_id === item.id && variant.is_available)
+    )
+  );
+  const activeTables = tables?.filter(table => table.is_active) || [];
+
+  const getModifiersFor = (item: MenuItem) => getItemModifiers(item, modifierData);
+
+  const getVariantsFor = (item: MenuItem) =>
+    variants.filter(variant => variant.menu_item_id === item.id && variant.is_available);
+
+  const getVariant = (line: PosLine) => variants.find(variant => variant.id === line.variantId);
+
+  const getUnitPrice = (line: PosLine) =>
+    (getVariant(line)?.price ?? line.item.price) + modifiers
+      .filter(modifier => line.modifierIds.includes(modifier.id))
+      .reduce((sum, modifier) => sum + Number(modifier.price_adjustment || 0), 0);
+
+  const total = lines.reduce((sum, line) => sum + getUnitPrice(line) * line.quantity, 0);
+
+  const addLine = (item: MenuItem, draft: PosLineDraft) => {
+    const key = lineKey(item.id, draft);
+    setLines(prev => {
+      const existing = prev.find(line => line.key === key);
+      if (existing) {
+        return prev.map(line =>
+          line.key === key ? { ...line, quantity: Math.min(50, line.quantity + draft.quantity) } : line
+        );
+      }
+      return [...prev, { ...draft, key, item }];
+    });
+  };
+
+  const handleItemTap = (item: MenuItem) => {
+    if (getModifiersFor(item).length > 0 || getVariantsFor(item).length > 0) {
+      setEditing({ item });
+    } else {
+      addLine(item, { variantId: null, quantity: 1, modifierIds: [], instructions: '', seat: '' });
+    }
+  };
+
+  const handleSaveLine = (draft: PosLineDraft) => {
+    if (!editing) return;
+
+    if (editing.lineKey) {
+      setLines(prev => prev.filter(line => line.key !== editing.lineKey));
+    }
+    addLine(editing.item, draft);
+    setEditing(null);
+  };
+
+  const changeQuantity = (key: string, delta: number) => {
+    setLines(prev => prev
+      .map(line => line.key === key ? { ...line, quantity: Math.min(50, line.quantity + delta) } : line)
+      .filter(line => line.quantity > 0)
+    );
+  };
+
+  const resetOrder = () => {
+    setLines([]);
+    setTableNumber('');
+    setCustomerName('');
+    setCustomerPhone('');
+    setNotes('');
+  };
+
+  const canSubmit = lines.length > 0 && (
+    orderSource === 'staff' ? !!tableNumber : !!customerName.trim() && !!customerPhone.trim()
+  );
+
+  const handleSubmit = async () => {
+    if (!restaurant || !canSubmit) return;
+
+    try {
+      await placeStaffOrder.mutateAsync({
+        restaurantId: restaurant.id,
+        orderSource,
+        tableNumber: orderSource === 'staff' ? tableNumber : undefined,
+        customerName: customerName.trim() || undefined,
+        customerPhone: orderSource === 'phone' ? customerPhone : undefined,
+        notes: notes.trim() || undefined,
+        items: lines.map(line => ({
+          menu_item_id: line.item.id,
+          variant_id: line.variantId || undefined,
+          quantity: line.quantity,
+          special_instructions: line.instructions.trim() || undefined,
+          modifier_ids: line.modifierIds,
+          seat_number: Number(line.seat) || undefined
+        }))
+      });
+      resetOrder();
+    } catch (error) {
+      console.error('Error placing staff order:', error);
+    }
+  };
+
+  const editingLine = editing?.lineKey ? lines.find(line => line.key === editing.lineKey) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">New Order</h1>
+        <p className="text-gray-600">Enter walk-in and phone orders</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Menu */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <Input
+              placeholder="Search menu..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {availableItems.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => handleItemTap(item)}
+                  className="text-left p-4 rounded-lg border border-brand-100 bg-white hover:border-amber-400 hover:bg-amber-50 transition-colors"
+                >
+                  <p className="font-medium text-gray-900">{item.name}</p>
+                  <p className="text-sm text-brand-600">
+                    {getVariantsFor(item).length > 0
+                      ? getVariantsFor(item).map(variant => variant.name).join(' / ')
+                      : `$${Number(item.price).toFixed(2)}`}
+                  </p>
+                  {getModifiersFor(item).length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">Customisable</p>
+                  )}
+                </button>
+              ))}
+              {availableItems.length === 0 && (
+                <p className="col-span-full text-center text-gray-500 py-12">No available menu items</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Ticket */}
+        <Card className="border-brand-100 h-fit">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Ticket</CardTitle>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={orderSource === 'staff' ? 'default' : 'outline'}
+                className={orderSource === 'staff' ? 'bg-amber-500 hover:bg-amber-600' : ''}
+                onClick={() => setOrderSource('staff')}
+              >
+                <UtensilsCrossed className="w-4 h-4 mr-2" />
+                Table
+              </Button>
+              <Button
+                variant={orderSource === 'phone' ? 'default' : 'outline'}
+                className={orderSource === 'phone' ? 'bg-amber-500 hover:bg-amber-600' : ''}
+                onClick={() => setOrderSource('phone')}
+              >
+                <Phone className="w-4 h-4 mr-2" />
+                Phone
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {orderSource === 'staff' ? (
+              <div className="space-y-2">
+                <Label>Table</Label>
+                <Select value={tableNumber} onValueChange={setTableNumber}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select table" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeTables.map(table => (
+                      <SelectItem key={table.id} value={table.table_number}>
+                        Table {table.table_number}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <PhoneInput value={customerPhone} onChange={setCustomerPhone} required />
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="pos-customer">
+                Customer name{orderSource === 'phone' ? ' *' : ''}
+              </Label>
+              <Input
+                id="pos-customer"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+                placeholder={orderSource === 'phone' ? "Caller's name" : 'Optional'}
+              />
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              {lines.map(line => (
+                <div key={line.key} className="text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1">
+                      <p className="font-medium">
+                        {withVariantName(line.item.name, getVariant(line)?.name)}
+                        {line.seat && <span className="text-xs text-gray-500 font-normal"> · Seat {line.seat}</span>}
+                      </p>
+                      {modifiers
+                        .filter(modifier => line.modifierIds.includes(modifier.id))
+                        .map(modifier => (
+                          <p key={modifier.id} className="text-xs text-gray-600">+ {modifier.name}</p>
+                        ))}
+                      {line.instructions && (
+                        <p className="text-xs text-amber-700">Note: {line.instructions}</p>
+                      )}
+                    </div>
+                    <span className="font-medium">${(getUnitPrice(line) * line.quantity).toFixed(2)}</span>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => changeQuantity(line.key, -1)}>
+                      <Minus className="w-3 h-3" />
+                    </Button>
+                    <span className="w-6 text-center">{line.quantity}</span>
+                    <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => changeQuantity(line.key, 1)}>
+                      <Plus className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 ml-auto"
+                      onClick={() => setEditing({ item: line.item, lineKey: line.key })}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => changeQuantity(line.key, -line.quantity)}
+                    >
+                      <Trash2 className="w-3 h-3 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {lines.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">Tap menu items to add them</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pos-notes">Order note</Label>
+              <Textarea
+                id="pos-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Anything the kitchen should know"
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-between font-semibold text-lg border-t pt-4">
+              <span>Total</span>
+              <span className="text-brand-600">${total.toFixed(2)}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <Button variant="outline" onClick={resetOrder} disabled={placeStaffOrder.isPending}>
+                Clear
+              </Button>
+              <Button
+                className="col-span-2 bg-amber-500 hover:bg-amber-600"
+                onClick={handleSubmit}
+                disabled={!canSubmit || placeStaffOrder.isPending}
+              >
+                {placeStaffOrder.isPending ? 'Sending...' : 'Send to Kitchen'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <PosItemDialog
+        itemName={editing?.item.name || null}
+        basePrice={editing?.item.price || 0}
+        variants={editing ? getVariantsFor(editing.item) : []}
+        modifiers={editing ? getModifiersFor(editing.item) : []}
+        groups={editing ? getItemModifierGroups(editing.item, modifierData) : []}
+        requiredModifierIds={editing ? getRequiredModifierIds(editing.item, links) : []}
+        initial={editingLine}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveLine}
+      />
+    </div>
+  );
+};
+
+export default PosDashboard;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Printer, Eye, Download, CheckCircle, RotateCcw, XCircle } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { PrintJob, usePrintJobs, useReprintJob, useUpdatePrintJob } from '@/hooks/usePrinting';
+import { fromBase64 } from '@/lib/escpos';
+import { downloadBlob } from '@/lib/download';
+
+const STATUS_STYLES: Record<PrintJob['status'], string> = {
+  queued: 'bg-amber-100 text-amber-800',
+  printed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+const PrintQueueDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: jobs, isLoading } = usePrintJobs(restaurant?.id);
+  const updatePrintJob = useUpdatePrintJob();
+  const reprintJob = useReprintJob();
+  const [previewJob, setPreviewJob] = useState<PrintJob | null>(null);
+
+  const queuedCount = jobs?.filter((job) => job.status === 'queued').length || 0;
+
+  // The raw bytes can be sent straight to the printer, e.g. `cat job.bin > /dev/usb/lp0`
+  const handleDownload = (job: PrintJob) => {
+    downloadBlob(
+      `${job.job_type === 'receipt' ? 'receipt' : 'ticket'}-${job.id.slice(-6)}.bin`,
+      new Blob([fromBase64(job.payload)], { type: 'application/octet-stream' })
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Print Queue</h1>
+        <p className="text-gray-600">
+          Kitchen tickets and receipts sent to your thermal printers
+          {queuedCount > 0 && ` · ${queuedCount} waiting`}
+        </p>
+      </div>
+
+      <Card className="border-brand-100">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Printer className="w-5 h-5 text-brand-600" />
+            Recent Print Jobs
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+            </div>
+          ) : jobs && jobs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 font-medium">Queued</th>
+                    <th className="py-2 font-medium">Type</th>
+                    <th className="py-2 font-medium">Printer</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium">Printed</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map((job) => (
+                    <tr key={job.id} className="border-b last:border-0">
+                      <td className="py-2">{new Date(job.created_at).toLocaleString()}</td>
+                      <td className="py-2">{job.job_type === 'receipt' ? 'Receipt' : 'Kitchen ticket'}</td>
+                      <td className="py-2">
+                        {job.printer_name}
+                        {job.station && <span className="text-gray-500"> · {job.station}</span>}
+                      </td>
+                      <td className="py-2">
+                        <Badge className={STATUS_STYLES[job.status]}>{job.status}</Badge>
+                        {job.error && <p className="text-xs text-red-600 mt-1">{job.error}</p>}
+                      </td>
+                      <td className="py-2">
+                        {job.printed_at ? new Date(job.printed_at).toLocaleTimeString() : '-'}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setPreviewJob(job)} title="Preview">
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDownload(job)} title="Download ESC/POS">
+                            <Download className="w-4 h-4" />
+                          </Button>
+                          {job.status === 'queued' ? (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updatePrintJob.mutate({ id: job.id, status: 'printed' })}
+                                disabled={updatePrintJob.isPending}
+                                title="Mark printed"
+                              >
+                                <CheckCircle className="w-4 h-4 text-green-600" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updatePrintJob.mutate({ id: job.id, status: 'failed', error: 'Marked failed by staff' })}
+                                disabled={updatePrintJob.isPending}
+                                title="Mark failed"
+                              >
+                                <XCircle className="w-4 h-4 text-red-500" />
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => reprintJob.mutate(job)}
+                              disabled={reprintJob.isPending}
+                              title="Reprint"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <Printer className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-500">Nothing has been sent to a printer yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!previewJob} onOpenChange={(open) => !open && setPreviewJob(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {previewJob?.job_type === 'receipt' ? 'Receipt' : 'Kitchen ticket'} · {previewJob?.printer_name}
+            </DialogTitle>
+          </DialogHeader>
+          <pre className="bg-gray-50 border rounded-md p-3 text-xs font-mono overflow-x-auto max-h-[60vh]">
+            {previewJob?.content}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PrintQueueDashboard;
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Printer as PrinterIcon, AlertTriangle } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { Printer, useCreatePrinter, useDeletePrinter, usePrinters, useUpdatePrinter } from '@/hooks/usePrinting';
+import { PaperWidth } from '@/lib/escpos';
+
+const PrinterSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: printers, isLoading } = usePrinters(restaurant?.id);
+  const createPrinter = useCreatePrinter();
+  const updatePrinter = useUpdatePrinter();
+  const deletePrinter = useDeletePrinter();
+  const [name, setName] = useState('');
+  const [printerType, setPrinterType] = useState<Printer['printer_type']>('kitchen');
+  const [station, setStation] = useState('');
+  const [paperWidth, setPaperWidth] = useState<PaperWidth>(80);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant || !name.trim()) return;
+
+    try {
+      await createPrinter.mutateAsync({
+        restaurant_id: restaurant.id,
+        name: name.trim(),
+        printer_type: printerType,
+        station: printerType === 'kitchen' ? station.trim().toLowerCase() || null : null,
+        paper_width: paperWidth
+      });
+      setName('');
+      setStation('');
+    } catch (error) {
+      console.error('Error adding printer:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PrinterIcon className="w-5 h-5" />
+          Thermal Printers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Kitchen printers receive tickets for one station, or every item when no station is set.
+              Receipt printers receive bills. Jobs wait in the Print Queue until they are printed.
+            </p>
+
+            <form onSubmit={handleAdd} className="grid sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="printerName">Name</Label>
+                <Input
+                  id="printerName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Grill printer"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={printerType} onValueChange={(value) => setPrinterType(value as Printer['printer_type'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="kitchen">Kitchen tickets</SelectItem>
+                    <SelectItem value="receipt">Receipts</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="printerStation">Station</Label>
+                <Input
+                  id="printerStation"
+                  value={station}
+                  onChange={(e) => setStation(e.target.value)}
+                  placeholder={printerType === 'kitchen' ? 'Blank for all stations' : 'Not used for receipts'}
+                  disabled={printerType !== 'kitchen'}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Paper width</Label>
+                <Select value={String(paperWidth)} onValueChange={(value) => setPaperWidth(Number(value) as PaperWidth)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="80">80mm</SelectItem>
+                    <SelectItem value="58">58mm</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="sm:col-span-2">
+                <Button
+                  type="submit"
+                  disabled={!name.trim() || createPrinter.isPending}
+                  className="bg-amber-500 hover:bg-amber-600"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Printer
+                </Button>
+              </div>
+            </form>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-500"></div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {printers?.map((printer) => (
+                  <div key={printer.id} className="flex items-center justify-between gap-3 p-3 bg-amber-50 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{printer.name}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge variant="outline">
+                          {printer.printer_type === 'kitchen' ? 'Kitchen' : 'Receipt'}
+                        </Badge>
+                        {printer.printer_type === 'kitchen' && (
+                          <Badge variant="outline">{printer.station || 'All stations'}</Badge>
+                        )}
+                        <Badge variant="outline">{printer.paper_width}mm</Badge>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch
+                        checked={printer.is_active}
+                        disabled={updatePrinter.isPending}
+                        onCheckedChange={(checked) => updatePrinter.mutate({ id: printer.id, is_active: checked })}
+                        aria-label={`${printer.name} active`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deletePrinter.mutate(printer.id)}
+                        disabled={deletePrinter.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                {printers?.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    No printers added yet.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PrinterSettings;
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { XCircle, UtensilsCrossed, Ban, Percent, Download, TrendingUp } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { useCancellationReport } from '@/hooks/useCancellationReasons';
+import { useItemVoids } from '@/hooks/useOrderDetail';
+import { useTaxSummary } from '@/hooks/useTaxes';
+import { useItemSalesReport, withVariantName } from '@/hooks/useMenuItemVariants';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import { addDays, getBusinessDate, getBusinessDayRange } from '@/lib/businessDay';
+
+
+const ReportsDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const [pickedFrom, setFromDate] = useState<string | null>(null);
+  const [pickedTo, setToDate] = useState<string | null>(null);
+
+  // Until a date is picked the range follows the restaurant's own business day, which is
+  // only known once the restaurant has loaded
+  const today = getBusinessDate(restaurant);
+  const fromDate = pickedFrom ?? addDays(today, -30);
+  const toDate = pickedTo ?? today;
+
+  // Dates are business days, so the range runs to the start of the day after the end date
+  const { from, to } = getBusinessDayRange(restaurant, fromDate, toDate);
+
+  const { data: report, isLoading } = useCancellationReport(restaurant?.id, from, to);
+  const byReason = report?.byReason || [];
+  const byItem = report?.byItem || [];
+  const { data: voids } = useItemVoids(restaurant?.id, from, to);
+  const { data: taxSummary } = useTaxSummary(restaurant?.id, from, to);
+  const { data: itemSales } = useItemSalesReport(restaurant?.id, from, to);
+
+  const totalCancelled = byReason.reduce((sum, row) => sum + Number(row.order_count), 0);
+  const totalLost = byReason.reduce((sum, row) => sum + Number(row.lost_revenue), 0);
+  const totalTax = (taxSummary || []).reduce((sum, row) => sum + Number(row.tax_amount), 0);
+
+  const handleExportSales = () => {
+    const csv = toCsv(
+      ['Item', 'Size', 'Orders', 'Quantity', 'Revenue', 'Cost', 'Margin'],
+      (itemSales || []).map((row) => [
+        row.item_name,
+        row.variant_name || '',
+        row.order_count,
+        row.quantity,
+        Number(row.revenue).toFixed(2),
+        Number(row.cost).toFixed(2),
+        (Number(row.revenue) - Number(row.cost)).toFixed(2)
+      ])
+    );
+    downloadCsv(`item-sales-${fromDate}-to-${toDate}.csv`, csv);
+  };
+
+  const handleExportTax = () => {
+    const csv = toCsv(
+      ['Tax', 'Rate (%)', 'Bills', 'Taxable amount', 'Tax amount'],
+      (taxSummary || []).map((row) => [
+        row.label,
+        Number(row.rate),
+        row.bill_count,
+        Number(row.taxable_amount).toFixed(2),
+        Number(row.tax_amount).toFixed(2)
+      ])
+    );
+    downloadCsv(`tax-summary-${fromDate}-to-${toDate}.csv`, csv);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+          <p className="text-gray-600">Review item sales, rejected orders, voided items and tax collected</p>
+        </div>
+        <div className="flex items-end space-x-2">
+          <div>
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => e.target.value && setFromDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => e.target.value && setToDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="border-brand-100">
+          <CardContent className="p-4 text-center">
+            <p className="text-2xl font-bold text-gray-900">{totalCancelled}</p>
+            <p className="text-sm text-gray-600">Rejected orders</p>
+          </CardContent>
+        </Card>
+        <Card className="border-brand-100">
+          <CardContent className="p-4 text-center">
+            <p className="text-2xl font-bold text-gray-900">${totalLost.toFixed(2)}</p>
+            <p className="text-sm text-gray-600">Lost revenue</p>
+          </CardContent>
+        </Card>
+        <Card className="border-brand-100">
+          <CardContent className="p-4 text-center">
+            <p className="text-2xl font-bold text-gray-900">
+              ${(voids || []).reduce((sum, row) => sum + Number(row.amount), 0).toFixed(2)}
+            </p>
+            <p className="text-sm text-gray-600">Voided items</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="border-brand-100">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <XCircle className="w-5 h-5 text-red-500" />
+                Cancellations by Reason
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {byReason.map((row) => (
+                <div key={row.reason} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{row.reason}</span>
+                    <span className="text-gray-600">
+                      {row.order_count} orders · ${Number(row.lost_revenue).toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-red-400"
+                      style={{ width: `${(Number(row.order_count) / totalCancelled) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+              {byReason.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-6">No rejected orders in this period</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-brand-100">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <UtensilsCrossed className="w-5 h-5 text-brand-600" />
+                Cancellations by Item
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {byItem.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 font-medium">Item</th>
+                      <th className="py-2 font-medium text-right">Orders</th>
+                      <th className="py-2 font-medium text-right">Qty</th>
+                      <th className="py-2 font-medium text-right">Lost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byItem.map((row) => (
+                      <tr key={`${row.menu_item_id}-${row.variant_name}`} className="border-b last:border-0">
+                        <td className="py-2">{withVariantName(row.item_name, row.variant_name)}</td>
+                        <td className="py-2 text-right">{row.order_count}</td>
+                        <td className="py-2 text-right">{row.quantity}</td>
+                        <td className="py-2 text-right">${Number(row.lost_revenue).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-6">No rejected items in this period</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="border-brand-100">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <TrendingUp className="w-5 h-5 text-brand-600" />
+            Sales by Item
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleExportSales} disabled={!itemSales?.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {itemSales && itemSales.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 font-medium">Item</th>
+                    <th className="py-2 font-medium">Size</th>
+                    <th className="py-2 font-medium text-right">Qty</th>
+                    <th className="py-2 font-medium text-right">Revenue</th>
+                    <th className="py-2 font-medium text-right">Cost</th>
+                    <th className="py-2 font-medium text-right">Margin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {itemSales.map((row) => (
+                    <tr key={`${row.menu_item_id}-${row.variant_name}`} className="border-b last:border-0">
+                      <td className="py-2">{row.item_name}</td>
+                      <td className="py-2 text-gray-600">{row.variant_name || '—'}</td>
+                      <td className="py-2 text-right">{row.quantity}</td>
+                      <td className="py-2 text-right">${Number(row.revenue).toFixed(2)}</td>
+                      <td className="py-2 text-right">${Number(row.cost).toFixed(2)}</td>
+                      <td className="py-2 text-right">${(Number(row.revenue) - Number(row.cost)).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No items sold in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-brand-100">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Percent className="w-5 h-5 text-brand-600" />
+            Tax Summary
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleExportTax} disabled={!taxSummary?.length}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {taxSummary && taxSummary.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 font-medium">Tax</th>
+                  <th className="py-2 font-medium text-right">Bills</th>
+                  <th className="py-2 font-medium text-right">Taxable</th>
+                  <th className="py-2 font-medium text-right">Tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxSummary.map((row) => (
+                  <tr key={`${row.label}-${row.rate}`} className="border-b last:border-0">
+                    <td className="py-2">{row.label} ({Number(row.rate)}%)</td>
+                    <td className="py-2 text-right">{row.bill_count}</td>
+                    <td className="py-2 text-right">${Number(row.taxable_amount).toFixed(2)}</td>
+                    <td className="py-2 text-right">${Number(row.tax_amount).toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="py-2" colSpan={3}>Total</td>
+                  <td className="py-2 text-right">${totalTax.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No tax charged on bills issued in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-brand-100">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Ban className="w-5 h-5 text-red-500" />
+            Voided Items
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {voids && voids.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 font-medium">When</th>
+                  <th className="py-2 font-medium">Order</th>
+                  <th className="py-2 font-medium">Item</th>
+                  <th className="py-2 font-medium">Reason</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {voids.map((row) => (
+                  <tr key={row.id} className="border-b last:border-0">
+                    <td className="py-2">{new Date(row.created_at).toLocaleString()}</td>
+                    <td className="py-2">#{row.order_id.slice(-6)}</td>
+                    <td className="py-2">{row.quantity} × {row.item_name}</td>
+                    <td className="py-2">{row.reason}</td>
+                    <td className="py-2 text-right">${Number(row.amount).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No voided items in this period</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReportsDashboard;
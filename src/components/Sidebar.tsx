@@ -11,7 +11,13 @@ import {
   LogOut, 
   Menu,
   X,
-  Settings
+  Settings,
+  BarChart3,
+  History,
+  PlusCircle,
+  Receipt,
+  Printer,
+  ListChecks
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -44,8 +50,14 @@ const Sidebar = ({ activeTab, onTabChange }: SidebarProps) => {
   const menuItems = [
     { id: 'overview', label: 'Overview', icon: Home },
     { id: 'orders', label: "Today's Orders", icon: ShoppingBag },
+    { id: 'pos', label: 'New Order', icon: PlusCircle },
+    { id: 'tabs', label: 'Table Tabs', icon: Receipt },
+    { id: 'history', label: 'Order History', icon: History },
     { id: 'menu', label: 'Menu Items', icon: UtensilsCrossed },
+    { id: 'modifiers', label: 'Modifiers', icon: ListChecks },
     { id: 'tables', label: 'Tables & QR', icon: QrCode },
+    { id: 'reports', label: 'Reports', icon: BarChart3 },
+    { id: 'printing', label: 'Print Queue', icon: Printer },
     { id: 'settings', label: 'Settings', icon: Settings, path: '/settings' },
   ];
 
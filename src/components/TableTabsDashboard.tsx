@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Receipt, BellRing, Printer, Download } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { useOpenTabs, getTabTotal, getTabLabel } from '@/hooks/useTableTabs';
+import { useRecentBills, Bill } from '@/hooks/useBills';
+import { billToReceipt, buildReceiptHtml, downloadReceiptPdf } from '@/lib/receipt';
+import { getUpiPayee } from '@/lib/upi';
+import { printTicket } from '@/lib/printTicket';
+import { toast } from '@/components/ui/use-toast';
+import TabSettlementSheet from '@/components/tabs/TabSettlementSheet';
+
+const TableTabsDashboard = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: tabs, isLoading } = useOpenTabs(restaurant?.id);
+  const [selectedTabId, setSelectedTabId] = useState<string | null>(null);
+  const selectedTab = tabs?.find(tab => tab.id === selectedTabId) || null;
+  const { data: bills } = useRecentBills(restaurant?.id);
+
+  const handleReprint = (bill: Bill) => {
+    try {
+      printTicket(buildReceiptHtml(billToReceipt(bill), restaurant?.name, getUpiPayee(restaurant)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to print receipt",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Table Tabs</h1>
+        <p className="text-gray-600">Settle open tables and counter orders, and reprint bills</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500"></div>
+        </div>
+      ) : tabs && tabs.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {tabs.map(tab => {
+            const total = getTabTotal(tab);
+            const paid = tab.tab_shares
+              .filter(share => share.status === 'settled')
+              .reduce((sum, share) => sum + Number(share.amount), 0);
+
+            return (
+              <Card
+                key={tab.id}
+                className="border-brand-100 cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => setSelectedTabId(tab.id)}
+              >
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center justify-between text-lg">
+                    <span>{getTabLabel(tab)}</span>
+                    {tab.bill_requested_at && (
+                      <Badge className="bg-amber-100 text-amber-800">
+                        <BellRing className="w-3 h-3 mr-1" />
+                        Bill requested
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Orders</span>
+                    <span>{tab.orders.filter(order => order.status !== 'cancelled').length}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Opened</span>
+                    <span>{new Date(tab.created_at).toLocaleTimeString()}</span>
+                  </div>
+                  {paid > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Paid</span>
+                      <span className="text-green-600">${paid.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-semibold pt-1">
+                    <span>Total</span>
+                    <span className="text-brand-600">${total.toFixed(2)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="border-brand-100">
+          <CardContent className="py-12 text-center">
+            <Receipt className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No open tabs right now</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-brand-100">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Receipt className="w-5 h-5 text-brand-600" />
+            Recent Bills
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bills && bills.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 font-medium">Bill</th>
+                  <th className="py-2 font-medium">Table</th>
+                  <th className="py-2 font-medium">Issued</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {bills.map(bill => (
+                  <tr key={bill.id} className="border-b last:border-0">
+                    <td className="py-2 font-medium">#{bill.bill_number}</td>
+                    <td className="py-2">{bill.table_number || '-'}</td>
+                    <td className="py-2">{new Date(bill.created_at).toLocaleString()}</td>
+                    <td className="py-2">
+                      <Badge className={bill.status === 'paid' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}>
+                        {bill.status === 'paid' ? 'Paid' : Number(bill.amount_paid) > 0 ? 'Part paid' : 'Unpaid'}
+                      </Badge>
+                    </td>
+                    <td className="py-2 text-right">${Number(bill.total_amount).toFixed(2)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" title="Reprint" onClick={() => handleReprint(bill)}>
+                        <Printer className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Download PDF"
+                        onClick={() => downloadReceiptPdf(billToReceipt(bill), restaurant?.name)}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-6">No bills issued yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <TabSettlementSheet tab={selectedTab} onClose={() => setSelectedTabId(null)} />
+    </div>
+  );
+};
+
+export default TableTabsDashboard;
@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Percent, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useRestaurants, useUpdateRestaurantBilling } from '@/hooks/useRestaurants';
+import { useMenuCategories, MenuCategory } from '@/hooks/useMenuCategories';
+import {
+  useTaxRates,
+  useCategoryTaxRates,
+  useCreateTaxRate,
+  useRemoveTaxRate,
+  useSetCategoryTaxRates
+} from '@/hooks/useTaxes';
+
+const TaxSettings = () => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const updateBilling = useUpdateRestaurantBilling();
+  const { data: rates, isLoading } = useTaxRates(restaurant?.id);
+  const { data: categories } = useMenuCategories(restaurant?.id);
+  const { data: categoryRates } = useCategoryTaxRates(restaurant?.id);
+  const createRate = useCreateTaxRate();
+  const removeRate = useRemoveTaxRate();
+  const setCategoryRates = useSetCategoryTaxRates();
+  const [name, setName] = useState('');
+  const [rate, setRate] = useState('');
+
+  const rateValue = parseFloat(rate);
+  const canAdd = !!name.trim() && !isNaN(rateValue) && rateValue > 0 && rateValue <= 100;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!restaurant || !canAdd) return;
+
+    try {
+      await createRate.mutateAsync({ restaurantId: restaurant.id, name: name.trim(), rate: rateValue });
+      setName('');
+      setRate('');
+    } catch (error) {
+      console.error('Error adding tax rate:', error);
+    }
+  };
+
+  // Links to retired rates stay in place but no longer apply
+  const getCategoryRateIds = (categoryId: string) =>
+    (categoryRates || [])
+      .filter((link) => link.category_id === categoryId && rates?.some((taxRate) => taxRate.id === link.tax_rate_id))
+      .map((link) => link.tax_rate_id);
+
+  const updateCategory = async (category: MenuCategory, override: boolean, taxRateIds: string[]) => {
+    if (!restaurant) return;
+
+    try {
+      await setCategoryRates.mutateAsync({
+        restaurantId: restaurant.id,
+        categoryId: category.id,
+        override,
+        taxRateIds
+      });
+    } catch (error) {
+      console.error('Error updating category tax:', error);
+    }
+  };
+
+  const toggleCategoryRate = (category: MenuCategory, taxRateId: string) => {
+    const current = getCategoryRateIds(category.id);
+    updateCategory(
+      category,
+      true,
+      current.includes(taxRateId) ? current.filter((id) => id !== taxRateId) : [...current, taxRateId]
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="w-5 h-5" />
+          Taxes
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!restaurant ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              No restaurant found. Please create a restaurant first from the dashboard.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="taxInclusive">Menu prices include tax</Label>
+                <p className="text-sm text-gray-600">
+                  When on, tax is worked out from the menu price instead of being added on top.
+                </p>
+              </div>
+              <Switch
+                id="taxInclusive"
+                checked={restaurant.tax_inclusive}
+                disabled={updateBilling.isPending}
+                onCheckedChange={(checked) => updateBilling.mutate({ id: restaurant.id, tax_inclusive: checked })}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium text-gray-900">Tax Rates</h3>
+              <p className="text-sm text-gray-600">
+                Every rate applies to every item unless its category sets its own rates below.
+              </p>
+
+              <form onSubmit={handleAdd} className="flex gap-2">
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. CGST"
+                />
+                <Input
+                  type="number"
+                  min="0.01"
+                  max="100"
+                  step="0.01"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  placeholder="%"
+                  className="w-28"
+                />
+                <Button
+                  type="submit"
+                  disabled={!canAdd || createRate.isPending}
+                  className="bg-amber-500 hover:bg-amber-600"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add
+                </Button>
+              </form>
+
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-500"></div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {rates?.map((taxRate) => (
+                    <div key={taxRate.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+                      <span className="font-medium">{taxRate.name}</span>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-gray-700">{Number(taxRate.rate)}%</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeRate.mutate(taxRate.id)}
+                          disabled={removeRate.isPending}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {rates?.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-4">No tax is charged on bills</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium text-gray-900">Category Rates</h3>
+              {!categories?.length ? (
+                <p className="text-sm text-gray-500">
+                  Add menu categories on the Menu page to give them their own rates.
+                </p>
+              ) : (
+                categories.map((category) => (
+                  <div key={category.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="font-medium">{category.name}</span>
+                      <Select
+                        value={category.tax_override ? 'custom' : 'default'}
+                        onValueChange={(value) =>
+                          updateCategory(category, value === 'custom', value === 'custom' ? getCategoryRateIds(category.id) : [])
+                        }
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">All tax rates</SelectItem>
+                          <SelectItem value="custom">Selected rates</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {category.tax_override && (
+                      <div className="flex flex-wrap gap-4">
+                        {rates?.map((taxRate) => (
+                          <label key={taxRate.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={getCategoryRateIds(category.id).includes(taxRate.id)}
+                              onCheckedChange={() => toggleCategoryRate(category, taxRate.id)}
+                              disabled={setCategoryRates.isPending}
+                            />
+                            {taxRate.name} ({Number(taxRate.rate)}%)
+                          </label>
+                        ))}
+                        {getCategoryRateIds(category.id).length === 0 && (
+                          <span className="text-sm text-gray-500">Tax exempt</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxSettings;
@@ -11,11 +11,22 @@ import {
   ChefHat, 
   Search,
   MessageSquare,
-  ShoppingBag
+  ShoppingBag,
+  Wifi,
+  WifiOff,
+  MonitorPlay,
+  AlertTriangle
 } from 'lucide-react';
 import { useRestaurants } from '@/hooks/useRestaurants';
-import { useTodaysOrders, useUpdateOrderStatus } from '@/hooks/useOrders';
+import { useTodaysOrders, useUpdateOrderStatus, useOrdersRealtime, useRejectOrder, Order } from '@/hooks/useOrders';
+import { useCancellationReasons } from '@/hooks/useCancellationReasons';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
 import { toast } from '@/components/ui/use-toast';
+import { playOrderAlert } from '@/lib/orderAlert';
+import { getEtaMinutes } from '@/lib/eta';
+import OrderDetailDrawer from '@/components/OrderDetailDrawer';
+import KitchenLoadControl from '@/components/kitchen/KitchenLoadControl';
+import { KITCHEN_STATUSES } from '@/hooks/useKitchen';
 import {
   Dialog,
   DialogContent,
@@ -27,11 +38,24 @@ import {
 const TodaysOrdersDashboard = () => {
   const { data: restaurants } = useRestaurants();
   const restaurant = restaurants?.[0];
-  const { data: orders } = useTodaysOrders(restaurant?.id);
+  const handleOrderCreated = (order: Order) => {
+    playOrderAlert();
+    toast({
+      title: "New Order",
+      description: `Order #${order.id.slice(-6)} from Table ${order.table_number || '-'}`,
+    });
+  };
+  const { isLive } = useOrdersRealtime(restaurant?.id, { onOrderCreated: handleOrderCreated });
+  const { data: orders } = useTodaysOrders(restaurant, { live: isLive });
   const updateOrderStatus = useUpdateOrderStatus();
+  const rejectOrder = useRejectOrder();
+  const { data: cancellationReasons } = useCancellationReasons(restaurant?.id);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedOrder, setSelectedOrder] = useState<string | null>(null);
+  const [selectedReasonId, setSelectedReasonId] = useState<string | null>(null);
   const [feedback, setFeedback] = useState('');
+  const [detailOrderId, setDetailOrderId] = useState<string | null>(null);
+  const detailOrder = orders?.find(order => order.id === detailOrderId) || null;
 
   const filteredOrders = orders?.filter(order => 
     order.customer_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -42,22 +66,28 @@ const TodaysOrdersDashboard = () => {
   const handleStatusUpdate = async (orderId: string, status: string) => {
     try {
       await updateOrderStatus.mutateAsync({ orderId, status: status as any });
-      setSelectedOrder(null);
-      setFeedback('');
     } catch (error) {
       console.error('Error updating order status:', error);
     }
   };
 
+  const openRejectDialog = (orderId: string | null) => {
+    setSelectedOrder(orderId);
+    setSelectedReasonId(null);
+    setFeedback('');
+  };
+
   const handleReject = async (orderId: string) => {
-    if (feedback.trim()) {
-      // In a real app, you'd save the feedback to the database
-      toast({
-        title: "Order Rejected",
-        description: `Order rejected with feedback: ${feedback}`,
+    try {
+      await rejectOrder.mutateAsync({
+        orderId,
+        reasonId: selectedReasonId || undefined,
+        reasonText: feedback.trim() || undefined
       });
+      openRejectDialog(null);
+    } catch (error) {
+      console.error('Error rejecting order:', error);
     }
-    await handleStatusUpdate(orderId, 'cancelled');
   };
 
   const getStatusColor = (status: string) => {
@@ -101,6 +131,33 @@ const TodaysOrdersDashboard = () => {
           <p className="text-gray-600">Manage and track all orders for today</p>
         </div>
         <div className="flex items-center space-x-2">
+          <Badge
+            variant="outline"
+            className={isLive ? 'border-green-200 text-green-700' : 'border-yellow-200 text-yellow-700'}
+            title={isLive ? 'Receiving orders in real time' : 'Live updates unavailable, refreshing every 30 seconds'}
+          >
+            {isLive ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
+            {isLive ? 'Live' : 'Polling'}
+          </Badge>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/kitchen/${restaurant?.id}`, '_blank')}
+            disabled={!restaurant}
+          >
+            <MonitorPlay className="w-4 h-4 mr-1" />
+            Kitchen Display
+          </Button>
+          {restaurant?.pickup_enabled && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open(`/counter/${restaurant.id}`, '_blank')}
+            >
+              <ShoppingBag className="w-4 h-4 mr-1" />
+              Counter Display
+            </Button>
+          )}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
             <Input
@@ -113,6 +170,13 @@ const TodaysOrdersDashboard = () => {
         </div>
       </div>
 
+      {restaurant && (
+        <KitchenLoadControl
+          restaurant={restaurant}
+          openOrderCount={orders?.filter(order => KITCHEN_STATUSES.includes(order.status)).length || 0}
+        />
+      )}
+
       {/* Status Overview */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {Object.entries(statusCounts).map(([status, count]) => {
@@ -133,9 +197,14 @@ const TodaysOrdersDashboard = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
         {filteredOrders.map((order) => {
           const StatusIcon = getStatusIcon(order.status || 'pending');
+          const etaMinutes = getEtaMinutes(order);
+          const itemNotes = (order.order_items || []).filter((item) => item.special_instructions && !item.voided_at);
           return (
             <Card key={order.id} className="border-brand-100">
-              <CardHeader className="pb-3">
+              <CardHeader
+                className="pb-3 cursor-pointer hover:bg-amber-50/50 rounded-t-lg"
+                onClick={() => setDetailOrderId(order.id)}
+              >
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg">Order #{order.id.slice(-6)}</CardTitle>
                   <Badge className={getStatusColor(order.status || 'pending')}>
@@ -145,8 +214,19 @@ const TodaysOrdersDashboard = () => {
                 </div>
                 <div className="text-sm text-gray-600">
                   <p>Customer: {order.customer_name || 'Anonymous'}</p>
-                  <p>Table: {order.table_number}</p>
+                  {order.customer_phone && <p>Phone: {order.customer_phone}</p>}
+                  {order.pickup_code ? (
+                    <p>Pickup code: <span className="font-semibold">{order.pickup_code}</span></p>
+                  ) : (
+                    <p>Table: {order.table_number || '-'}</p>
+                  )}
                   <p>Time: {new Date(order.created_at!).toLocaleTimeString()}</p>
+                  {etaMinutes !== null && (
+                    <p className={etaMinutes === 0 ? 'text-red-600' : undefined}>
+                      ETA: {new Date(order.estimated_ready_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {etaMinutes > 0 ? ` (in ${etaMinutes} min)` : ' (due now)'}
+                    </p>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -154,9 +234,30 @@ const TodaysOrdersDashboard = () => {
                   <p className="font-semibold text-lg text-brand-600">
                     Total: ${order.total_amount?.toFixed(2)}
                   </p>
-                  {order.notes && (
+                  {(order.notes || itemNotes.length > 0) && (
+                    <div className="mt-2 p-2 bg-amber-50 border border-amber-300 rounded-md text-sm text-amber-900 space-y-1">
+                      {order.notes && (
+                        <p className="font-semibold flex items-start gap-1">
+                          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                          {order.notes}
+                        </p>
+                      )}
+                      {itemNotes.map((item, index) => (
+                        <p key={index}>
+                          <span className="font-medium">{item.quantity} × {withVariantName(item.menu_items?.name || 'Item', item.variant_name)}:</span>{' '}
+                          {item.special_instructions}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {order.preparation_time !== null && order.preparation_time !== undefined && (
                     <p className="text-sm text-gray-600 mt-1">
-                      Note: {order.notes}
+                      Prepared in {order.preparation_time} min
+                    </p>
+                  )}
+                  {order.status === 'cancelled' && order.cancellation_reason && (
+                    <p className="text-sm text-red-600 mt-1">
+                      Rejected: {order.cancellation_reason}
                     </p>
                   )}
                 </div>
@@ -173,12 +274,14 @@ const TodaysOrdersDashboard = () => {
                       >
                         Accept
                       </Button>
-                      <Dialog>
+                      <Dialog
+                        open={selectedOrder === order.id}
+                        onOpenChange={(open) => openRejectDialog(open ? order.id : null)}
+                      >
                         <DialogTrigger asChild>
                           <Button
                             size="sm"
                             variant="destructive"
-                            onClick={() => setSelectedOrder(order.id)}
                           >
                             Reject
                           </Button>
@@ -188,19 +291,32 @@ const TodaysOrdersDashboard = () => {
                             <DialogTitle>Reject Order</DialogTitle>
                           </DialogHeader>
                           <div className="space-y-4">
+                            <div className="flex flex-wrap gap-2">
+                              {cancellationReasons?.map((reason) => (
+                                <Button
+                                  key={reason.id}
+                                  type="button"
+                                  size="sm"
+                                  variant={selectedReasonId === reason.id ? 'destructive' : 'outline'}
+                                  onClick={() => setSelectedReasonId(selectedReasonId === reason.id ? null : reason.id)}
+                                >
+                                  {reason.label}
+                                </Button>
+                              ))}
+                            </div>
                             <Textarea
-                              placeholder="Optional feedback for customer..."
+                              placeholder="Message for the customer (optional if a reason is selected)..."
                               value={feedback}
                               onChange={(e) => setFeedback(e.target.value)}
                             />
                             <div className="flex justify-end space-x-2">
-                              <Button variant="outline" onClick={() => setSelectedOrder(null)}>
+                              <Button variant="outline" onClick={() => openRejectDialog(null)}>
                                 Cancel
                               </Button>
                               <Button
                                 variant="destructive"
                                 onClick={() => handleReject(order.id)}
-                                disabled={updateOrderStatus.isPending}
+                                disabled={rejectOrder.isPending || (!selectedReasonId && !feedback.trim())}
                               >
                                 Reject Order
                               </Button>
@@ -250,6 +366,8 @@ const TodaysOrdersDashboard = () => {
         })}
       </div>
 
+      <OrderDetailDrawer order={detailOrder} onClose={() => setDetailOrderId(null)} />
+
       {filteredOrders.length === 0 && (
         <Card className="border-brand-100">
           <CardContent className="text-center py-12">
@@ -0,0 +1,30 @@
+import { useMemo } from 'react';
+import { UpiPayee, buildUpiIntent, buildQrSvg, svgToDataUrl } from '@/lib/upi';
+
+interface UpiQrCodeProps {
+  payee: UpiPayee;
+  amount: number;
+  note: string;
+  className?: string;
+}
+
+// UPI only settles in rupees, so amounts are always shown in ₹
+const UpiQrCode = ({ payee, amount, note, className = '' }: UpiQrCodeProps) => {
+  const intent = buildUpiIntent(payee, amount, note);
+  const src = useMemo(() => svgToDataUrl(buildQrSvg(intent)), [intent]);
+
+  return (
+    <div className={`flex flex-col items-center gap-2 text-center ${className}`}>
+      <img src={src} alt={`UPI QR code for ₹${amount.toFixed(2)}`} className="w-44 h-44" />
+      <div className="text-sm">
+        <p className="font-semibold text-gray-900">Scan to pay ₹{amount.toFixed(2)}</p>
+        <p className="text-gray-600">{payee.payeeName} · {payee.vpa}</p>
+      </div>
+      <a href={intent} className="text-xs text-blue-600 underline sm:hidden">
+        Open in UPI app
+      </a>
+    </div>
+  );
+};
+
+export default UpiQrCode;
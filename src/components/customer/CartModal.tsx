@@ -1,14 +1,31 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Plus, Minus, ShoppingCart, Trash2 } from 'lucide-react';
+import { TaxConfig, calculateTax } from '@/lib/tax';
+import { OrderingStatus, isOrderingClosed } from '@/hooks/useKitchen';
+import OrderingNotice from '@/components/customer/OrderingNotice';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
 
 interface CartItem {
+  key: string;
   id: string;
   name: string;
   price: number;
   quantity: number;
+  category_id?: string | null;
+  instructions?: string;
+  variant?: { id: string; name: string } | null;
+  modifiers?: { id: string; name: string }[];
+}
+
+interface PickupDetails {
+  name: string;
+  phone: string;
 }
 
 interface CartModalProps {
@@ -16,10 +33,20 @@ interface CartModalProps {
   onOpenChange: (open: boolean) => void;
   cart: CartItem[];
   cartTotal: number;
-  onUpdateQuantity: (itemId: string, quantity: number) => void;
+  taxConfig?: TaxConfig | null;
+  orderingStatus?: OrderingStatus | null;
+  // Set for pickup orders, which need the customer's name and phone
+  pickupDetails?: PickupDetails;
+  onPickupDetailsChange?: (details: PickupDetails) => void;
+  onUpdateQuantity: (lineKey: string, quantity: number) => void;
+  onUpdateInstructions: (lineKey: string, instructions: string) => void;
+  orderNote: string;
+  onOrderNoteChange: (note: string) => void;
+  maxNoteLength: number;
   onPlaceOrder: () => void;
-  onGenerateBill: () => void;
+  onGenerateBill?: () => void;
   isPlacingOrder: boolean;
+  isReconnecting?: boolean;
 }
 
 const CartModal = ({
@@ -27,11 +54,27 @@ const CartModal = ({
   onOpenChange,
   cart,
   cartTotal,
+  taxConfig,
+  orderingStatus,
+  pickupDetails,
+  onPickupDetailsChange,
   onUpdateQuantity,
+  onUpdateInstructions,
+  orderNote,
+  onOrderNoteChange,
+  maxNoteLength,
   onPlaceOrder,
   onGenerateBill,
-  isPlacingOrder
+  isPlacingOrder,
+  isReconnecting = false
 }: CartModalProps) => {
+  const breakdown = taxConfig
+    ? calculateTax(taxConfig, cart.map((item) => ({ amount: item.price * item.quantity, category_id: item.category_id })))
+    : null;
+  const hasCharges = !!breakdown && (breakdown.tax_lines.length > 0 || breakdown.service_charge_amount > 0);
+  const orderingClosed = isOrderingClosed(orderingStatus, !!pickupDetails);
+  const needsPickupDetails = !!pickupDetails && (!pickupDetails.name.trim() || !pickupDetails.phone.trim());
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -56,57 +99,92 @@ const CartModal = ({
               {/* Cart Items */}
               <div className="space-y-4 max-h-96 overflow-y-auto">
                 {cart.map((item) => (
-                  <div key={item.id} className="flex items-center justify-between p-4 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg border border-orange-100">
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-semibold text-gray-900 truncate">{item.name}</h4>
-                      <p className="text-sm text-gray-600">₹{item.price} each</p>
-                    </div>
-                    
-                    <div className="flex items-center space-x-3 ml-4">
-                      {/* Quantity Controls */}
-                      <div className="flex items-center space-x-2 bg-white rounded-lg border border-orange-200 p-1">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => onUpdateQuantity(item.id, Math.max(0, item.quantity - 1))}
-                          className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
-                        >
-                          {item.quantity === 1 ? (
-                            <Trash2 className="w-4 h-4" />
-                          ) : (
-                            <Minus className="w-4 h-4" />
-                          )}
-                        </Button>
-                        <span className="font-semibold text-gray-900 w-8 text-center">
-                          {item.quantity}
-                        </span>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                          className="h-8 w-8 p-0 hover:bg-green-50 hover:text-green-600"
-                        >
-                          <Plus className="w-4 h-4" />
-                        </Button>
+                  <div key={item.key} className="p-4 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg border border-orange-100 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-semibold text-gray-900 truncate">{withVariantName(item.name, item.variant?.name)}</h4>
+                        {item.modifiers?.map((modifier) => (
+                          <p key={modifier.id} className="text-xs text-gray-600">+ {modifier.name}</p>
+                        ))}
+                        <p className="text-sm text-gray-600">₹{item.price} each</p>
                       </div>
+                    
+                      <div className="flex items-center space-x-3 ml-4">
+                        {/* Quantity Controls */}
+                        <div className="flex items-center space-x-2 bg-white rounded-lg border border-orange-200 p-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onUpdateQuantity(item.key, Math.max(0, item.quantity - 1))}
+                            className="h-8 w-8 p-0 hover:bg-red-50 hover:text-red-600"
+                          >
+                            {item.quantity === 1 ? (
+                              <Trash2 className="w-4 h-4" />
+                            ) : (
+                              <Minus className="w-4 h-4" />
+                            )}
+                          </Button>
+                          <span className="font-semibold text-gray-900 w-8 text-center">
+                            {item.quantity}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onUpdateQuantity(item.key, Math.min(50, item.quantity + 1))}
+                            className="h-8 w-8 p-0 hover:bg-green-50 hover:text-green-600"
+                          >
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                        </div>
                       
-                      {/* Item Total */}
-                      <div className="text-right min-w-0">
-                        <span className="font-bold text-orange-600 text-lg">
-                          ₹{(item.price * item.quantity).toFixed(2)}
-                        </span>
+                        {/* Item Total */}
+                        <div className="text-right min-w-0">
+                          <span className="font-bold text-orange-600 text-lg">
+                            ₹{(item.price * item.quantity).toFixed(2)}
+                          </span>
+                        </div>
                       </div>
                     </div>
+                    <Input
+                      value={item.instructions || ''}
+                      onChange={(e) => onUpdateInstructions(item.key, e.target.value)}
+                      maxLength={maxNoteLength}
+                      placeholder="Special instructions, e.g. less spicy, no onion"
+                      className="bg-white border-orange-200 text-sm"
+                      aria-label={`Special instructions for ${item.name}`}
+                    />
                   </div>
                 ))}
               </div>
 
               {/* Order Summary */}
               <div className="border-t pt-4 space-y-3">
+                {hasCharges && (
+                  <div className="space-y-1 text-sm px-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Subtotal</span>
+                      <span>₹{cartTotal.toFixed(2)}</span>
+                    </div>
+                    {breakdown.service_charge_amount > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Service charge ({Number(taxConfig.service_charge_rate)}%)</span>
+                        <span>₹{breakdown.service_charge_amount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {breakdown.tax_lines.map((tax) => (
+                      <div key={tax.id} className="flex justify-between">
+                        <span className="text-gray-600">
+                          {tax.label} ({tax.rate}%){breakdown.inclusive ? ' incl.' : ''}
+                        </span>
+                        <span>₹{tax.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4 rounded-lg">
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-semibold">Total Amount:</span>
-                    <span className="text-2xl font-bold">₹{cartTotal.toFixed(2)}</span>
+                    <span className="text-2xl font-bold">₹{(breakdown?.total ?? cartTotal).toFixed(2)}</span>
                   </div>
                   <p className="text-sm text-orange-100 mt-1">
                     {cart.length} item{cart.length !== 1 ? 's' : ''} • 
@@ -115,18 +193,59 @@ const CartModal = ({
                 </div>
               </div>
 
+              <div className="space-y-1">
+                <Label htmlFor="orderNote">Note for the kitchen</Label>
+                <Textarea
+                  id="orderNote"
+                  value={orderNote}
+                  onChange={(e) => onOrderNoteChange(e.target.value)}
+                  maxLength={maxNoteLength}
+                  placeholder="Allergies or anything else the kitchen should know"
+                  rows={2}
+                />
+                <p className="text-xs text-gray-500 text-right">
+                  {orderNote.length}/{maxNoteLength}
+                </p>
+              </div>
+
+              <OrderingNotice status={orderingStatus} pickup={!!pickupDetails} />
+
+              {pickupDetails && (
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="pickupName">Your name</Label>
+                    <Input
+                      id="pickupName"
+                      value={pickupDetails.name}
+                      onChange={(e) => onPickupDetailsChange?.({ ...pickupDetails, name: e.target.value })}
+                      placeholder="Name for the order"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="pickupPhone">Phone number</Label>
+                    <Input
+                      id="pickupPhone"
+                      type="tel"
+                      value={pickupDetails.phone}
+                      onChange={(e) => onPickupDetailsChange?.({ ...pickupDetails, phone: e.target.value })}
+                      placeholder="So we can reach you"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-3 pt-4">
                 <Button
                   onClick={onPlaceOrder}
                   className="flex-1 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
-                  disabled={isPlacingOrder}
+                  disabled={isPlacingOrder || orderingClosed || needsPickupDetails}
                   size="lg"
                 >
                   {isPlacingOrder ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Placing Order...
+                      {isReconnecting ? 'Reconnecting...' : 'Placing Order...'}
                     </>
                   ) : (
                     <>
@@ -135,14 +254,16 @@ const CartModal = ({
                     </>
                   )}
                 </Button>
-                <Button
-                  onClick={onGenerateBill}
-                  variant="outline"
-                  className="flex-1 border-orange-300 text-orange-600 hover:bg-orange-50 hover:border-orange-400"
-                  size="lg"
-                >
-                  Generate Bill
-                </Button>
+                {onGenerateBill && (
+                  <Button
+                    onClick={onGenerateBill}
+                    variant="outline"
+                    className="flex-1 border-orange-300 text-orange-600 hover:bg-orange-50 hover:border-orange-400"
+                    size="lg"
+                  >
+                    Generate Bill
+                  </Button>
+                )}
               </div>
             </>
           )}
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Plus, Minus, ShoppingCart } from 'lucide-react';
+import ModifierPicker from '@/components/ModifierPicker';
+import { MenuModifier, ModifierGroup, getModifierSelectionIssues } from '@/hooks/useMenuModifiers';
+
+interface CustomizableItem {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+}
+
+interface ItemCustomizeSheetProps {
+  item: CustomizableItem | null;
+  modifiers: MenuModifier[];
+  groups: ModifierGroup[];
+  requiredModifierIds: string[];
+  onClose: () => void;
+  onAdd: (modifiers: MenuModifier[], quantity: number) => void;
+}
+
+const ItemCustomizeSheet = ({ item, modifiers, groups, requiredModifierIds, onClose, onAdd }: ItemCustomizeSheetProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState(1);
+
+  useEffect(() => {
+    if (item) {
+      setSelectedIds([]);
+      setQuantity(1);
+    }
+  }, [item]);
+
+  const selectedModifiers = modifiers.filter((modifier) => selectedIds.includes(modifier.id));
+  const issues = getModifierSelectionIssues(selectedIds, modifiers, groups, requiredModifierIds);
+  const unitPrice = (item?.price || 0) + selectedModifiers.reduce(
+    (sum, modifier) => sum + Number(modifier.price_adjustment || 0),
+    0
+  );
+
+  return (
+    <Sheet open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto sm:max-w-lg sm:mx-auto rounded-t-2xl">
+        {item && (
+          <>
+            <SheetHeader className="text-left">
+              <SheetTitle className="text-orange-600">{item.name}</SheetTitle>
+              {item.description && <SheetDescription>{item.description}</SheetDescription>}
+            </SheetHeader>
+
+            <div className="space-y-5 py-4">
+              <ModifierPicker
+                modifiers={modifiers}
+                groups={groups}
+                requiredModifierIds={requiredModifierIds}
+                selectedIds={selectedIds}
+                onChange={setSelectedIds}
+                currency="₹"
+              />
+
+              {issues.length > 0 && (
+                <div className="space-y-1">
+                  {issues.map((issue) => (
+                    <p key={issue} className="text-sm text-red-600">{issue}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3 pt-2 border-t">
+              <div className="flex items-center space-x-2 bg-white rounded-lg border border-orange-200 p-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                  className="h-8 w-8 p-0"
+                >
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <span className="font-semibold text-gray-900 w-8 text-center">{quantity}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setQuantity(Math.min(50, quantity + 1))}
+                  className="h-8 w-8 p-0"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              <Button
+                onClick={() => onAdd(selectedModifiers, quantity)}
+                disabled={issues.length > 0}
+                className="flex-1 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white"
+              >
+                <ShoppingCart className="w-4 h-4 mr-2" />
+                Add · ₹{(unitPrice * quantity).toFixed(2)}
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ItemCustomizeSheet;
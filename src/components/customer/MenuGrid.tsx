@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Plus, Star, ImageOff } from 'lucide-react';
+import { MenuVariantOption } from '@/hooks/useMenuItemVariants';
 
 interface MenuItem {
   id: string;
@@ -15,12 +16,24 @@ interface MenuItem {
 interface MenuGridProps {
   popularItems: MenuItem[];
   filteredItems: MenuItem[];
-  onAddToCart: (item: MenuItem) => void;
+  onAddToCart: (item: MenuItem, variant?: MenuVariantOption) => void;
+  // Items with modifiers, which open a customisation sheet instead of adding straight away
+  customizableIds?: Set<string>;
+  // Available sizes of items sold in sizes, each added at its own price
+  variantsByItem?: Map<string, MenuVariantOption[]>;
   isLoading: boolean;
   searchTerm: string;
 }
 
-const MenuGrid = ({ popularItems, filteredItems, onAddToCart, isLoading, searchTerm }: MenuGridProps) => {
+const MenuGrid = ({
+  popularItems,
+  filteredItems,
+  onAddToCart,
+  customizableIds,
+  variantsByItem,
+  isLoading,
+  searchTerm
+}: MenuGridProps) => {
   if (isLoading) {
     return (
       <div className="lg:col-span-3 text-center py-12">
@@ -42,7 +55,14 @@ const MenuGrid = ({ popularItems, filteredItems, onAddToCart, isLoading, searchT
           </div>
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
             {popularItems.map((item) => (
-              <MenuItemCard key={item.id} item={item} onAddToCart={onAddToCart} isPopular />
+              <MenuItemCard
+                key={item.id}
+                item={item}
+                onAddToCart={onAddToCart}
+                isCustomizable={customizableIds?.has(item.id)}
+                variants={variantsByItem?.get(item.id)}
+                isPopular
+              />
             ))}
           </div>
         </div>
@@ -73,7 +93,13 @@ const MenuGrid = ({ popularItems, filteredItems, onAddToCart, isLoading, searchT
         ) : (
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
             {filteredItems.map((item) => (
-              <MenuItemCard key={item.id} item={item} onAddToCart={onAddToCart} />
+              <MenuItemCard
+                key={item.id}
+                item={item}
+                onAddToCart={onAddToCart}
+                isCustomizable={customizableIds?.has(item.id)}
+                variants={variantsByItem?.get(item.id)}
+              />
             ))}
           </div>
         )}
@@ -84,11 +110,13 @@ const MenuGrid = ({ popularItems, filteredItems, onAddToCart, isLoading, searchT
 
 interface MenuItemCardProps {
   item: MenuItem;
-  onAddToCart: (item: MenuItem) => void;
+  onAddToCart: (item: MenuItem, variant?: MenuVariantOption) => void;
+  isCustomizable?: boolean;
+  variants?: MenuVariantOption[];
   isPopular?: boolean;
 }
 
-const MenuItemCard = ({ item, onAddToCart, isPopular = false }: MenuItemCardProps) => {
+const MenuItemCard = ({ item, onAddToCart, isCustomizable = false, variants = [], isPopular = false }: MenuItemCardProps) => {
   const [imageError, setImageError] = React.useState(false);
 
   return (
@@ -133,21 +161,44 @@ const MenuItemCard = ({ item, onAddToCart, isPopular = false }: MenuItemCardProp
             </p>
           )}
           
-          {/* Price and Add Button */}
-          <div className="flex items-center justify-between gap-3">
-            <div className="flex flex-col">
-              <span className="text-2xl font-bold text-orange-600">₹{item.price}</span>
-              <span className="text-xs text-gray-500">per item</span>
+          {/* Price and Add Button, one row per size for items sold in sizes */}
+          {variants.length > 0 ? (
+            <div className="space-y-2">
+              {variants.map((variant) => (
+                <div key={variant.id} className="flex items-center justify-between gap-3">
+                  <div className="flex items-baseline gap-2 min-w-0">
+                    <span className="text-sm font-medium text-gray-700 truncate">{variant.name}</span>
+                    <span className="text-lg font-bold text-orange-600">₹{variant.price}</span>
+                  </div>
+                  <Button
+                    onClick={() => onAddToCart(item, variant)}
+                    className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white shadow-lg hover:shadow-xl transition-all duration-200 px-3 py-1"
+                    size="sm"
+                    aria-label={`Add ${item.name} (${variant.name})`}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+              {isCustomizable && <span className="text-xs text-gray-500">customisable</span>}
             </div>
-            <Button
-              onClick={() => onAddToCart(item)}
-              className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white shadow-lg hover:shadow-xl transition-all duration-200 px-4 py-2"
-              size="sm"
-            >
-              <Plus className="w-4 h-4 mr-1" />
-              Add
-            </Button>
-          </div>
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex flex-col">
+                <span className="text-2xl font-bold text-orange-600">₹{item.price}</span>
+                <span className="text-xs text-gray-500">{isCustomizable ? 'customisable' : 'per item'}</span>
+              </div>
+              <Button
+                onClick={() => onAddToCart(item)}
+                className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white shadow-lg hover:shadow-xl transition-all duration-200 px-4 py-2"
+                size="sm"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { ShoppingCart, Wifi, WifiOff } from 'lucide-react';
+import { ShoppingCart, ClipboardList, Wifi, WifiOff } from 'lucide-react';
 
 interface MenuHeaderProps {
   restaurant: { name: string } | undefined;
@@ -9,6 +9,8 @@ interface MenuHeaderProps {
   cartTotal: number;
   cartItemCount: number;
   onCartClick: () => void;
+  activeOrderCount: number;
+  onOrdersClick: () => void;
   sessionTimeLeft: number;
 }
 
@@ -18,6 +20,8 @@ const MenuHeader = ({
   cartTotal, 
   cartItemCount, 
   onCartClick, 
+  activeOrderCount,
+  onOrdersClick,
   sessionTimeLeft 
 }: MenuHeaderProps) => {
   const formatTime = (seconds: number) => {
@@ -50,7 +54,7 @@ const MenuHeader = ({
                 <h1 className="text-lg sm:text-xl font-bold text-gray-900 truncate">
                   {restaurant?.name || 'Restaurant'}
                 </h1>
-                <p className="text-sm text-gray-600">Table {tableNumber}</p>
+                <p className="text-sm text-gray-600">{tableNumber ? `Table ${tableNumber}` : 'Pickup order'}</p>
               </div>
             </div>
             
@@ -60,6 +64,20 @@ const MenuHeader = ({
                 <p className="text-xs text-gray-600">Total</p>
                 <p className="text-lg font-bold text-orange-600">₹{cartTotal.toFixed(2)}</p>
               </div>
+              <Button
+                onClick={onOrdersClick}
+                variant="outline"
+                className="border-orange-200 text-orange-600 hover:bg-orange-50 relative px-3 sm:px-4"
+                size="sm"
+              >
+                <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
+                <span className="hidden sm:inline">My Orders</span>
+                {activeOrderCount > 0 && (
+                  <span className="absolute -top-2 -right-2 bg-orange-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                    {activeOrderCount}
+                  </span>
+                )}
+              </Button>
               <Button
                 onClick={onCartClick}
                 className="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white shadow-lg relative px-3 sm:px-4"
@@ -0,0 +1,141 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, Clock, XCircle, Receipt } from 'lucide-react';
+import { SessionOrder } from '@/hooks/useCustomerOrders';
+import { getEtaMinutes, formatEta } from '@/lib/eta';
+
+interface MyOrdersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orders: SessionOrder[];
+  isLoading: boolean;
+  // Pickup orders have no table bill to view
+  onViewBill?: () => void;
+}
+
+const STATUS_STEPS: SessionOrder['status'][] = ['pending', 'confirmed', 'preparing', 'ready', 'served'];
+
+const STATUS_LABELS: Record<SessionOrder['status'], string> = {
+  pending: 'Sent to restaurant',
+  confirmed: 'Accepted',
+  preparing: 'Being prepared',
+  ready: 'Ready',
+  served: 'Served',
+  cancelled: 'Rejected',
+};
+
+const getStatusLabel = (order: SessionOrder) =>
+  order.pickup_code && order.status === 'ready' ? 'Ready for pickup' : STATUS_LABELS[order.status];
+
+const getEtaText = (order: SessionOrder) => {
+  const minutes = getEtaMinutes(order);
+  return minutes === null ? null : formatEta(minutes);
+};
+
+const MyOrdersModal = ({ open, onOpenChange, orders, isLoading, onViewBill }: MyOrdersModalProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-orange-600 flex items-center gap-2">
+            <ClipboardList className="w-6 h-6" />
+            My Orders
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500 mx-auto"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <ClipboardList className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">No orders yet</h3>
+            <p className="text-gray-500 text-sm">Orders you place at this table will show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const currentStep = STATUS_STEPS.indexOf(order.status);
+              const etaText = getEtaText(order);
+
+              return (
+                <div key={order.id} className="p-4 rounded-lg border border-orange-100 bg-gradient-to-r from-orange-50 to-red-50 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Order #{order.id.slice(-6)}</h4>
+                      <p className="text-xs text-gray-500">
+                        {new Date(order.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {' • '}₹{Number(order.total_amount).toFixed(2)}
+                      </p>
+                    </div>
+                    <Badge className={order.status === 'cancelled' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}>
+                      {getStatusLabel(order)}
+                    </Badge>
+                  </div>
+
+                  {order.pickup_code && !['served', 'cancelled'].includes(order.status) && (
+                    <div className={`p-3 rounded-md text-center ${order.status === 'ready' ? 'bg-green-100 text-green-900' : 'bg-white border border-orange-200'}`}>
+                      <p className="text-xs uppercase tracking-wide">Pickup code</p>
+                      <p className="text-3xl font-bold tracking-widest">{order.pickup_code}</p>
+                      <p className="text-xs mt-1">
+                        {order.status === 'ready' ? 'Show this code at the counter to collect your order.' : "We'll let you know here when it's ready."}
+                      </p>
+                    </div>
+                  )}
+
+                  <p className="text-sm text-gray-700">
+                    {order.items.map((item) => `${item.quantity}× ${item.name}`).join(', ')}
+                  </p>
+
+                  {order.status === 'cancelled' ? (
+                    <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-md">
+                      <XCircle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+                      <p className="text-sm text-red-700">
+                        {order.cancellation_reason || 'The restaurant could not accept this order.'}
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex gap-1">
+                        {STATUS_STEPS.map((step, index) => (
+                          <div
+                            key={step}
+                            className={`h-1.5 flex-1 rounded-full ${index <= currentStep ? 'bg-orange-500' : 'bg-orange-100'}`}
+                          />
+                        ))}
+                      </div>
+                      {etaText && (
+                        <p className="text-sm text-gray-600 flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          {etaText}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+            {onViewBill && (
+              <Button
+                onClick={onViewBill}
+                variant="outline"
+                className="w-full border-orange-300 text-orange-600 hover:bg-orange-50 hover:border-orange-400"
+                size="lg"
+              >
+                <Receipt className="w-5 h-5 mr-2" />
+                View Table Bill
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MyOrdersModal;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Clock, PauseCircle, ChefHat } from 'lucide-react';
+import { OrderingStatus } from '@/hooks/useKitchen';
+
+interface OrderingNoticeProps {
+  status: OrderingStatus | null | undefined;
+  pickup?: boolean;
+  className?: string;
+}
+
+const OrderingNotice = ({ status, pickup = false, className }: OrderingNoticeProps) => {
+  if (!status) return null;
+
+  if (pickup && !status.pickup_enabled) {
+    return (
+      <Alert variant="destructive" className={className}>
+        <PauseCircle className="h-4 w-4" />
+        <AlertTitle>Pickup ordering isn't available</AlertTitle>
+        <AlertDescription>
+          This restaurant isn't taking pickup orders online. Please order at the counter.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.reason === 'paused') {
+    return (
+      <Alert variant="destructive" className={className}>
+        <PauseCircle className="h-4 w-4" />
+        <AlertTitle>{pickup ? 'Ordering is paused' : 'Table ordering is paused'}</AlertTitle>
+        <AlertDescription>
+          The kitchen isn't taking orders from the menu right now. Please ask a member of staff to take your order.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.reason === 'at_capacity') {
+    return (
+      <Alert className={`border-orange-300 bg-orange-50 text-orange-900 ${className || ''}`}>
+        <ChefHat className="h-4 w-4" />
+        <AlertTitle>The kitchen is at capacity</AlertTitle>
+        <AlertDescription>
+          We're working through a rush. Ordering reopens as soon as the kitchen catches up, so please try again in a few minutes.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.busy_mode && status.busy_extra_minutes > 0) {
+    return (
+      <Alert className={`border-amber-300 bg-amber-50 text-amber-900 ${className || ''}`}>
+        <Clock className="h-4 w-4" />
+        <AlertTitle>The kitchen is busy</AlertTitle>
+        <AlertDescription>
+          Orders are taking about {status.busy_extra_minutes} minutes longer than usual.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return null;
+};
+
+export default OrderingNotice;
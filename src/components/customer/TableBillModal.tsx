@@ -0,0 +1,185 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Receipt, BellRing, CheckCircle, Download } from 'lucide-react';
+import { SessionOrder, SessionTab } from '@/hooks/useCustomerOrders';
+import { downloadReceiptPdf } from '@/lib/receipt';
+import UpiQrCode from '@/components/UpiQrCode';
+
+interface TableBillModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orders: SessionOrder[];
+  tab: SessionTab | null | undefined;
+  restaurantName?: string;
+  onRequestBill: () => void;
+  isRequesting: boolean;
+  onFinish: () => void;
+}
+
+const TableBillModal = ({
+  open,
+  onOpenChange,
+  orders,
+  tab,
+  restaurantName,
+  onRequestBill,
+  isRequesting,
+  onFinish
+}: TableBillModalProps) => {
+  // Rejected orders are never charged, so they are left off the bill
+  const billedOrders = orders.filter((order) => order.status !== 'cancelled');
+  const total = tab ? Number(tab.total) : billedOrders.reduce((sum, order) => sum + Number(order.total_amount), 0);
+  const isPaid = tab?.status === 'closed';
+  const bill = tab?.bill;
+  const outstanding = bill ? Number(bill.total_amount) - Number(bill.amount_paid || 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-orange-600 flex items-center gap-2">
+            <Receipt className="w-6 h-6" />
+            Table Bill
+          </DialogTitle>
+        </DialogHeader>
+
+        {billedOrders.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Receipt className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-600 mb-2">Nothing to pay yet</h3>
+            <p className="text-gray-500 text-sm">Orders placed at this table will be added to one bill.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3">
+              {billedOrders.map((order) => (
+                <div key={order.id} className="p-3 rounded-lg border border-orange-100 bg-gradient-to-r from-orange-50 to-red-50">
+                  <div className="flex justify-between text-sm font-semibold text-gray-900">
+                    <span>Order #{order.id.slice(-6)}</span>
+                    <span>₹{Number(order.total_amount).toFixed(2)}</span>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-1">
+                    {order.items.map((item) => `${item.quantity}× ${item.name}`).join(', ')}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {bill && (
+              <div className="space-y-1 text-sm px-1">
+                <p className="font-semibold text-gray-900">Bill #{bill.bill_number}</p>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span>₹{Number(bill.subtotal).toFixed(2)}</span>
+                </div>
+                {Number(bill.discount_amount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount</span>
+                    <span>-₹{Number(bill.discount_amount).toFixed(2)}</span>
+                  </div>
+                )}
+                {Number(bill.service_charge_amount) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Service charge ({Number(bill.service_charge_rate)}%)</span>
+                    <span>₹{Number(bill.service_charge_amount).toFixed(2)}</span>
+                  </div>
+                )}
+                {bill.tax_lines.map((tax) => (
+                  <div key={`${tax.label}-${tax.rate}`} className="flex justify-between">
+                    <span className="text-gray-600">
+                      {tax.label} ({Number(tax.rate)}%){bill.tax_inclusive ? ' incl.' : ''}
+                    </span>
+                    <span>₹{Number(tax.amount).toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-gradient-to-r from-orange-500 to-red-500 text-white p-4 rounded-lg">
+              <div className="flex justify-between items-center">
+                <span className="text-lg font-semibold">Table Total:</span>
+                <span className="text-2xl font-bold">₹{total.toFixed(2)}</span>
+              </div>
+              <p className="text-sm text-orange-100 mt-1">
+                {billedOrders.length} order{billedOrders.length !== 1 ? 's' : ''} this visit
+              </p>
+            </div>
+
+            {tab && tab.shares.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-900">Split</h4>
+                {tab.shares.map((share) => (
+                  <div key={share.id} className="flex items-center justify-between text-sm p-2 rounded-md border border-orange-100">
+                    <span>{share.label}</span>
+                    <span className="flex items-center gap-2">
+                      ₹{Number(share.amount).toFixed(2)}
+                      {share.status === 'settled' && (
+                        <Badge className="bg-green-100 text-green-800">Paid</Badge>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {bill?.upi_vpa && !isPaid && bill.status !== 'paid' && outstanding > 0 && (
+              <div className="p-4 rounded-lg border border-orange-200">
+                <UpiQrCode
+                  payee={{ vpa: bill.upi_vpa, payeeName: bill.upi_payee_name || restaurantName || '' }}
+                  amount={outstanding}
+                  note={`Bill #${bill.bill_number}`}
+                />
+                <p className="text-xs text-gray-500 text-center mt-2">
+                  Show the payment confirmation to a staff member once you have paid.
+                </p>
+              </div>
+            )}
+
+            {bill && (
+              <Button
+                onClick={() => downloadReceiptPdf(bill, restaurantName)}
+                variant="outline"
+                className="w-full border-orange-300 text-orange-600 hover:bg-orange-50 hover:border-orange-400"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Receipt
+              </Button>
+            )}
+
+            {isPaid ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">
+                  <CheckCircle className="w-4 h-4 shrink-0" />
+                  Paid in full. Thank you for dining with us!
+                </div>
+                <Button onClick={onFinish} className="w-full bg-orange-500 hover:bg-orange-600" size="lg">
+                  Finish
+                </Button>
+              </div>
+            ) : tab?.bill_requested_at ? (
+              <div className="flex items-center gap-2 p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-700">
+                <BellRing className="w-4 h-4 shrink-0" />
+                Bill requested. A staff member will be with you shortly.
+              </div>
+            ) : (
+              <Button
+                onClick={onRequestBill}
+                disabled={isRequesting || !tab}
+                className="w-full bg-orange-500 hover:bg-orange-600"
+                size="lg"
+              >
+                Request Bill
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TableBillModal;
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Gauge } from 'lucide-react';
+import { Restaurant, useUpdateOrderingSettings } from '@/hooks/useRestaurants';
+
+interface KitchenLoadControlProps {
+  restaurant: Restaurant;
+  openOrderCount: number;
+}
+
+const KitchenLoadControl = ({ restaurant, openOrderCount }: KitchenLoadControlProps) => {
+  const updateOrderingSettings = useUpdateOrderingSettings();
+  const [maxOpenOrders, setMaxOpenOrders] = useState('');
+  const [extraMinutes, setExtraMinutes] = useState('');
+
+  useEffect(() => {
+    setMaxOpenOrders(restaurant.max_open_orders ? String(restaurant.max_open_orders) : '');
+    setExtraMinutes(String(restaurant.busy_extra_minutes));
+  }, [restaurant.max_open_orders, restaurant.busy_extra_minutes]);
+
+  const maxValue = maxOpenOrders.trim() ? parseInt(maxOpenOrders) : null;
+  const extraValue = parseInt(extraMinutes);
+  const isValid =
+    (maxValue === null || (!isNaN(maxValue) && maxValue > 0)) &&
+    !isNaN(extraValue) && extraValue >= 0 && extraValue <= 180;
+  const isDirty =
+    maxValue !== restaurant.max_open_orders || extraValue !== restaurant.busy_extra_minutes;
+  const atCapacity = restaurant.max_open_orders !== null && openOrderCount >= restaurant.max_open_orders;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    updateOrderingSettings.mutate({
+      id: restaurant.id,
+      max_open_orders: maxValue,
+      busy_extra_minutes: extraValue
+    });
+  };
+
+  const getStatusBadge = () => {
+    if (restaurant.qr_ordering_paused) {
+      return <Badge className="bg-red-100 text-red-800">QR ordering paused</Badge>;
+    }
+    if (atCapacity) {
+      return <Badge className="bg-orange-100 text-orange-800">At capacity</Badge>;
+    }
+    return <Badge className="bg-green-100 text-green-800">Accepting QR orders</Badge>;
+  };
+
+  return (
+    <Card className="border-brand-100">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-brand-600" />
+            Kitchen Load
+          </CardTitle>
+          {getStatusBadge()}
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor="qrOrderingPaused">Pause QR ordering</Label>
+            <p className="text-sm text-gray-600">
+              Diners see a message asking them to order through staff.
+            </p>
+          </div>
+          <Switch
+            id="qrOrderingPaused"
+            checked={restaurant.qr_ordering_paused}
+            disabled={updateOrderingSettings.isPending}
+            onCheckedChange={(checked) =>
+              updateOrderingSettings.mutate({ id: restaurant.id, qr_ordering_paused: checked })
+            }
+          />
+        </div>
+
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor="busyMode">Busy mode</Label>
+            <p className="text-sm text-gray-600">
+              Adds {restaurant.busy_extra_minutes} minutes to every quoted ready time.
+            </p>
+          </div>
+          <Switch
+            id="busyMode"
+            checked={restaurant.busy_mode}
+            disabled={updateOrderingSettings.isPending}
+            onCheckedChange={(checked) =>
+              updateOrderingSettings.mutate({ id: restaurant.id, busy_mode: checked })
+            }
+          />
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-2">
+          <div className="flex gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="maxOpenOrders">Max open orders</Label>
+              <Input
+                id="maxOpenOrders"
+                type="number"
+                min="1"
+                value={maxOpenOrders}
+                onChange={(e) => setMaxOpenOrders(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="busyExtraMinutes">Busy extra min</Label>
+              <Input
+                id="busyExtraMinutes"
+                type="number"
+                min="0"
+                max="180"
+                value={extraMinutes}
+                onChange={(e) => setExtraMinutes(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              {openOrderCount} open{restaurant.max_open_orders ? ` of ${restaurant.max_open_orders}` : ''}
+            </span>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!isValid || !isDirty || updateOrderingSettings.isPending}
+              className="bg-amber-500 hover:bg-amber-600"
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default KitchenLoadControl;
@@ -0,0 +1,122 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock } from 'lucide-react';
+import { KitchenTicket as KitchenTicketData, KitchenTicketItem, getItemStation } from '@/hooks/useKitchen';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
+
+interface KitchenTicketProps {
+  ticket: KitchenTicketData;
+  station: string | null;
+  now: number;
+  onBumpItems: (itemIds: string[]) => void;
+  isBumping: boolean;
+}
+
+const DEFAULT_PREP_MINUTES = 15;
+
+const formatAge = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+const getAgeColor = (ageSeconds: number, targetMinutes: number) => {
+  const ratio = ageSeconds / (targetMinutes * 60);
+  if (ratio < 0.75) return 'bg-green-600';
+  if (ratio < 1) return 'bg-amber-500';
+  return 'bg-red-600 animate-pulse';
+};
+
+const KitchenTicket = ({ ticket, station, now, onBumpItems, isBumping }: KitchenTicketProps) => {
+  const items = ticket.order_items.filter((item) => !station || getItemStation(item) === station);
+  const openItems = items.filter((item) => !item.bumped_at && !item.voided_at);
+
+  const ageSeconds = Math.max(0, Math.floor((now - new Date(ticket.created_at).getTime()) / 1000));
+  const targetMinutes = Math.max(
+    ...items.map((item) => item.menu_items?.estimated_prep_time || DEFAULT_PREP_MINUTES)
+  );
+
+  const renderItem = (item: KitchenTicketItem) => {
+    const isBumped = !!item.bumped_at;
+    const isVoided = !!item.voided_at;
+    return (
+      <button
+        key={item.id}
+        onClick={() => !isBumped && !isVoided && onBumpItems([item.id])}
+        disabled={isBumped || isVoided || isBumping}
+        className={`w-full text-left px-3 py-2 rounded-md border transition-colors ${
+          isVoided
+            ? 'bg-red-50 border-red-200 text-red-400 line-through'
+            : isBumped
+              ? 'bg-gray-100 border-gray-200 text-gray-400 line-through'
+              : 'bg-white border-gray-200 hover:bg-green-50 hover:border-green-300'
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <span className="font-semibold text-lg">
+            {item.quantity}× {withVariantName(item.menu_items?.name || 'Unknown item', item.variant_name)}
+          </span>
+          {isVoided && (
+            <Badge variant="destructive" className="text-xs shrink-0">VOID</Badge>
+          )}
+          {!station && (
+            <Badge variant="outline" className="text-xs capitalize shrink-0">
+              {getItemStation(item)}
+            </Badge>
+          )}
+        </div>
+        {item.order_item_modifiers.map((modifier) => (
+          <p key={modifier.id} className="text-sm text-gray-600 pl-4">
+            + {modifier.menu_modifiers?.name}
+          </p>
+        ))}
+        {item.special_instructions && (
+          <p className="text-sm font-semibold text-red-600 pl-4">
+            ⚠ {item.special_instructions}
+          </p>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg shadow-lg overflow-hidden flex flex-col">
+      <div className={`${getAgeColor(ageSeconds, targetMinutes)} text-white px-4 py-3 flex items-center justify-between`}>
+        <div>
+          <p className="text-xl font-bold">
+            {ticket.pickup_code ? `Pickup ${ticket.pickup_code}` : `Table ${ticket.table_number || '-'}`}
+          </p>
+          <p className="text-xs opacity-90">
+            #{ticket.id.slice(-6)} · {ticket.status}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 text-2xl font-mono font-bold">
+          <Clock className="w-5 h-5" />
+          {formatAge(ageSeconds)}
+        </div>
+      </div>
+
+      <div className="p-3 space-y-2 flex-1">
+        {ticket.notes && (
+          <p className="text-sm font-semibold text-red-700 bg-yellow-100 border border-yellow-400 rounded-md px-3 py-2">
+            ⚠ {ticket.notes}
+          </p>
+        )}
+        {items.map(renderItem)}
+      </div>
+
+      <div className="p-3 border-t border-gray-200">
+        <Button
+          onClick={() => onBumpItems(openItems.map((item) => item.id))}
+          disabled={openItems.length === 0 || isBumping}
+          className="w-full bg-green-600 hover:bg-green-700 text-lg py-6"
+        >
+          <CheckCircle className="w-5 h-5 mr-2" />
+          {openItems.length === 0 ? 'Done' : 'Bump Ticket'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default KitchenTicket;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Minus, Plus } from 'lucide-react';
+import ModifierPicker from '@/components/ModifierPicker';
+import { MenuModifier, ModifierGroup, getModifierSelectionIssues } from '@/hooks/useMenuModifiers';
+import { MenuItemVariant } from '@/hooks/useMenuItemVariants';
+
+export interface PosLineDraft {
+  variantId: string | null;
+  quantity: number;
+  modifierIds: string[];
+  instructions: string;
+  seat: string;
+}
+
+interface PosItemDialogProps {
+  itemName: string | null;
+  basePrice: number;
+  // Available sizes; items sold in sizes need one picked
+  variants?: MenuItemVariant[];
+  modifiers: MenuModifier[];
+  groups?: ModifierGroup[];
+  requiredModifierIds?: string[];
+  initial?: PosLineDraft;
+  onClose: () => void;
+  onSave: (draft: PosLineDraft) => void;
+}
+
+const EMPTY_DRAFT: PosLineDraft = { variantId: null, quantity: 1, modifierIds: [], instructions: '', seat: '' };
+
+const PosItemDialog = ({
+  itemName,
+  basePrice,
+  variants = [],
+  modifiers,
+  groups = [],
+  requiredModifierIds = [],
+  initial,
+  onClose,
+  onSave
+}: PosItemDialogProps) => {
+  const [draft, setDraft] = useState<PosLineDraft>(initial || EMPTY_DRAFT);
+
+  useEffect(() => {
+    if (itemName) setDraft(initial || EMPTY_DRAFT);
+  }, [itemName, initial]);
+
+  const issues = getModifierSelectionIssues(draft.modifierIds, modifiers, groups, requiredModifierIds);
+
+  const selectedVariant = variants.find((variant) => variant.id === draft.variantId);
+  const needsVariant = variants.length > 0 && !selectedVariant;
+
+  const unitPrice = (selectedVariant?.price ?? basePrice) + modifiers
+    .filter((modifier) => draft.modifierIds.includes(modifier.id))
+    .reduce((sum, modifier) => sum + Number(modifier.price_adjustment || 0), 0);
+
+  return (
+    <Dialog open={!!itemName} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{itemName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {variants.map((variant) => (
+                  <Button
+                    key={variant.id}
+                    type="button"
+                    variant={draft.variantId === variant.id ? 'default' : 'outline'}
+                    className={draft.variantId === variant.id ? 'bg-amber-500 hover:bg-amber-600' : ''}
+                    onClick={() => setDraft((prev) => ({ ...prev, variantId: variant.id }))}
+                  >
+                    {variant.name} · ${Number(variant.price).toFixed(2)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {modifiers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Modifiers</Label>
+              <ModifierPicker
+                modifiers={modifiers}
+                groups={groups}
+                requiredModifierIds={requiredModifierIds}
+                selectedIds={draft.modifierIds}
+                onChange={(modifierIds) => setDraft((prev) => ({ ...prev, modifierIds }))}
+                currency="$"
+              />
+              {issues.map((issue) => (
+                <p key={issue} className="text-xs text-red-600">{issue}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="pos-instructions">Item notes</Label>
+            <Textarea
+              id="pos-instructions"
+              value={draft.instructions}
+              onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+              placeholder="e.g. No onions, extra spicy"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pos-seat">Seat</Label>
+            <Input
+              id="pos-seat"
+              type="number"
+              min="1"
+              value={draft.seat}
+              onChange={(e) => setDraft({ ...draft, seat: e.target.value })}
+              placeholder="Shared"
+              className="w-24"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, quantity: Math.max(1, draft.quantity - 1) })}
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+              <span className="w-8 text-center font-semibold">{draft.quantity}</span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, quantity: Math.min(50, draft.quantity + 1) })}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            <span className="font-semibold text-brand-600">${(unitPrice * draft.quantity).toFixed(2)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            className="bg-amber-500 hover:bg-amber-600"
+            onClick={() => onSave(draft)}
+            disabled={needsVariant || issues.length > 0}
+          >
+            {initial ? 'Update' : 'Add to Order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PosItemDialog;
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Banknote, CreditCard, Smartphone, Wallet } from 'lucide-react';
+import { useTakePayment } from '@/hooks/usePayments';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { Tender, getPaymentProvider } from '@/lib/paymentProviders';
+import { getUpiPayee } from '@/lib/upi';
+import UpiQrCode from '@/components/UpiQrCode';
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bill: { id: string; bill_number: number; tab_id: string; restaurant_id: string } | null;
+  share?: { id: string; label: string } | null;
+  outstanding: number;
+  initialTender?: Tender;
+}
+
+const TENDERS: { value: Tender; label: string; icon: typeof Banknote }[] = [
+  { value: 'cash', label: 'Cash', icon: Banknote },
+  { value: 'card', label: 'Card', icon: CreditCard },
+  { value: 'upi', label: 'UPI', icon: Smartphone },
+  { value: 'other', label: 'Other', icon: Wallet },
+];
+
+const PaymentDialog = ({ open, onOpenChange, bill, share, outstanding, initialTender = 'cash' }: PaymentDialogProps) => {
+  const { data: restaurants } = useRestaurants();
+  const upiPayee = getUpiPayee(restaurants?.[0]);
+  const takePayment = useTakePayment();
+  const [tender, setTender] = useState<Tender>('cash');
+  const [amount, setAmount] = useState('');
+  const [cashReceived, setCashReceived] = useState('');
+  const [reference, setReference] = useState('');
+
+  // Each payment starts from whatever is still owed
+  useEffect(() => {
+    if (!open) return;
+    setTender(initialTender);
+    setAmount(outstanding.toFixed(2));
+    setCashReceived('');
+    setReference('');
+  }, [open, outstanding, initialTender]);
+
+  const amountValue = Math.round((parseFloat(amount) || 0) * 100) / 100;
+  // Without a connected terminal, staff charge the card themselves and type in its reference
+  const cardIsManual = getPaymentProvider('card').id === 'manual';
+  const needsReference = tender === 'upi' || (tender === 'card' && cardIsManual);
+  const receivedValue = parseFloat(cashReceived) || 0;
+  const changeDue = tender === 'cash' && cashReceived ? receivedValue - amountValue : 0;
+  const canSubmit = !!bill &&
+    amountValue > 0 &&
+    amountValue <= outstanding + 0.001 &&
+    (tender !== 'cash' || !cashReceived || receivedValue >= amountValue) &&
+    // UPI and terminal payments are matched to the statement by their reference
+    (!needsReference || !!reference.trim());
+
+  const handleSubmit = async () => {
+    if (!bill || !canSubmit) return;
+
+    try {
+      const updatedBill = await takePayment.mutateAsync({
+        billId: bill.id,
+        billNumber: bill.bill_number,
+        tabId: bill.tab_id,
+        restaurantId: bill.restaurant_id,
+        shareId: share?.id,
+        tender,
+        amount: amountValue,
+        tenderedAmount: tender === 'cash' && cashReceived ? receivedValue : undefined,
+        reference: reference.trim() || undefined
+      });
+
+      if (updatedBill?.status === 'paid' || amountValue >= outstanding - 0.001) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Error taking payment:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Take Payment{share ? ` · ${share.label}` : ''}</DialogTitle>
+          <DialogDescription>
+            Bill #{bill?.bill_number} · ${outstanding.toFixed(2)} still owed
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-2">
+            {TENDERS.map((option) => {
+              const Icon = option.icon;
+              return (
+                <Button
+                  key={option.value}
+                  type="button"
+                  variant={tender === option.value ? 'default' : 'outline'}
+                  className={`flex-col h-16 ${tender === option.value ? 'bg-amber-500 hover:bg-amber-600' : ''}`}
+                  onClick={() => setTender(option.value)}
+                >
+                  <Icon className="w-5 h-5" />
+                  <span className="text-xs">{option.label}</span>
+                </Button>
+              );
+            })}
+          </div>
+
+          <div>
+            <Label htmlFor="payment-amount">Amount</Label>
+            <Input
+              id="payment-amount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            {amountValue > 0 && amountValue < outstanding - 0.001 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Partial payment · ${(outstanding - amountValue).toFixed(2)} will still be owed
+              </p>
+            )}
+          </div>
+
+          {tender === 'cash' && (
+            <div>
+              <Label htmlFor="payment-received">Cash received</Label>
+              <Input
+                id="payment-received"
+                type="number"
+                min="0"
+                step="0.01"
+                value={cashReceived}
+                onChange={(e) => setCashReceived(e.target.value)}
+                placeholder={amountValue.toFixed(2)}
+              />
+              {changeDue > 0 && (
+                <p className="text-sm font-semibold text-green-600 mt-1">Change due: ${changeDue.toFixed(2)}</p>
+              )}
+              {changeDue < 0 && (
+                <p className="text-sm text-red-600 mt-1">Cash received is less than the amount</p>
+              )}
+            </div>
+          )}
+
+          {tender === 'upi' && upiPayee && bill && amountValue > 0 && (
+            <UpiQrCode
+              payee={upiPayee}
+              amount={amountValue}
+              note={`Bill #${bill.bill_number}`}
+            />
+          )}
+
+          {(needsReference || tender === 'other') && (
+            <div>
+              <Label htmlFor="payment-reference">
+                {tender === 'upi' ? 'UPI reference (UTR)' : tender === 'card' ? 'Terminal reference' : 'Reference'}
+              </Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={
+                  tender === 'upi' ? 'UPI transaction ID'
+                  : tender === 'card' ? 'Approval code from the card terminal slip'
+                  : 'Voucher or note'
+                }
+              />
+            </div>
+          )}
+
+          {tender === 'card' && !cardIsManual && (
+            <p className="text-sm text-gray-600">
+              The card is charged through {getPaymentProvider('card').label}.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            className="bg-green-500 hover:bg-green-600"
+            onClick={handleSubmit}
+            disabled={!canSubmit || takePayment.isPending}
+          >
+            {takePayment.isPending ? 'Processing...' : `Take $${amountValue.toFixed(2)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Download, Printer, Receipt as ReceiptIcon, Send, Smartphone, Wallet } from 'lucide-react';
+import { useRestaurants } from '@/hooks/useRestaurants';
+import { useTabBill, useGenerateBill } from '@/hooks/useBills';
+import { useBillPayments } from '@/hooks/usePayments';
+import { useQueueReceipt } from '@/hooks/usePrinting';
+import { TableTab } from '@/hooks/useTableTabs';
+import { billToReceipt, buildReceiptHtml, downloadReceiptPdf } from '@/lib/receipt';
+import { printTicket } from '@/lib/printTicket';
+import { getUpiPayee } from '@/lib/upi';
+import { Tender } from '@/lib/paymentProviders';
+import UpiQrCode from '@/components/UpiQrCode';
+import { toast } from '@/components/ui/use-toast';
+
+interface TabBillSectionProps {
+  tab: TableTab;
+  itemsSubtotal: number;
+  onTakePayment: (tender?: Tender) => void;
+}
+
+const TabBillSection = ({ tab, itemsSubtotal, onTakePayment }: TabBillSectionProps) => {
+  const { data: restaurants } = useRestaurants();
+  const restaurant = restaurants?.[0];
+  const { data: bill } = useTabBill(tab.id);
+  const { data: payments } = useBillPayments(bill?.id);
+  const generateBill = useGenerateBill();
+  const queueReceipt = useQueueReceipt();
+  const [discount, setDiscount] = useState('');
+  const [discountReason, setDiscountReason] = useState('');
+
+  useEffect(() => {
+    setDiscount(bill && Number(bill.discount_amount) > 0 ? String(bill.discount_amount) : '');
+    setDiscountReason(bill?.discount_reason || '');
+  }, [bill]);
+
+  const discountAmount = parseFloat(discount) || 0;
+  const isStale = !!bill && Math.abs(Number(bill.subtotal) - itemsSubtotal) >= 0.01;
+  const outstanding = bill ? Number(bill.total_amount) - Number(bill.amount_paid) : 0;
+  const upiPayee = getUpiPayee(restaurant);
+
+  const handleGenerate = async () => {
+    try {
+      await generateBill.mutateAsync({
+        tabId: tab.id,
+        restaurantId: tab.restaurant_id,
+        discountAmount,
+        discountReason: discountReason.trim() || undefined
+      });
+    } catch (error) {
+      console.error('Error generating bill:', error);
+    }
+  };
+
+  const handlePrint = () => {
+    if (!bill) return;
+
+    try {
+      printTicket(buildReceiptHtml(billToReceipt(bill), restaurant?.name, upiPayee));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to print receipt",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+        <ReceiptIcon className="w-4 h-4" />
+        {bill ? `Bill #${bill.bill_number}` : 'Bill'}
+      </h3>
+
+      {isStale && (
+        <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          Orders have changed since this bill was generated. Update it before taking payment.
+        </div>
+      )}
+
+      {bill && (
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Subtotal</span>
+            <span>${Number(bill.subtotal).toFixed(2)}</span>
+          </div>
+          {Number(bill.discount_amount) > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Discount{bill.discount_reason ? ` (${bill.discount_reason})` : ''}</span>
+              <span>-${Number(bill.discount_amount).toFixed(2)}</span>
+            </div>
+          )}
+          {Number(bill.service_charge_amount) > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Service charge ({Number(bill.service_charge_rate)}%)</span>
+              <span>${Number(bill.service_charge_amount).toFixed(2)}</span>
+            </div>
+          )}
+          {bill.bill_tax_lines.map((tax) => (
+            <div key={tax.id} className="flex justify-between">
+              <span className="text-gray-600">
+                {tax.label} ({Number(tax.rate)}%){bill.tax_inclusive ? ' incl.' : ''}
+              </span>
+              <span>${Number(tax.amount).toFixed(2)}</span>
+            </div>
+          ))}
+          {payments?.map((payment) => (
+            <div key={payment.id} className="flex justify-between text-green-600">
+              <span>
+                Paid · {payment.tender.toUpperCase()}
+                {payment.provider_reference ? ` · ${payment.provider_reference}` : ''}
+                {Number(payment.change_due) > 0 ? ` · change $${Number(payment.change_due).toFixed(2)}` : ''}
+              </span>
+              <span>-${Number(payment.amount).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="bill-discount">Discount</Label>
+          <Input
+            id="bill-discount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={discount}
+            onChange={(e) => setDiscount(e.target.value)}
+            placeholder="0.00"
+          />
+        </div>
+        <div className="col-span-2">
+          <Label htmlFor="bill-discount-reason">Reason</Label>
+          <Input
+            id="bill-discount-reason"
+            value={discountReason}
+            onChange={(e) => setDiscountReason(e.target.value)}
+            placeholder="e.g. Regular customer"
+            disabled={discountAmount <= 0}
+          />
+        </div>
+      </div>
+
+      <Button
+        onClick={handleGenerate}
+        disabled={
+          itemsSubtotal <= 0 ||
+          discountAmount < 0 ||
+          discountAmount > itemsSubtotal ||
+          (discountAmount > 0 && !discountReason.trim()) ||
+          generateBill.isPending
+        }
+        className="w-full bg-amber-500 hover:bg-amber-600"
+      >
+        {bill ? 'Update Bill' : 'Generate Bill'}
+      </Button>
+
+      {bill && (
+        <Button
+          onClick={() => onTakePayment()}
+          disabled={isStale || outstanding <= 0}
+          className="w-full bg-green-500 hover:bg-green-600"
+        >
+          <Wallet className="w-4 h-4 mr-2" />
+          Take Payment
+        </Button>
+      )}
+
+      {bill && upiPayee && !isStale && outstanding > 0 && (
+        <div className="rounded-md border p-3 space-y-3">
+          <UpiQrCode
+            payee={upiPayee}
+            amount={outstanding}
+            note={`Bill #${bill.bill_number}`}
+          />
+          <Button variant="outline" className="w-full" onClick={() => onTakePayment('upi')}>
+            <Smartphone className="w-4 h-4 mr-2" />
+            Mark Paid via UPI
+          </Button>
+        </div>
+      )}
+
+      {bill && (
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={handlePrint} disabled={isStale}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => downloadReceiptPdf(billToReceipt(bill), restaurant?.name)}
+            disabled={isStale}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => queueReceipt.mutate({ bill, restaurantName: restaurant?.name })}
+            disabled={isStale || queueReceipt.isPending}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Queue
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TabBillSection;
@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from '@/components/ui/sheet';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  TableTab,
+  SplitMode,
+  getTabTotal,
+  getTabLabel,
+  useTabItems,
+  useSplitTab
+} from '@/hooks/useTableTabs';
+import { useTabBill } from '@/hooks/useBills';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
+import { useBillPayments } from '@/hooks/usePayments';
+import TabBillSection from '@/components/tabs/TabBillSection';
+import PaymentDialog from '@/components/tabs/PaymentDialog';
+import { Tender } from '@/lib/paymentProviders';
+
+interface TabSettlementSheetProps {
+  tab: TableTab | null;
+  onClose: () => void;
+}
+
+const SPLIT_MODES: { value: SplitMode; label: string }[] = [
+  { value: 'even', label: 'Evenly' },
+  { value: 'item', label: 'By item' },
+  { value: 'seat', label: 'By seat' },
+];
+
+const TabSettlementSheet = ({ tab, onClose }: TabSettlementSheetProps) => {
+  const { data: items, isLoading } = useTabItems(tab?.id);
+  const { data: bill } = useTabBill(tab?.id);
+  const { data: payments } = useBillPayments(bill?.id);
+  const splitTab = useSplitTab();
+  const [mode, setMode] = useState<SplitMode>('even');
+  const [guestCount, setGuestCount] = useState('2');
+  const [assignments, setAssignments] = useState<Record<string, number[]>>({});
+  // 'bill' takes a payment against the whole bill rather than one share
+  const [payingFor, setPayingFor] = useState<string | null>(null);
+  const [payingTender, setPayingTender] = useState<Tender>('cash');
+
+  useEffect(() => {
+    setMode('even');
+    setGuestCount('2');
+    setAssignments({});
+  }, [tab?.id]);
+
+  if (!tab) return null;
+
+  const total = getTabTotal(tab);
+  const itemsSubtotal = (items || []).reduce((sum, item) => sum + Number(item.total_price), 0);
+  const paid = Number(tab.bills?.amount_paid || 0);
+  const shareTotal = tab.tab_shares.reduce((sum, share) => sum + Number(share.amount), 0);
+  const isOutdated = tab.tab_shares.length > 0 && Math.abs(shareTotal - total) >= 0.01;
+  const isBillStale = !!bill && Math.abs(Number(bill.subtotal) - itemsSubtotal) >= 0.01;
+  const isPartlyPaid = paid > 0;
+  const guests = Math.min(50, Math.max(1, parseInt(guestCount) || 1));
+
+  const toggleAssignment = (itemId: string, guest: number) => {
+    setAssignments(prev => {
+      const current = prev[itemId] || [];
+      return {
+        ...prev,
+        [itemId]: current.includes(guest) ? current.filter(g => g !== guest) : [...current, guest]
+      };
+    });
+  };
+
+  const activeAssignments = (items || []).map(item => ({
+    order_item_id: item.id,
+    shares: (assignments[item.id] || []).filter(guest => guest <= guests)
+  }));
+  const canSplit = total - paid > 0 && (
+    mode !== 'item' || activeAssignments.every(assignment => assignment.shares.length > 0)
+  );
+
+  const handleSplit = async () => {
+    try {
+      await splitTab.mutateAsync({
+        tabId: tab.id,
+        restaurantId: tab.restaurant_id,
+        mode,
+        guestCount: mode === 'seat' ? undefined : guests,
+        assignments: mode === 'item' ? activeAssignments : undefined
+      });
+    } catch (error) {
+      console.error('Error splitting tab:', error);
+    }
+  };
+
+  const getSharePaid = (shareId: string) =>
+    (payments || [])
+      .filter(payment => payment.share_id === shareId)
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  const payingShare = tab.tab_shares.find(share => share.id === payingFor) || null;
+  const outstanding = payingShare
+    ? Number(payingShare.amount) - getSharePaid(payingShare.id)
+    : total - paid;
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{getTabLabel(tab)}</SheetTitle>
+          <SheetDescription>
+            Opened {new Date(tab.created_at).toLocaleTimeString()} ·{' '}
+            {tab.orders.filter(order => order.status !== 'cancelled').length} orders
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          {/* Consolidated items */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-3">Items</h3>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-500"></div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {items?.map(item => (
+                  <div key={item.id} className="text-sm">
+                    <div className="flex justify-between gap-2">
+                      <span>
+                        {item.quantity} × {withVariantName(item.menu_items?.name || 'Unknown item', item.variant_name)}
+                        {item.seat_number && <span className="text-xs text-gray-500"> · Seat {item.seat_number}</span>}
+                      </span>
+                      <span>${Number(item.total_price).toFixed(2)}</span>
+                    </div>
+                    {mode === 'item' && !isPartlyPaid && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {Array.from({ length: guests }, (_, index) => index + 1).map(guest => (
+                          <Button
+                            key={guest}
+                            size="sm"
+                            variant={assignments[item.id]?.includes(guest) ? 'default' : 'outline'}
+                            className={`h-6 px-2 text-xs ${assignments[item.id]?.includes(guest) ? 'bg-amber-500 hover:bg-amber-600' : ''}`}
+                            onClick={() => toggleAssignment(item.id, guest)}
+                          >
+                            Guest {guest}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <Separator className="my-3" />
+            <div className="flex justify-between text-sm font-medium">
+              <span>Items total</span>
+              <span>${itemsSubtotal.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <TabBillSection
+            tab={tab}
+            itemsSubtotal={itemsSubtotal}
+            onTakePayment={(tender = 'cash') => {
+              setPayingTender(tender);
+              setPayingFor('bill');
+            }}
+          />
+
+          <div>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between font-semibold text-base">
+                <span>Amount due</span>
+                <span className="text-brand-600">${total.toFixed(2)}</span>
+              </div>
+              {paid > 0 && (
+                <>
+                  <div className="flex justify-between text-green-600">
+                    <span>Paid</span>
+                    <span>${paid.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Remaining</span>
+                    <span>${(total - paid).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Split controls */}
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900">Split Bill</h3>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label>Split</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SPLIT_MODES.map(option => (
+                      <SelectItem
+                        key={option.value}
+                        value={option.value}
+                        disabled={isPartlyPaid && option.value !== 'even'}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {mode !== 'seat' && (
+                <div className="w-24">
+                  <Label htmlFor="tab-guests">Guests</Label>
+                  <Input
+                    id="tab-guests"
+                    type="number"
+                    min="1"
+                    max="50"
+                    value={guestCount}
+                    onChange={(e) => setGuestCount(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            {mode === 'item' && (
+              <p className="text-xs text-gray-500">
+                Assign every item to one or more guests. Shared items are divided between them.
+              </p>
+            )}
+            {mode === 'seat' && (
+              <p className="text-xs text-gray-500">
+                Items without a seat are grouped into a shared bill.
+              </p>
+            )}
+            <Button
+              onClick={handleSplit}
+              disabled={!canSplit || splitTab.isPending}
+              variant="outline"
+              className="w-full"
+            >
+              {tab.tab_shares.length > 0 ? 'Split Again' : 'Split Bill'}
+            </Button>
+          </div>
+
+          {/* Shares */}
+          {tab.tab_shares.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">Shares</h3>
+              {isOutdated && (
+                <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  The tab has changed since it was split. Split again before taking payment.
+                </div>
+              )}
+              {!bill && (
+                <p className="text-sm text-gray-500">Generate the bill before taking payment.</p>
+              )}
+              {tab.tab_shares.map(share => (
+                <div key={share.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">{share.label}</span>
+                    <span className="font-semibold">${Number(share.amount).toFixed(2)}</span>
+                  </div>
+                  {share.status === 'settled' ? (
+                    <Badge className="bg-green-100 text-green-800">
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      Paid{share.payment_method ? ` · ${share.payment_method.toUpperCase()}` : ''}
+                    </Badge>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-gray-500">
+                        {getSharePaid(share.id) > 0 && `$${getSharePaid(share.id).toFixed(2)} paid so far`}
+                      </span>
+                      <Button
+                        size="sm"
+                        className="bg-green-500 hover:bg-green-600"
+                        onClick={() => {
+                          setPayingTender('cash');
+                          setPayingFor(share.id);
+                        }}
+                        disabled={!bill || isBillStale || isOutdated}
+                      >
+                        Take Payment
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <PaymentDialog
+          open={!!payingFor}
+          onOpenChange={(open) => !open && setPayingFor(null)}
+          bill={bill || null}
+          share={payingShare}
+          outstanding={Math.max(0, outstanding)}
+          initialTender={payingTender}
+        />
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TabSettlementSheet;
@@ -0,0 +1,146 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Payment } from '@/hooks/usePayments';
+
+export interface BillLine {
+  id: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface BillTaxLine {
+  id: string;
+  label: string;
+  rate: number;
+  taxable_amount: number;
+  amount: number;
+}
+
+export interface Bill {
+  id: string;
+  restaurant_id: string;
+  tab_id: string;
+  bill_number: number;
+  table_number: string | null;
+  subtotal: number;
+  discount_amount: number;
+  discount_reason: string | null;
+  service_charge_rate: number;
+  service_charge_amount: number;
+  tax_amount: number;
+  tax_inclusive: boolean;
+  total_amount: number;
+  amount_paid: number;
+  status: 'open' | 'paid';
+  created_at: string;
+  updated_at: string;
+  paid_at: string | null;
+  bill_lines: BillLine[];
+  bill_tax_lines: BillTaxLine[];
+  payments: Payment[];
+}
+
+const BILL_SELECT = '*, bill_lines ( * ), bill_tax_lines ( * ), payments ( * )';
+
+const sortLines = (bill: Bill): Bill => ({
+  ...bill,
+  bill_lines: [...bill.bill_lines].sort((a, b) => a.position - b.position),
+  payments: [...bill.payments].sort((a, b) => a.created_at.localeCompare(b.created_at))
+});
+
+export const useTabBill = (tabId: string | undefined) => {
+  return useQuery({
+    queryKey: ['tab-bill', tabId],
+    queryFn: async () => {
+      if (!tabId) return null;
+
+      const { data, error } = await supabase
+        .from('bills')
+        .select(BILL_SELECT)
+        .eq('tab_id', tabId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? sortLines(data as unknown as Bill) : null;
+    },
+    enabled: !!tabId
+  });
+};
+
+export const useRecentBills = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['bills', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('bills')
+        .select(BILL_SELECT)
+        .eq('restaurant_id', restaurantId)
+        .order('bill_number', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data as unknown as Bill[]).map(sortLines);
+    },
+    enabled: !!restaurantId
+  });
+};
+
+interface GenerateBillData {
+  tabId: string;
+  restaurantId: string;
+  discountAmount?: number;
+  discountReason?: string;
+}
+
+export const useGenerateBill = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tabId, discountAmount, discountReason }: GenerateBillData) => {
+      // Totals, tax and the bill number are all worked out server-side
+      const { data, error } = await supabase.rpc('generate_bill', {
+        p_tab_id: tabId,
+        p_discount_amount: discountAmount,
+        p_discount_reason: discountReason
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (bill, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tab-bill', variables.tabId] });
+      queryClient.invalidateQueries({ queryKey: ['table-tabs', variables.restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['bills', variables.restaurantId] });
+
+      // A void can bring the bill below what was already paid; the bill is then settled
+      const overpaid = bill ? Number(bill.amount_paid) - Number(bill.total_amount) : 0;
+      if (bill?.status === 'paid') {
+        toast({
+          title: "Bill settled",
+          description: overpaid > 0.001
+            ? `Bill #${bill.bill_number} is covered by earlier payments. Refund $${overpaid.toFixed(2)} to the guest.`
+            : `Bill #${bill.bill_number} is covered by earlier payments.`,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success!",
+        description: `Bill #${bill?.bill_number} is ready!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate bill",
+        variant: "destructive"
+      });
+    }
+  });
+};
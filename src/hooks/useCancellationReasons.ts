@@ -0,0 +1,140 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export interface CancellationReason {
+  id: string;
+  restaurant_id: string;
+  label: string;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CancellationsByReason {
+  reason: string;
+  order_count: number;
+  lost_revenue: number;
+}
+
+export interface CancellationsByItem {
+  menu_item_id: string;
+  item_name: string;
+  variant_name: string | null;
+  order_count: number;
+  quantity: number;
+  lost_revenue: number;
+}
+
+export const useCancellationReasons = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['cancellation-reasons', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('cancellation_reasons')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data as CancellationReason[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCreateCancellationReason = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, label }: { restaurantId: string; label: string }) => {
+      const { data, error } = await supabase
+        .from('cancellation_reasons')
+        .upsert(
+          { restaurant_id: restaurantId, label, is_active: true },
+          { onConflict: 'restaurant_id,label' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['cancellation-reasons', variables.restaurantId] });
+      toast({
+        title: "Success!",
+        description: "Rejection reason added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add rejection reason",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeleteCancellationReason = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reasonId: string) => {
+      // Reasons stay referenced by past orders, so they are retired rather than deleted
+      const { error } = await supabase
+        .from('cancellation_reasons')
+        .update({ is_active: false })
+        .eq('id', reasonId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cancellation-reasons'] });
+      toast({
+        title: "Success!",
+        description: "Rejection reason removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove rejection reason",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useCancellationReport = (restaurantId: string | undefined, from: Date, to: Date) => {
+  return useQuery({
+    queryKey: ['cancellation-report', restaurantId, from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      if (!restaurantId) return { byReason: [], byItem: [] };
+
+      const params = {
+        p_restaurant_id: restaurantId,
+        p_from: from.toISOString(),
+        p_to: to.toISOString()
+      };
+
+      const [byReason, byItem] = await Promise.all([
+        supabase.rpc('get_cancellation_report_by_reason', params),
+        supabase.rpc('get_cancellation_report_by_item', params)
+      ]);
+
+      if (byReason.error) throw byReason.error;
+      if (byItem.error) throw byItem.error;
+
+      return {
+        byReason: byReason.data as CancellationsByReason[],
+        byItem: byItem.data as CancellationsByItem[]
+      };
+    },
+    enabled: !!restaurantId
+  });
+};
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Order } from '@/hooks/useOrders';
+import { Receipt } from '@/lib/receipt';
+
+export interface SessionOrder {
+  id: string;
+  status: Order['status'];
+  total_amount: number;
+  created_at: string;
+  estimated_ready_at: string | null;
+  cancellation_reason: string | null;
+  pickup_code: string | null;
+  items: { name: string; quantity: number }[];
+}
+
+interface DinerSession {
+  id: string;
+  expiresAt: number;
+}
+
+const SESSION_DURATION = 2 * 60 * 60 * 1000; // 2 hours in milliseconds
+
+const loadOrStartSession = (storageKey: string): DinerSession => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      const parsed = JSON.parse(stored) as DinerSession;
+      if (parsed.id && parsed.expiresAt > Date.now()) {
+        return parsed;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading diner session:', error);
+  }
+
+  const session = { id: crypto.randomUUID(), expiresAt: Date.now() + SESSION_DURATION };
+  localStorage.setItem(storageKey, JSON.stringify(session));
+  return session;
+};
+
+// A diner's table session survives page reloads so orders placed earlier in
+// the visit can still be tracked. The id is what ties orders to this device.
+export const useDinerSession = (restaurantId: string | undefined, tableNumber: string | undefined) => {
+  const storageKey = `diner-session-${restaurantId}-${tableNumber}`;
+  const [session, setSession] = useState<DinerSession>(() => loadOrStartSession(storageKey));
+
+  useEffect(() => {
+    setSession(loadOrStartSession(storageKey));
+  }, [storageKey]);
+
+  const endSession = useCallback(() => {
+    localStorage.removeItem(storageKey);
+  }, [storageKey]);
+
+  return { sessionId: session.id, expiresAt: session.expiresAt, endSession };
+};
+
+export const useSessionOrders = (sessionId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`table-session:${sessionId}`)
+      .on('broadcast', { event: 'order_updated' }, () => {
+        queryClient.invalidateQueries({ queryKey: ['session-orders', sessionId] });
+      })
+      .subscribe((status) => {
+        setIsLive(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, queryClient]);
+
+  const query = useQuery({
+    queryKey: ['session-orders', sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+
+      const { data, error } = await supabase.rpc('get_session_orders', {
+        p_session_id: sessionId
+      });
+
+      if (error) throw error;
+      return (data || []) as unknown as SessionOrder[];
+    },
+    enabled: !!sessionId,
+    staleTime: 0,
+    refetchInterval: isLive ? false : 15000
+  });
+
+  return { ...query, isLive };
+};
+
+export interface SessionTab {
+  id: string;
+  status: 'open' | 'closed';
+  total: number;
+  bill_requested_at: string | null;
+  bill: (Receipt & { upi_vpa: string | null; upi_payee_name: string | null }) | null;
+  shares: { id: string; label: string; amount: number; status: 'open' | 'settled' }[];
+}
+
+export const useSessionTab = (sessionId: string | undefined, enabled = true) => {
+  return useQuery({
+    queryKey: ['session-tab', sessionId],
+    queryFn: async () => {
+      if (!sessionId) return null;
+
+      const { data, error } = await supabase.rpc('get_session_tab', {
+        p_session_id: sessionId
+      });
+
+      if (error) throw error;
+      return data as unknown as SessionTab | null;
+    },
+    enabled: !!sessionId && enabled,
+    staleTime: 0,
+    // Shares are settled at the counter, so keep the diner's view current
+    refetchInterval: 15000
+  });
+};
+
+export const useRequestTabBill = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase.rpc('request_tab_bill', {
+        p_session_id: sessionId
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: ['session-tab', sessionId] });
+    }
+  });
+};
@@ -0,0 +1,127 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Order } from '@/hooks/useOrders';
+
+export interface KitchenTicketItem {
+  id: string;
+  quantity: number;
+  variant_name: string | null;
+  special_instructions: string | null;
+  bumped_at: string | null;
+  voided_at: string | null;
+  menu_items: {
+    name: string;
+    station: string | null;
+    estimated_prep_time: number | null;
+  } | null;
+  order_item_modifiers: {
+    id: string;
+    menu_modifiers: { name: string } | null;
+  }[];
+}
+
+export interface KitchenTicket extends Order {
+  order_items: KitchenTicketItem[];
+}
+
+// Orders the kitchen still has to work on; ready orders leave the screen
+export const KITCHEN_STATUSES: Order['status'][] = ['pending', 'confirmed', 'preparing'];
+
+export const DEFAULT_STATION = 'kitchen';
+
+// Mirrors get_ordering_status; reason is set whenever QR ordering is closed
+export interface OrderingStatus {
+  accepting_orders: boolean;
+  reason: 'paused' | 'at_capacity' | null;
+  busy_mode: boolean;
+  busy_extra_minutes: number;
+  pickup_enabled: boolean;
+  instructions_max_length: number;
+}
+
+// Used until the restaurant's own limit has loaded; matches the column default
+export const DEFAULT_INSTRUCTIONS_MAX_LENGTH = 140;
+
+export const isOrderingClosed = (status: OrderingStatus | null | undefined, pickup = false) =>
+  !!status && (!status.accepting_orders || (pickup && !status.pickup_enabled));
+
+export const getItemStation = (item: KitchenTicketItem) =>
+  item.menu_items?.station || DEFAULT_STATION;
+
+export const useKitchenTickets = (restaurantId: string | undefined, options: { live?: boolean } = {}) => {
+  return useQuery({
+    queryKey: ['kitchen-orders', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          order_items (
+            id,
+            quantity,
+            variant_name,
+            special_instructions,
+            bumped_at,
+            voided_at,
+            menu_items ( name, station, estimated_prep_time ),
+            order_item_modifiers ( id, menu_modifiers ( name ) )
+          )
+        `)
+        .eq('restaurant_id', restaurantId)
+        .in('status', KITCHEN_STATUSES)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as KitchenTicket[];
+    },
+    enabled: !!restaurantId,
+    refetchInterval: options.live ? false : 15000
+  });
+};
+
+export const useBumpOrderItems = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderItemIds: string[]) => {
+      const { error } = await supabase.rpc('bump_order_items', {
+        p_order_item_ids: orderItemIds
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['todays-orders'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to bump items",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useOrderingStatus = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['ordering-status', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return null;
+
+      const { data, error } = await supabase.rpc('get_ordering_status', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) throw error;
+      return data as unknown as OrderingStatus | null;
+    },
+    enabled: !!restaurantId,
+    // The kitchen catches up on its own, so diners see ordering reopen
+    refetchInterval: 30000
+  });
+};
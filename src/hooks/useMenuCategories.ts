@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export interface MenuCategory {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description: string | null;
+  sort_order: number | null;
+  is_active: boolean | null;
+  tax_override: boolean;
+  created_at: string | null;
+}
+
+export const useMenuCategories = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['menu-categories', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('menu_categories')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as MenuCategory[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCreateMenuCategory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, name }: { restaurantId: string; name: string }) => {
+      const { data, error } = await supabase
+        .from('menu_categories')
+        .insert({ restaurant_id: restaurantId, name })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as MenuCategory;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['menu-categories', variables.restaurantId] });
+      toast({
+        title: "Success!",
+        description: "Category added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add category",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeleteMenuCategory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (categoryId: string) => {
+      // Items in the category are kept and become uncategorised
+      const { error } = await supabase
+        .from('menu_categories')
+        .delete()
+        .eq('id', categoryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['menu-categories'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-items'] });
+      toast({
+        title: "Success!",
+        description: "Category removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove category",
+        variant: "destructive"
+      });
+    }
+  });
+};
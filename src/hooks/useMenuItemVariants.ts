@@ -0,0 +1,184 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export interface MenuItemVariant {
+  id: string;
+  restaurant_id: string;
+  menu_item_id: string;
+  name: string;
+  price: number;
+  cost_price: number | null;
+  is_available: boolean;
+  sort_order: number;
+}
+
+// What customers see of a variant; cost prices stay with the owner
+export type MenuVariantOption = Pick<MenuItemVariant, 'id' | 'menu_item_id' | 'name' | 'price' | 'is_available' | 'sort_order'>;
+
+export interface MenuItemVariantInput {
+  name: string;
+  price: number;
+  cost_price: number;
+}
+
+export interface ItemSalesRow {
+  menu_item_id: string;
+  item_name: string;
+  variant_name: string | null;
+  order_count: number;
+  quantity: number;
+  revenue: number;
+  cost: number;
+}
+
+// Order lines show the size with the dish, e.g. "Chicken Biryani (Half)"
+export const withVariantName = (name: string, variantName: string | null | undefined) =>
+  variantName ? `${name} (${variantName})` : name;
+
+export const useMenuItemVariants = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['menu-item-variants', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('menu_item_variants')
+        .select('id, restaurant_id, menu_item_id, name, price, cost_price, is_available, sort_order')
+        .eq('restaurant_id', restaurantId)
+        .order('sort_order', { ascending: true })
+        .order('price', { ascending: true });
+
+      if (error) throw error;
+      return data as MenuItemVariant[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useMenuVariantOptions = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['menu-item-variants', restaurantId, 'options'],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('get_menu_item_variants', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) throw error;
+      return data as MenuVariantOption[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCreateMenuItemVariant = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, menuItemId, sortOrder, variant }: {
+      restaurantId: string;
+      menuItemId: string;
+      sortOrder: number;
+      variant: MenuItemVariantInput;
+    }) => {
+      const { data, error } = await supabase
+        .from('menu_item_variants')
+        .insert({ ...variant, restaurant_id: restaurantId, menu_item_id: menuItemId, sort_order: sortOrder })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as MenuItemVariant;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['menu-item-variants'] });
+      toast({
+        title: "Success!",
+        description: "Size added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add size",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useUpdateMenuItemVariant = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string } & Partial<MenuItemVariantInput & { is_available: boolean }>) => {
+      const { error } = await supabase
+        .from('menu_item_variants')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['menu-item-variants'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update size",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeleteMenuItemVariant = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (variantId: string) => {
+      // Past order lines keep the size's name
+      const { error } = await supabase
+        .from('menu_item_variants')
+        .delete()
+        .eq('id', variantId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['menu-item-variants'] });
+      toast({
+        title: "Success!",
+        description: "Size removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove size",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useItemSalesReport = (restaurantId: string | undefined, from: Date, to: Date) => {
+  return useQuery({
+    queryKey: ['item-sales-report', restaurantId, from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('get_item_sales_report', {
+        p_restaurant_id: restaurantId,
+        p_from: from.toISOString(),
+        p_to: to.toISOString()
+      });
+
+      if (error) throw error;
+      return data as ItemSalesRow[];
+    },
+    enabled: !!restaurantId
+  });
+};
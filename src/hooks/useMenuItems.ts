@@ -13,6 +13,8 @@ export interface MenuItem {
   image_url: string | null;
   is_available: boolean;
   sort_order: number;
+  station: string | null;
+  estimated_prep_time: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -106,3 +108,33 @@ export const useDeleteMenuItem = () => {
     },
   });
 };
+
+export const useUpdateMenuItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Omit<MenuItem, 'created_at' | 'updated_at'>> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('menu_items')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating menu item:', error);
+        throw error;
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['menu-items'] });
+      toast.success('Menu item updated successfully');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update menu item:', error);
+      toast.error('Failed to update menu item: ' + (error.message || 'Unknown error'));
+    },
+  });
+};
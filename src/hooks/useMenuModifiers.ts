@@ -0,0 +1,450 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+
+export type ModifierType = 'addition' | 'substitution' | 'removal';
+
+export interface MenuModifier {
+  id: string;
+  restaurant_id: string;
+  group_id: string | null;
+  name: string;
+  description: string | null;
+  price_adjustment: number | null;
+  modifier_type: ModifierType | null;
+  applicable_categories: string[] | null;
+  is_active: boolean;
+}
+
+export interface MenuItemModifierLink {
+  menu_item_id: string;
+  modifier_id: string;
+  is_required: boolean | null;
+}
+
+export interface ModifierGroup {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  description: string | null;
+  selection_type: 'single' | 'multiple';
+  min_selections: number;
+  max_selections: number | null;
+  applicable_categories: string[] | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface MenuItemModifierGroupLink {
+  menu_item_id: string;
+  group_id: string;
+}
+
+export interface MenuModifierData {
+  modifiers: MenuModifier[];
+  links: MenuItemModifierLink[];
+  groups: ModifierGroup[];
+  groupLinks: MenuItemModifierGroupLink[];
+}
+
+interface ModifierItem {
+  id: string;
+  category_id: string | null;
+}
+
+const EMPTY_MODIFIER_DATA: MenuModifierData = { modifiers: [], links: [], groups: [], groupLinks: [] };
+
+export const useMenuModifiers = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['menu-modifiers', restaurantId],
+    queryFn: async (): Promise<MenuModifierData> => {
+      if (!restaurantId) return EMPTY_MODIFIER_DATA;
+
+      const { data: modifiers, error } = await supabase
+        .from('menu_modifiers')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      if (!modifiers.length) return EMPTY_MODIFIER_DATA;
+
+      const { data: links, error: linksError } = await supabase
+        .from('menu_item_modifiers')
+        .select('menu_item_id, modifier_id, is_required')
+        .in('modifier_id', modifiers.map((modifier) => modifier.id));
+
+      if (linksError) throw linksError;
+
+      const { data: groups, error: groupsError } = await supabase
+        .from('modifier_groups')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (groupsError) throw groupsError;
+
+      let groupLinks: MenuItemModifierGroupLink[] = [];
+      if (groups.length) {
+        const { data, error: groupLinksError } = await supabase
+          .from('menu_item_modifier_groups')
+          .select('menu_item_id, group_id')
+          .in('group_id', groups.map((group) => group.id));
+
+        if (groupLinksError) throw groupLinksError;
+        groupLinks = data || [];
+      }
+
+      return {
+        modifiers: modifiers as MenuModifier[],
+        links: (links || []) as MenuItemModifierLink[],
+        groups: groups as ModifierGroup[],
+        groupLinks
+      };
+    },
+    enabled: !!restaurantId
+  });
+};
+
+// Active groups offered on the item, through a direct link or the item's category,
+// that still have options to choose from
+export const getItemModifierGroups = (item: ModifierItem, data: MenuModifierData | undefined) => {
+  if (!data) return [];
+
+  return data.groups.filter((group) =>
+    (
+      data.groupLinks.some((link) => link.menu_item_id === item.id && link.group_id === group.id) ||
+      (!!item.category_id && (group.applicable_categories || []).includes(item.category_id))
+    ) &&
+    data.modifiers.some((modifier) => modifier.group_id === group.id)
+  );
+};
+
+// Mirrors the server rule in insert_order_lines: an ungrouped modifier applies to an
+// item when it is linked to the item directly or to the item's category, and a
+// grouped one when its group is offered on the item
+export const getItemModifiers = (item: ModifierItem, data: MenuModifierData | undefined) => {
+  if (!data) return [];
+
+  const groupIds = getItemModifierGroups(item, data).map((group) => group.id);
+
+  return data.modifiers.filter((modifier) =>
+    modifier.group_id
+      ? groupIds.includes(modifier.group_id)
+      : data.links.some((link) => link.menu_item_id === item.id && link.modifier_id === modifier.id) ||
+        (!!item.category_id && (modifier.applicable_categories || []).includes(item.category_id))
+  );
+};
+
+// Modifiers linked to the item as required must be on every line; insert_order_lines rejects the rest
+export const getRequiredModifierIds = (item: { id: string }, links: MenuItemModifierLink[]) =>
+  links
+    .filter((link) => link.menu_item_id === item.id && link.is_required)
+    .map((link) => link.modifier_id);
+
+export const getModifierGroupMax = (group: ModifierGroup) =>
+  group.selection_type === 'single' ? 1 : group.max_selections ?? Infinity;
+
+export const describeModifierGroupRule = (group: ModifierGroup) => {
+  const max = getModifierGroupMax(group);
+
+  if (group.selection_type === 'single') {
+    return group.min_selections > 0 ? 'Choose 1' : 'Choose up to 1';
+  }
+  if (group.min_selections > 0 && max === group.min_selections) return `Choose ${max}`;
+  if (group.min_selections > 0 && max !== Infinity) return `Choose ${group.min_selections} to ${max}`;
+  if (group.min_selections > 0) return `Choose at least ${group.min_selections}`;
+  if (max !== Infinity) return `Choose up to ${max}`;
+  return 'Optional';
+};
+
+// Reasons the selection would be rejected by insert_order_lines, one per
+// unmet required modifier or group
+export const getModifierSelectionIssues = (
+  selectedIds: string[],
+  modifiers: MenuModifier[],
+  groups: ModifierGroup[],
+  requiredModifierIds: string[]
+) => {
+  const issues = modifiers
+    .filter((modifier) => requiredModifierIds.includes(modifier.id) && !selectedIds.includes(modifier.id))
+    .map((modifier) => `Please choose ${modifier.name}`);
+
+  groups.forEach((group) => {
+    const count = modifiers.filter(
+      (modifier) => modifier.group_id === group.id && selectedIds.includes(modifier.id)
+    ).length;
+
+    if (count < group.min_selections || count > getModifierGroupMax(group)) {
+      issues.push(`${group.name}: ${describeModifierGroupRule(group).toLowerCase()}`);
+    }
+  });
+
+  return issues;
+};
+
+export interface ModifierGroupInput {
+  name: string;
+  description: string | null;
+  selection_type: 'single' | 'multiple';
+  min_selections: number;
+  max_selections: number | null;
+  applicable_categories: string[];
+}
+
+export interface ModifierOptionInput {
+  name: string;
+  modifier_type: ModifierType | null;
+  price_adjustment: number;
+}
+
+// The owner's view of every active group with its options and attached items
+export const useModifierGroups = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['modifier-groups', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return { groups: [], options: [], groupLinks: [] };
+
+      const { data: groups, error } = await supabase
+        .from('modifier_groups')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      if (!groups.length) return { groups: [], options: [], groupLinks: [] };
+
+      const groupIds = groups.map((group) => group.id);
+
+      const { data: options, error: optionsError } = await supabase
+        .from('menu_modifiers')
+        .select('*')
+        .in('group_id', groupIds)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
+
+      if (optionsError) throw optionsError;
+
+      const { data: groupLinks, error: groupLinksError } = await supabase
+        .from('menu_item_modifier_groups')
+        .select('menu_item_id, group_id')
+        .in('group_id', groupIds);
+
+      if (groupLinksError) throw groupLinksError;
+
+      return {
+        groups: groups as ModifierGroup[],
+        options: options as MenuModifier[],
+        groupLinks: (groupLinks || []) as MenuItemModifierGroupLink[]
+      };
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCreateModifierGroup = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, group }: { restaurantId: string; group: ModifierGroupInput }) => {
+      const { data, error } = await supabase
+        .from('modifier_groups')
+        .insert({ ...group, restaurant_id: restaurantId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ModifierGroup;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+      toast({
+        title: "Success!",
+        description: "Modifier group created!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create modifier group",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useUpdateModifierGroup = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, group }: { id: string; group: ModifierGroupInput }) => {
+      const { data, error } = await supabase
+        .from('modifier_groups')
+        .update({ ...group, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ModifierGroup;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+      toast({
+        title: "Success!",
+        description: "Modifier group updated!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update modifier group",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeleteModifierGroup = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (groupId: string) => {
+      // Past orders reference the options, so the group and its options are retired rather than deleted
+      const { error: optionsError } = await supabase
+        .from('menu_modifiers')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('group_id', groupId);
+
+      if (optionsError) throw optionsError;
+
+      const { error } = await supabase
+        .from('modifier_groups')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', groupId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+      toast({
+        title: "Success!",
+        description: "Modifier group removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove modifier group",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useSetModifierGroupItems = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ groupId, menuItemIds }: { groupId: string; menuItemIds: string[] }) => {
+      const { error: deleteError } = await supabase
+        .from('menu_item_modifier_groups')
+        .delete()
+        .eq('group_id', groupId);
+
+      if (deleteError) throw deleteError;
+      if (!menuItemIds.length) return;
+
+      const { error } = await supabase
+        .from('menu_item_modifier_groups')
+        .insert(menuItemIds.map((menuItemId) => ({ group_id: groupId, menu_item_id: menuItemId })));
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to attach modifier group to items",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useCreateModifierOption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, groupId, option }: {
+      restaurantId: string;
+      groupId: string;
+      option: ModifierOptionInput;
+    }) => {
+      const { data, error } = await supabase
+        .from('menu_modifiers')
+        .insert({ ...option, restaurant_id: restaurantId, group_id: groupId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as MenuModifier;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+      toast({
+        title: "Success!",
+        description: "Option added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add option",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeleteModifierOption = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (optionId: string) => {
+      const { error } = await supabase
+        .from('menu_modifiers')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', optionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['modifier-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['menu-modifiers'] });
+      toast({
+        title: "Success!",
+        description: "Option removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove option",
+        variant: "destructive"
+      });
+    }
+  });
+};
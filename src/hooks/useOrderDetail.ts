@@ -0,0 +1,112 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Order } from '@/hooks/useOrders';
+
+export interface OrderDetailItem {
+  id: string;
+  quantity: number;
+  variant_name: string | null;
+  unit_price: number;
+  total_price: number;
+  special_instructions: string | null;
+  bumped_at: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  menu_items: { name: string; station: string | null } | null;
+  order_item_modifiers: {
+    id: string;
+    price_adjustment: number | null;
+    menu_modifiers: { name: string } | null;
+  }[];
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  order_id: string;
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
+  changed_by: string | null;
+  created_at: string;
+}
+
+export const useOrderItems = (orderId: string | undefined) => {
+  return useQuery({
+    queryKey: ['order-items', orderId],
+    queryFn: async () => {
+      if (!orderId) return [];
+
+      const { data, error } = await supabase
+        .from('order_items')
+        .select(`
+          id,
+          quantity,
+          variant_name,
+          unit_price,
+          total_price,
+          special_instructions,
+          bumped_at,
+          voided_at,
+          void_reason,
+          menu_items ( name, station ),
+          order_item_modifiers ( id, price_adjustment, menu_modifiers ( name ) )
+        `)
+        .eq('order_id', orderId);
+
+      if (error) throw error;
+      return data as unknown as OrderDetailItem[];
+    },
+    enabled: !!orderId
+  });
+};
+
+export const useOrderStatusEvents = (orderId: string | undefined) => {
+  return useQuery({
+    queryKey: ['order-status-events', orderId],
+    queryFn: async () => {
+      if (!orderId) return [];
+
+      const { data, error } = await supabase
+        .from('order_status_events')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as OrderStatusEvent[];
+    },
+    enabled: !!orderId
+  });
+};
+
+export interface ItemVoid {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  item_name: string;
+  quantity: number;
+  amount: number;
+  reason: string;
+  voided_by: string | null;
+  created_at: string;
+}
+
+export const useItemVoids = (restaurantId: string | undefined, from: Date, to: Date) => {
+  return useQuery({
+    queryKey: ['item-voids', restaurantId, from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('order_item_voids')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ItemVoid[];
+    },
+    enabled: !!restaurantId
+  });
+};
@@ -0,0 +1,85 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Order } from '@/hooks/useOrders';
+import { BusinessDaySettings, getBusinessDayRange } from '@/lib/businessDay';
+
+export const ORDER_HISTORY_PAGE_SIZE = 25;
+
+export type OrderSource = 'qr_code' | 'staff' | 'phone' | 'online' | 'pickup';
+
+export interface OrderHistoryOrder extends Order {
+  order_source: OrderSource | null;
+}
+
+export interface OrderHistoryFilters {
+  from: string; // business date yyyy-mm-dd, inclusive
+  to: string; // business date yyyy-mm-dd, inclusive
+  status?: Order['status'];
+  tableNumber?: string;
+  orderSource?: OrderSource;
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+}
+
+// Applies the archive filters to an orders query. Shared by the paged view
+// and the CSV export so both always see the same set of orders.
+type OrderHistoryRestaurant = BusinessDaySettings & { id: string };
+
+const buildOrderHistoryQuery = (restaurant: OrderHistoryRestaurant, filters: OrderHistoryFilters, withCount: boolean) => {
+  const { from, to } = getBusinessDayRange(restaurant, filters.from, filters.to);
+
+  let query = supabase
+    .from('orders')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .eq('restaurant_id', restaurant.id)
+    .gte('created_at', from.toISOString())
+    .lt('created_at', to.toISOString());
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.tableNumber) query = query.eq('table_number', filters.tableNumber);
+  if (filters.orderSource) query = query.eq('order_source', filters.orderSource);
+  if (filters.minAmount !== undefined) query = query.gte('total_amount', filters.minAmount);
+  if (filters.maxAmount !== undefined) query = query.lte('total_amount', filters.maxAmount);
+  if (filters.search?.trim()) {
+    query = query.textSearch('search_vector', filters.search.trim(), { type: 'websearch', config: 'simple' });
+  }
+
+  return query.order('created_at', { ascending: false });
+};
+
+export const useOrderHistory = (restaurant: OrderHistoryRestaurant | undefined, filters: OrderHistoryFilters, page: number) => {
+  return useQuery({
+    queryKey: ['order-history', restaurant?.id, restaurant?.timezone, restaurant?.business_day_start_hour, filters, page],
+    queryFn: async () => {
+      if (!restaurant) return { orders: [], total: 0 };
+
+      const start = page * ORDER_HISTORY_PAGE_SIZE;
+      const { data, error, count } = await buildOrderHistoryQuery(restaurant, filters, true)
+        .range(start, start + ORDER_HISTORY_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { orders: data as OrderHistoryOrder[], total: count || 0 };
+    },
+    enabled: !!restaurant,
+    placeholderData: keepPreviousData
+  });
+};
+
+const EXPORT_BATCH_SIZE = 1000;
+
+// PostgREST caps a single response, so the export walks the filtered set in batches
+export const fetchAllOrderHistory = async (restaurant: OrderHistoryRestaurant, filters: OrderHistoryFilters) => {
+  const orders: OrderHistoryOrder[] = [];
+
+  for (let start = 0; ; start += EXPORT_BATCH_SIZE) {
+    const { data, error } = await buildOrderHistoryQuery(restaurant, filters, false)
+      .range(start, start + EXPORT_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    orders.push(...(data as OrderHistoryOrder[]));
+    if (data.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  return orders;
+};
@@ -1,7 +1,9 @@
 
+import { useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
+import { BusinessDaySettings, getBusinessDate, getBusinessDayRange } from '@/lib/businessDay';
 
 export interface Order {
   id: string;
@@ -9,37 +11,187 @@ export interface Order {
   table_id: string | null;
   table_number: string | null;
   customer_name: string | null;
+  customer_phone: string | null;
   status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'served' | 'cancelled';
   total_amount: number;
   notes: string | null;
+  session_id: string | null;
+  tab_id: string | null;
+  estimated_ready_at: string | null;
+  cancellation_reason: string | null;
+  cancellation_reason_id: string | null;
+  confirmed_at: string | null;
+  preparing_at: string | null;
+  ready_at: string | null;
+  served_at: string | null;
+  cancelled_at: string | null;
+  preparation_time: number | null;
+  pickup_code: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export const useTodaysOrders = (restaurantId: string | undefined) => {
+export interface OrderItemNote {
+  quantity: number;
+  variant_name: string | null;
+  special_instructions: string | null;
+  voided_at: string | null;
+  menu_items: { name: string } | null;
+}
+
+// Today's orders carry their lines so cards can flag special instructions
+export interface TodaysOrder extends Order {
+  order_items?: OrderItemNote[];
+}
+
+interface TodaysOrdersOptions {
+  // When a realtime subscription is keeping the cache fresh, polling is skipped
+  live?: boolean;
+}
+
+// "Today" is the restaurant's current business day in its own time zone
+export const useTodaysOrders = (
+  restaurant: (BusinessDaySettings & { id: string }) | undefined,
+  options: TodaysOrdersOptions = {}
+) => {
+  const restaurantId = restaurant?.id;
+  const today = getBusinessDate(restaurant);
+
   return useQuery({
-    queryKey: ['todays-orders', restaurantId],
+    queryKey: ['todays-orders', restaurantId, today],
     queryFn: async () => {
       if (!restaurantId) return [];
-      
-      const today = new Date().toISOString().split('T')[0];
-      
+
+      const { from, to } = getBusinessDayRange(restaurant, today, today);
+
       const { data, error } = await supabase
         .from('orders')
-        .select('*')
+        .select(`
+          *,
+          order_items ( quantity, variant_name, special_instructions, voided_at, menu_items ( name ) )
+        `)
         .eq('restaurant_id', restaurantId)
-        .gte('created_at', `${today}T00:00:00`)
-        .lte('created_at', `${today}T23:59:59`)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
         .order('created_at', { ascending: false });
 
+      if (error) throw error;
+      return data as unknown as TodaysOrder[];
+    },
+    enabled: !!restaurantId,
+    refetchInterval: options.live ? false : 30000 // Poll every 30 seconds unless realtime is connected
+  });
+};
+
+// Pickup orders still to be handed over, oldest first, for the counter display
+export const usePickupOrders = (restaurantId: string | undefined, options: TodaysOrdersOptions = {}) => {
+  return useQuery({
+    queryKey: ['pickup-orders', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('order_source', 'pickup')
+        .in('status', ['pending', 'confirmed', 'preparing', 'ready'])
+        .order('created_at', { ascending: true });
+
       if (error) throw error;
       return data as Order[];
     },
     enabled: !!restaurantId,
-    refetchInterval: 30000 // Refetch every 30 seconds
+    refetchInterval: options.live ? false : 15000
   });
 };
 
+interface OrdersRealtimeOptions {
+  onOrderCreated?: (order: Order) => void;
+}
+
+export const useOrdersRealtime = (restaurantId: string | undefined, options: OrdersRealtimeOptions = {}) => {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+  const onOrderCreatedRef = useRef(options.onOrderCreated);
+  onOrderCreatedRef.current = options.onOrderCreated;
+
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    const queryKey = ['todays-orders', restaurantId];
+    const kitchenQueryKey = ['kitchen-orders', restaurantId];
+    const pickupQueryKey = ['pickup-orders', restaurantId];
+    let hasConnected = false;
+
+    const channel = supabase
+      .channel(`orders-${restaurantId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'orders', filter: `restaurant_id=eq.${restaurantId}` },
+        (payload) => {
+          const order = payload.new as Order;
+          queryClient.setQueriesData<TodaysOrder[]>({ queryKey }, (current) => {
+            if (!current) return current;
+            if (current.some(existing => existing.id === order.id)) return current;
+            return [order, ...current];
+          });
+          queryClient.invalidateQueries({ queryKey: kitchenQueryKey });
+          queryClient.invalidateQueries({ queryKey: pickupQueryKey });
+          onOrderCreatedRef.current?.(order);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'orders', filter: `restaurant_id=eq.${restaurantId}` },
+        (payload) => {
+          const order = payload.new as Order;
+          queryClient.setQueriesData<TodaysOrder[]>({ queryKey }, (current) =>
+            current?.map(existing => existing.id === order.id ? { ...existing, ...order } : existing)
+          );
+          queryClient.invalidateQueries({ queryKey: kitchenQueryKey });
+          queryClient.invalidateQueries({ queryKey: pickupQueryKey });
+          queryClient.invalidateQueries({ queryKey: ['order-status-events', order.id] });
+        }
+      )
+      .on(
+        'postgres_changes',
+        // order_items has no restaurant_id to filter on; RLS limits events to our own orders
+        { event: '*', schema: 'public', table: 'order_items' },
+        (payload) => {
+          const item = (payload.new || payload.old) as { order_id?: string };
+          if (item?.order_id) {
+            queryClient.invalidateQueries({ queryKey: ['order-items', item.order_id] });
+            queryClient.invalidateQueries({ queryKey });
+            queryClient.invalidateQueries({ queryKey: kitchenQueryKey });
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          // Catch up on anything that changed while the channel was down
+          if (hasConnected) {
+            queryClient.invalidateQueries({ queryKey });
+            queryClient.invalidateQueries({ queryKey: kitchenQueryKey });
+            queryClient.invalidateQueries({ queryKey: pickupQueryKey });
+          }
+          hasConnected = true;
+          setIsLive(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          console.warn('Orders realtime channel dropped, falling back to polling:', status);
+          setIsLive(false);
+        }
+      });
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [restaurantId, queryClient]);
+
+  return { isLive };
+};
+
 export const useUpdateOrderStatus = () => {
   const queryClient = useQueryClient();
 
@@ -55,8 +207,9 @@ export const useUpdateOrderStatus = () => {
       if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['todays-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order-status-events', variables.orderId] });
       toast({
         title: "Success!",
         description: "Order status updated successfully!",
@@ -71,3 +224,176 @@ export const useUpdateOrderStatus = () => {
     }
   });
 };
+
+export const useRejectOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, reasonId, reasonText }: { orderId: string; reasonId?: string; reasonText?: string }) => {
+      // Records the reason on the order and notifies the customer in one call
+      const { data, error } = await supabase.rpc('reject_order', {
+        p_order_id: orderId,
+        p_reason_id: reasonId,
+        p_reason_text: reasonText
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['todays-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order-status-events', variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ['cancellation-report'] });
+      toast({
+        title: "Order Rejected",
+        description: "The customer has been told why their order was rejected.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reject order",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export interface StaffOrderLine {
+  menu_item_id: string;
+  variant_id?: string;
+  quantity: number;
+  special_instructions?: string;
+  modifier_ids?: string[];
+  seat_number?: number;
+}
+
+export interface StaffOrderData {
+  restaurantId: string;
+  orderSource: 'staff' | 'phone';
+  items: StaffOrderLine[];
+  tableNumber?: string;
+  customerName?: string;
+  customerPhone?: string;
+  notes?: string;
+}
+
+export const usePlaceStaffOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderData: StaffOrderData) => {
+      // Prices, modifiers and the assigned staff member are resolved server-side
+      const { data, error } = await supabase.rpc('place_staff_order', {
+        p_restaurant_id: orderData.restaurantId,
+        p_order_source: orderData.orderSource,
+        p_items: orderData.items.map(item => ({
+          menu_item_id: item.menu_item_id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+          special_instructions: item.special_instructions,
+          modifier_ids: item.modifier_ids,
+          seat_number: item.seat_number
+        })),
+        p_table_number: orderData.tableNumber,
+        p_customer_name: orderData.customerName,
+        p_customer_phone: orderData.customerPhone,
+        p_notes: orderData.notes
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['todays-orders', variables.restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['table-tabs', variables.restaurantId] });
+      toast({
+        title: "Order Placed",
+        description: "The order has been sent to the kitchen.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to place order",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useAddOrderItems = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, items }: { orderId: string; items: StaffOrderLine[] }) => {
+      const { data, error } = await supabase.rpc('add_order_items', {
+        p_order_id: orderId,
+        p_items: items.map(item => ({
+          menu_item_id: item.menu_item_id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+          special_instructions: item.special_instructions,
+          modifier_ids: item.modifier_ids,
+          seat_number: item.seat_number
+        }))
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['todays-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order-items', variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['table-tabs'] });
+      toast({
+        title: "Success!",
+        description: "Items added to the order!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add items",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useVoidOrderItem = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderItemId, reason }: { orderId: string; orderItemId: string; reason: string }) => {
+      // The void is written to the audit log and the total recalculated server-side
+      const { data, error } = await supabase.rpc('void_order_item', {
+        p_order_item_id: orderItemId,
+        p_reason: reason
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (order, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['todays-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order-items', variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ['kitchen-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['item-voids'] });
+      toast({
+        title: "Item Voided",
+        description: order?.status === 'cancelled'
+          ? "No items were left, so the order was cancelled."
+          : "The item was removed from the order total.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to void item",
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Tender, getPaymentProvider } from '@/lib/paymentProviders';
+
+export interface Payment {
+  id: string;
+  bill_id: string;
+  share_id: string | null;
+  tender: Tender;
+  amount: number;
+  tendered_amount: number | null;
+  change_due: number;
+  provider: string;
+  provider_reference: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+export const useBillPayments = (billId: string | undefined) => {
+  return useQuery({
+    queryKey: ['bill-payments', billId],
+    queryFn: async () => {
+      if (!billId) return [];
+
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('bill_id', billId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Payment[];
+    },
+    enabled: !!billId
+  });
+};
+
+interface TakePaymentData {
+  billId: string;
+  billNumber: number;
+  tabId: string;
+  restaurantId: string;
+  shareId?: string;
+  tender: Tender;
+  amount: number;
+  tenderedAmount?: number;
+  reference?: string;
+}
+
+export const useTakePayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payment: TakePaymentData) => {
+      const provider = getPaymentProvider(payment.tender);
+      const result = await provider.charge({
+        billId: payment.billId,
+        billNumber: payment.billNumber,
+        amount: payment.amount,
+        tender: payment.tender,
+        reference: payment.reference
+      });
+
+      if (result.status !== 'succeeded') {
+        throw new Error(result.message || 'Payment was not completed');
+      }
+
+      // The provider has taken the money; record it against the bill
+      const { data, error } = await supabase.rpc('record_payment', {
+        p_bill_id: payment.billId,
+        p_tender: payment.tender,
+        p_amount: payment.amount,
+        p_provider: provider.id,
+        p_share_id: payment.shareId,
+        p_tendered_amount: payment.tenderedAmount,
+        p_provider_reference: result.reference
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (bill, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['bill-payments', variables.billId] });
+      queryClient.invalidateQueries({ queryKey: ['tab-bill', variables.tabId] });
+      queryClient.invalidateQueries({ queryKey: ['table-tabs', variables.restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['bills', variables.restaurantId] });
+
+      const change = variables.tenderedAmount ? variables.tenderedAmount - variables.amount : 0;
+      toast({
+        title: "Payment Recorded",
+        description: bill?.status === 'paid'
+          ? `Bill #${bill.bill_number} is fully paid.${change > 0 ? ` Change due: $${change.toFixed(2)}` : ''}`
+          : `$${variables.amount.toFixed(2)} taken.${change > 0 ? ` Change due: $${change.toFixed(2)}` : ''}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Payment Failed",
+        description: error.message || "Failed to take payment",
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,349 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Order } from '@/hooks/useOrders';
+import { OrderDetailItem } from '@/hooks/useOrderDetail';
+import { Bill } from '@/hooks/useBills';
+import { DEFAULT_STATION } from '@/hooks/useKitchen';
+import { billToReceipt } from '@/lib/receipt';
+import {
+  PaperWidth,
+  PrintLine,
+  buildKitchenTicketLines,
+  buildReceiptLines,
+  encodeEscPos,
+  renderPlainText,
+  toBase64
+} from '@/lib/escpos';
+
+export interface Printer {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  printer_type: 'kitchen' | 'receipt';
+  // Kitchen printers with no station print every item
+  station: string | null;
+  paper_width: PaperWidth;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PrintJob {
+  id: string;
+  restaurant_id: string;
+  printer_id: string | null;
+  printer_name: string;
+  station: string | null;
+  job_type: 'kitchen_ticket' | 'receipt';
+  order_id: string | null;
+  bill_id: string | null;
+  content: string;
+  payload: string;
+  status: 'queued' | 'printed' | 'failed';
+  error: string | null;
+  created_by: string | null;
+  created_at: string;
+  printed_at: string | null;
+}
+
+const PRINT_JOB_LIMIT = 100;
+
+const toJob = (printer: Printer, lines: PrintLine[]) => ({
+  restaurant_id: printer.restaurant_id,
+  printer_id: printer.id,
+  printer_name: printer.name,
+  station: printer.station,
+  content: renderPlainText(lines, printer.paper_width),
+  payload: toBase64(encodeEscPos(lines, printer.paper_width))
+});
+
+const fetchActivePrinters = async (restaurantId: string, printerType: Printer['printer_type']) => {
+  const { data, error } = await supabase
+    .from('printers')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .eq('printer_type', printerType)
+    .eq('is_active', true)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data as Printer[];
+};
+
+export const usePrinters = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['printers', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('printers')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as Printer[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCreatePrinter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (printer: Pick<Printer, 'restaurant_id' | 'name' | 'printer_type' | 'station' | 'paper_width'>) => {
+      const { data, error } = await supabase
+        .from('printers')
+        .insert(printer)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['printers', variables.restaurant_id] });
+      toast({
+        title: "Success!",
+        description: "Printer added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add printer",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useUpdatePrinter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<Printer> & { id: string }) => {
+      const { error } = await supabase
+        .from('printers')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['printers'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update printer",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useDeletePrinter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (printerId: string) => {
+      // Past jobs keep the printer's name, so the queue history survives the delete
+      const { error } = await supabase
+        .from('printers')
+        .delete()
+        .eq('id', printerId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['printers'] });
+      toast({
+        title: "Success!",
+        description: "Printer removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove printer",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const usePrintJobs = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['print-jobs', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('print_jobs')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .order('created_at', { ascending: false })
+        .limit(PRINT_JOB_LIMIT);
+
+      if (error) throw error;
+      return data as PrintJob[];
+    },
+    enabled: !!restaurantId,
+    refetchInterval: 15000
+  });
+};
+
+// One ticket per active kitchen printer, carrying only the items for its station
+export const useQueueKitchenTickets = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ order, items }: { order: Order; items: OrderDetailItem[] }) => {
+      const printers = await fetchActivePrinters(order.restaurant_id, 'kitchen');
+      if (printers.length === 0) {
+        throw new Error('Add a kitchen printer in Settings before sending tickets.');
+      }
+
+      const liveItems = items.filter((item) => !item.voided_at);
+      const jobs = printers.flatMap((printer) => {
+        const stationItems = printer.station
+          ? liveItems.filter((item) => (item.menu_items?.station || DEFAULT_STATION) === printer.station)
+          : liveItems;
+        if (stationItems.length === 0) return [];
+
+        return [{
+          ...toJob(printer, buildKitchenTicketLines(order, stationItems, printer.paper_width, printer.station)),
+          job_type: 'kitchen_ticket',
+          order_id: order.id
+        }];
+      });
+
+      if (jobs.length === 0) {
+        throw new Error('None of the kitchen printers cover the stations on this order.');
+      }
+
+      const { error } = await supabase.from('print_jobs').insert(jobs);
+      if (error) throw error;
+      return jobs.length;
+    },
+    onSuccess: (count, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['print-jobs', variables.order.restaurant_id] });
+      toast({
+        title: "Success!",
+        description: `Sent ${count} ticket${count === 1 ? '' : 's'} to the kitchen printers!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send kitchen tickets",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useQueueReceipt = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ bill, restaurantName }: { bill: Bill; restaurantName?: string }) => {
+      const [printer] = await fetchActivePrinters(bill.restaurant_id, 'receipt');
+      if (!printer) {
+        throw new Error('Add a receipt printer in Settings before queueing receipts.');
+      }
+
+      const { error } = await supabase.from('print_jobs').insert({
+        ...toJob(printer, buildReceiptLines(billToReceipt(bill), printer.paper_width, restaurantName)),
+        job_type: 'receipt',
+        bill_id: bill.id
+      });
+
+      if (error) throw error;
+      return printer.name;
+    },
+    onSuccess: (printerName, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['print-jobs', variables.bill.restaurant_id] });
+      toast({
+        title: "Success!",
+        description: `Receipt sent to ${printerName}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to queue receipt",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useUpdatePrintJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status, error: jobError }: { id: string; status: PrintJob['status']; error?: string }) => {
+      const { error } = await supabase
+        .from('print_jobs')
+        .update({
+          status,
+          error: status === 'failed' ? jobError || null : null,
+          printed_at: status === 'printed' ? new Date().toISOString() : null
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['print-jobs'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update print job",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// Reprints go in as a new job so the history shows every copy that came out
+export const useReprintJob = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (job: PrintJob) => {
+      const { error } = await supabase.from('print_jobs').insert({
+        restaurant_id: job.restaurant_id,
+        printer_id: job.printer_id,
+        printer_name: job.printer_name,
+        station: job.station,
+        job_type: job.job_type,
+        order_id: job.order_id,
+        bill_id: job.bill_id,
+        content: job.content,
+        payload: job.payload
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['print-jobs'] });
+      toast({
+        title: "Success!",
+        description: "Reprint queued!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to queue reprint",
+        variant: "destructive"
+      });
+    }
+  });
+};
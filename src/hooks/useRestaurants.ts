@@ -12,10 +12,39 @@ export interface Restaurant {
   phone: string | null;
   logo_url: string | null;
   is_active: boolean;
+  tax_inclusive: boolean;
+  service_charge_rate: number | null;
+  upi_vpa: string | null;
+  upi_payee_name: string | null;
+  timezone: string;
+  business_day_start_hour: number;
+  qr_ordering_paused: boolean;
+  max_open_orders: number | null;
+  busy_mode: boolean;
+  busy_extra_minutes: number;
+  pickup_enabled: boolean;
+  instructions_max_length: number;
+  blocked_words: string[];
   created_at: string;
   updated_at: string;
 }
 
+export type RestaurantBillingSettings = Pick<
+  Restaurant,
+  'tax_inclusive' | 'service_charge_rate' | 'upi_vpa' | 'upi_payee_name'
+>;
+
+export type RestaurantOrderingSettings = Pick<
+  Restaurant,
+  | 'qr_ordering_paused'
+  | 'max_open_orders'
+  | 'busy_mode'
+  | 'busy_extra_minutes'
+  | 'pickup_enabled'
+  | 'instructions_max_length'
+  | 'blocked_words'
+>;
+
 export interface CreateRestaurantData {
   name: string;
   description?: string;
@@ -77,3 +106,68 @@ export const useCreateRestaurant = () => {
     }
   });
 };
+
+export const useUpdateRestaurantBilling = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...settings }: Partial<RestaurantBillingSettings> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('restaurants')
+        .update(settings)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['restaurants'] });
+      toast({
+        title: "Success!",
+        description: "Billing settings updated successfully!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update billing settings",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useUpdateOrderingSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...settings }: Partial<RestaurantOrderingSettings> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('restaurants')
+        .update(settings)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['restaurants'] });
+      queryClient.invalidateQueries({ queryKey: ['ordering-status'] });
+      toast({
+        title: "Success!",
+        description: "Ordering settings updated successfully!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update ordering settings",
+        variant: "destructive"
+      });
+    }
+  });
+};
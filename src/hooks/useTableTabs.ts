@@ -0,0 +1,171 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { Order } from '@/hooks/useOrders';
+import { Tender } from '@/lib/paymentProviders';
+
+export type SplitMode = 'even' | 'item' | 'seat';
+
+export interface TabShare {
+  id: string;
+  tab_id: string;
+  label: string;
+  amount: number;
+  status: 'open' | 'settled';
+  payment_method: Tender | null;
+  settled_at: string | null;
+  settled_by: string | null;
+  created_at: string;
+  tab_share_items: { order_item_id: string; amount: number }[];
+}
+
+export interface TableTab {
+  id: string;
+  restaurant_id: string;
+  table_id: string | null;
+  table_number: string | null;
+  session_id: string | null;
+  status: 'open' | 'closed';
+  split_mode: SplitMode | null;
+  guest_count: number | null;
+  bill_requested_at: string | null;
+  created_at: string;
+  closed_at: string | null;
+  orders: Pick<Order, 'id' | 'status' | 'total_amount' | 'customer_name' | 'pickup_code' | 'created_at'>[];
+  tab_shares: TabShare[];
+  bills: { id: string; bill_number: number; subtotal: number; total_amount: number; amount_paid: number } | null;
+}
+
+export interface TabItem {
+  id: string;
+  order_id: string;
+  quantity: number;
+  variant_name: string | null;
+  total_price: number;
+  seat_number: number | null;
+  menu_items: { name: string } | null;
+}
+
+// Once a bill is issued its total (with discount, service charge and tax) is
+// what is owed. Cancelled orders stay linked to the tab but are never billed.
+export const getTabTotal = (tab: TableTab) =>
+  tab.bills
+    ? Number(tab.bills.total_amount)
+    : tab.orders
+      .filter(order => order.status !== 'cancelled')
+      .reduce((sum, order) => sum + Number(order.total_amount || 0), 0);
+
+// Pickup and phone orders have a tab of their own without a table
+export const getTabLabel = (tab: TableTab) => {
+  if (tab.table_number) return `Table ${tab.table_number}`;
+  const order = tab.orders[0];
+  if (order?.pickup_code) return `Pickup ${order.pickup_code}`;
+  return order?.customer_name ? `Counter · ${order.customer_name}` : 'Counter order';
+};
+
+export const useOpenTabs = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['table-tabs', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('table_tabs')
+        .select(`
+          *,
+          orders ( id, status, total_amount, customer_name, pickup_code, created_at ),
+          tab_shares ( *, tab_share_items ( order_item_id, amount ) ),
+          bills ( id, bill_number, subtotal, total_amount, amount_paid )
+        `)
+        .eq('restaurant_id', restaurantId)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as unknown as TableTab[]).map(tab => ({
+        ...tab,
+        tab_shares: [...tab.tab_shares].sort((a, b) =>
+          a.created_at.localeCompare(b.created_at) || a.label.localeCompare(b.label, undefined, { numeric: true })
+        )
+      }));
+    },
+    enabled: !!restaurantId,
+    // Picks up new orders and bill requests from diners
+    refetchInterval: 15000
+  });
+};
+
+export const useTabItems = (tabId: string | undefined) => {
+  return useQuery({
+    queryKey: ['tab-items', tabId],
+    queryFn: async () => {
+      if (!tabId) return [];
+
+      const { data, error } = await supabase
+        .from('order_items')
+        .select(`
+          id,
+          order_id,
+          quantity,
+          variant_name,
+          total_price,
+          seat_number,
+          menu_items ( name ),
+          orders!inner ( tab_id, status )
+        `)
+        .eq('orders.tab_id', tabId)
+        .neq('orders.status', 'cancelled')
+        .is('voided_at', null);
+
+      if (error) throw error;
+      return data as unknown as TabItem[];
+    },
+    enabled: !!tabId,
+    refetchInterval: 15000
+  });
+};
+
+interface SplitTabData {
+  tabId: string;
+  restaurantId: string;
+  mode: SplitMode;
+  guestCount?: number;
+  assignments?: { order_item_id: string; shares: number[] }[];
+}
+
+export const useSplitTab = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tabId, mode, guestCount, assignments }: SplitTabData) => {
+      // Share amounts are calculated server-side from the current tab
+      const { data, error } = await supabase.rpc('split_tab', {
+        p_tab_id: tabId,
+        p_mode: mode,
+        p_guest_count: guestCount,
+        p_assignments: assignments?.map(assignment => ({
+          order_item_id: assignment.order_item_id,
+          shares: assignment.shares
+        }))
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['table-tabs', variables.restaurantId] });
+      toast({
+        title: "Success!",
+        description: "Bill split successfully!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to split bill",
+        variant: "destructive"
+      });
+    }
+  });
+};
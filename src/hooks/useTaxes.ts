@@ -0,0 +1,202 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/components/ui/use-toast';
+import { TaxConfig } from '@/lib/tax';
+
+export interface RestaurantTaxRate {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  rate: number;
+  sort_order: number | null;
+  is_active: boolean | null;
+  created_at: string | null;
+}
+
+export interface CategoryTaxRate {
+  category_id: string;
+  tax_rate_id: string;
+}
+
+export interface TaxSummaryRow {
+  label: string;
+  rate: number;
+  bill_count: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export const useTaxRates = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['tax-rates', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as RestaurantTaxRate[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+export const useCategoryTaxRates = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['category-tax-rates', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase
+        .from('category_tax_rates')
+        .select('category_id, tax_rate_id, menu_categories!inner(restaurant_id)')
+        .eq('menu_categories.restaurant_id', restaurantId);
+
+      if (error) throw error;
+      return (data || []).map(({ category_id, tax_rate_id }) => ({ category_id, tax_rate_id })) as CategoryTaxRate[];
+    },
+    enabled: !!restaurantId
+  });
+};
+
+// Public settings the customer's cart uses to show tax before the order is placed
+export const useTaxConfig = (restaurantId: string | undefined) => {
+  return useQuery({
+    queryKey: ['tax-config', restaurantId],
+    queryFn: async () => {
+      if (!restaurantId) return null;
+
+      const { data, error } = await supabase.rpc('get_tax_config', {
+        p_restaurant_id: restaurantId
+      });
+
+      if (error) throw error;
+      return data as unknown as TaxConfig | null;
+    },
+    enabled: !!restaurantId,
+    staleTime: 5 * 60 * 1000
+  });
+};
+
+export const useCreateTaxRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restaurantId, name, rate }: { restaurantId: string; name: string; rate: number }) => {
+      const { data, error } = await supabase
+        .from('tax_rates')
+        .insert({ restaurant_id: restaurantId, name, rate })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as RestaurantTaxRate;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates', variables.restaurantId] });
+      toast({
+        title: "Success!",
+        description: "Tax rate added!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add tax rate",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useRemoveTaxRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (taxRateId: string) => {
+      // Issued bills keep their own copy of the rate, so retiring it leaves them unchanged
+      const { error } = await supabase
+        .from('tax_rates')
+        .update({ is_active: false })
+        .eq('id', taxRateId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['category-tax-rates'] });
+      toast({
+        title: "Success!",
+        description: "Tax rate removed!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove tax rate",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useSetCategoryTaxRates = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      categoryId,
+      override,
+      taxRateIds
+    }: {
+      restaurantId: string;
+      categoryId: string;
+      override: boolean;
+      taxRateIds: string[];
+    }) => {
+      const { error } = await supabase.rpc('set_category_tax_rates', {
+        p_category_id: categoryId,
+        p_override: override,
+        p_tax_rate_ids: taxRateIds
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['menu-categories', variables.restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['category-tax-rates', variables.restaurantId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update category tax",
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+export const useTaxSummary = (restaurantId: string | undefined, from: Date, to: Date) => {
+  return useQuery({
+    queryKey: ['tax-summary', restaurantId, from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      if (!restaurantId) return [];
+
+      const { data, error } = await supabase.rpc('get_tax_summary', {
+        p_restaurant_id: restaurantId,
+        p_from: from.toISOString(),
+        p_to: to.toISOString()
+      });
+
+      if (error) throw error;
+      return data as TaxSummaryRow[];
+    },
+    enabled: !!restaurantId
+  });
+};
@@ -9,319 +9,2069 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      menu_categories: {
-        Row: {
-          created_at: string | null
-          description: string | null
-          id: string
-          is_active: boolean | null
-          name: string
-          restaurant_id: string
-          sort_order: number | null
-        }
-        Insert: {
-          created_at?: string | null
-          description?: string | null
-          id?: string
-          is_active?: boolean | null
-          name: string
-          restaurant_id: string
-          sort_order?: number | null
-        }
-        Update: {
-          created_at?: string | null
-          description?: string | null
-          id?: string
-          is_active?: boolean | null
-          name?: string
-          restaurant_id?: string
-          sort_order?: number | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "menu_categories_restaurant_id_fkey"
-            columns: ["restaurant_id"]
-            isOneToOne: false
-            referencedRelation: "restaurants"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
-      menu_items: {
+      bill_lines: {
         Row: {
-          category_id: string | null
-          created_at: string | null
-          description: string | null
+          bill_id: string
           id: string
-          image_url: string | null
-          is_available: boolean | null
           name: string
-          price: number
-          restaurant_id: string
-          sort_order: number | null
-          updated_at: string | null
+          order_item_id: string | null
+          position: number
+          quantity: number
+          total_price: number
+          unit_price: number
         }
         Insert: {
-          category_id?: string | null
-          created_at?: string | null
-          description?: string | null
+          bill_id: string
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
           name: string
-          price: number
-          restaurant_id: string
-          sort_order?: number | null
-          updated_at?: string | null
+          order_item_id?: string | null
+          position: number
+          quantity: number
+          total_price: number
+          unit_price: number
         }
         Update: {
-          category_id?: string | null
-          created_at?: string | null
-          description?: string | null
+          bill_id?: string
           id?: string
-          image_url?: string | null
-          is_available?: boolean | null
           name?: string
-          price?: number
-          restaurant_id?: string
-          sort_order?: number | null
-          updated_at?: string | null
+          order_item_id?: string | null
+          position?: number
+          quantity?: number
+          total_price?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "menu_items_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "bill_lines_bill_id_fkey"
+            columns: ["bill_id"]
             isOneToOne: false
-            referencedRelation: "menu_categories"
+            referencedRelation: "bills"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "menu_items_restaurant_id_fkey"
-            columns: ["restaurant_id"]
+            foreignKeyName: "bill_lines_order_item_id_fkey"
+            columns: ["order_item_id"]
             isOneToOne: false
-            referencedRelation: "restaurants"
+            referencedRelation: "order_items"
             referencedColumns: ["id"]
           },
         ]
       }
-      order_items: {
+      bill_tax_lines: {
         Row: {
+          amount: number
+          bill_id: string
           id: string
-          menu_item_id: string
-          order_id: string
-          quantity: number
-          special_instructions: string | null
-          total_price: number
-          unit_price: number
+          label: string
+          rate: number
+          taxable_amount: number
         }
         Insert: {
+          amount: number
+          bill_id: string
           id?: string
-          menu_item_id: string
-          order_id: string
-          quantity?: number
-          special_instructions?: string | null
-          total_price: number
-          unit_price: number
+          label: string
+          rate: number
+          taxable_amount: number
         }
         Update: {
+          amount?: number
+          bill_id?: string
           id?: string
-          menu_item_id?: string
-          order_id?: string
-          quantity?: number
-          special_instructions?: string | null
-          total_price?: number
-          unit_price?: number
+          label?: string
+          rate?: number
+          taxable_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_menu_item_id_fkey"
-            columns: ["menu_item_id"]
-            isOneToOne: false
-            referencedRelation: "menu_items"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "bill_tax_lines_bill_id_fkey"
+            columns: ["bill_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "bills"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      bills: {
         Row: {
+          amount_paid: number
+          bill_number: number
           created_at: string | null
-          customer_name: string | null
+          discount_amount: number
+          discount_reason: string | null
           id: string
-          notes: string | null
+          issued_by: string | null
+          paid_at: string | null
           restaurant_id: string
+          service_charge_amount: number
+          service_charge_rate: number
           status: string | null
-          table_id: string | null
+          subtotal: number
+          tab_id: string
           table_number: string | null
-          total_amount: number | null
+          tax_amount: number
+          tax_inclusive: boolean
+          total_amount: number
           updated_at: string | null
         }
         Insert: {
+          amount_paid?: number
+          bill_number: number
           created_at?: string | null
-          customer_name?: string | null
+          discount_amount?: number
+          discount_reason?: string | null
           id?: string
-          notes?: string | null
+          issued_by?: string | null
+          paid_at?: string | null
           restaurant_id: string
+          service_charge_amount?: number
+          service_charge_rate?: number
           status?: string | null
-          table_id?: string | null
+          subtotal?: number
+          tab_id: string
           table_number?: string | null
-          total_amount?: number | null
+          tax_amount?: number
+          tax_inclusive?: boolean
+          total_amount?: number
           updated_at?: string | null
         }
         Update: {
+          amount_paid?: number
+          bill_number?: number
           created_at?: string | null
-          customer_name?: string | null
+          discount_amount?: number
+          discount_reason?: string | null
           id?: string
-          notes?: string | null
+          issued_by?: string | null
+          paid_at?: string | null
           restaurant_id?: string
+          service_charge_amount?: number
+          service_charge_rate?: number
           status?: string | null
-          table_id?: string | null
+          subtotal?: number
+          tab_id?: string
           table_number?: string | null
-          total_amount?: number | null
+          tax_amount?: number
+          tax_inclusive?: boolean
+          total_amount?: number
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "orders_restaurant_id_fkey"
+            foreignKeyName: "bills_restaurant_id_fkey"
             columns: ["restaurant_id"]
             isOneToOne: false
             referencedRelation: "restaurants"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_table_id_fkey"
-            columns: ["table_id"]
-            isOneToOne: false
-            referencedRelation: "tables"
+            foreignKeyName: "bills_tab_id_fkey"
+            columns: ["tab_id"]
+            isOneToOne: true
+            referencedRelation: "table_tabs"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      cancellation_reasons: {
         Row: {
-          avatar_url: string | null
           created_at: string | null
-          email: string | null
-          full_name: string | null
-          has_restaurant: boolean | null
           id: string
-          phone: string | null
-          updated_at: string | null
-          username: string | null
+          is_active: boolean | null
+          label: string
+          restaurant_id: string
+          sort_order: number | null
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          has_restaurant?: boolean | null
-          id: string
-          phone?: string | null
-          updated_at?: string | null
-          username?: string | null
+          id?: string
+          is_active?: boolean | null
+          label: string
+          restaurant_id: string
+          sort_order?: number | null
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          has_restaurant?: boolean | null
           id?: string
-          phone?: string | null
-          updated_at?: string | null
-          username?: string | null
+          is_active?: boolean | null
+          label?: string
+          restaurant_id?: string
+          sort_order?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_reasons_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      restaurants: {
+      category_tax_rates: {
+        Row: {
+          category_id: string
+          tax_rate_id: string
+        }
+        Insert: {
+          category_id: string
+          tax_rate_id: string
+        }
+        Update: {
+          category_id?: string
+          tax_rate_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_tax_rates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_tax_rates_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_categories: {
         Row: {
-          address: string | null
           created_at: string | null
           description: string | null
           id: string
           is_active: boolean | null
-          logo_url: string | null
           name: string
-          owner_id: string
-          phone: string | null
-          updated_at: string | null
+          restaurant_id: string
+          sort_order: number | null
+          tax_override: boolean
         }
         Insert: {
-          address?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
-          logo_url?: string | null
           name: string
-          owner_id: string
-          phone?: string | null
-          updated_at?: string | null
+          restaurant_id: string
+          sort_order?: number | null
+          tax_override?: boolean
         }
         Update: {
-          address?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
           is_active?: boolean | null
-          logo_url?: string | null
           name?: string
-          owner_id?: string
-          phone?: string | null
-          updated_at?: string | null
+          restaurant_id?: string
+          sort_order?: number | null
+          tax_override?: boolean
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "menu_categories_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      tables: {
+      menu_item_modifier_groups: {
         Row: {
-          capacity: number | null
           created_at: string | null
+          group_id: string
           id: string
-          is_active: boolean | null
-          qr_code: string | null
-          restaurant_id: string
-          table_number: string
+          menu_item_id: string
         }
         Insert: {
-          capacity?: number | null
           created_at?: string | null
+          group_id: string
           id?: string
-          is_active?: boolean | null
-          qr_code?: string | null
-          restaurant_id: string
-          table_number: string
+          menu_item_id: string
         }
         Update: {
-          capacity?: number | null
           created_at?: string | null
+          group_id?: string
           id?: string
-          is_active?: boolean | null
-          qr_code?: string | null
-          restaurant_id?: string
-          table_number?: string
+          menu_item_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "tables_restaurant_id_fkey"
-            columns: ["restaurant_id"]
+            foreignKeyName: "menu_item_modifier_groups_group_id_fkey"
+            columns: ["group_id"]
             isOneToOne: false
-            referencedRelation: "restaurants"
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_modifier_groups_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      menu_item_modifiers: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_required: boolean | null
+          menu_item_id: string
+          modifier_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_required?: boolean | null
+          menu_item_id: string
+          modifier_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_required?: boolean | null
+          menu_item_id?: string
+          modifier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_modifiers_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_modifiers_modifier_id_fkey"
+            columns: ["modifier_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_variants: {
+        Row: {
+          cost_price: number | null
+          created_at: string | null
+          id: string
+          is_available: boolean
+          menu_item_id: string
+          name: string
+          price: number
+          restaurant_id: string
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          cost_price?: number | null
+          created_at?: string | null
+          id?: string
+          is_available?: boolean
+          menu_item_id: string
+          name: string
+          price: number
+          restaurant_id: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          cost_price?: number | null
+          created_at?: string | null
+          id?: string
+          is_available?: boolean
+          menu_item_id?: string
+          name?: string
+          price?: number
+          restaurant_id?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_variants_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_variants_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_items: {
+        Row: {
+          allergens: string[] | null
+          calories: number | null
+          category_id: string | null
+          cost_price: number | null
+          created_at: string | null
+          description: string | null
+          dietary_tags: string[] | null
+          estimated_prep_time: number | null
+          id: string
+          image_url: string | null
+          is_available: boolean | null
+          name: string
+          preparation_time: number | null
+          price: number
+          restaurant_id: string
+          sort_order: number | null
+          spice_level: number | null
+          station: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          allergens?: string[] | null
+          calories?: number | null
+          category_id?: string | null
+          cost_price?: number | null
+          created_at?: string | null
+          description?: string | null
+          dietary_tags?: string[] | null
+          estimated_prep_time?: number | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          name: string
+          preparation_time?: number | null
+          price: number
+          restaurant_id: string
+          sort_order?: number | null
+          spice_level?: number | null
+          station?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          allergens?: string[] | null
+          calories?: number | null
+          category_id?: string | null
+          cost_price?: number | null
+          created_at?: string | null
+          description?: string | null
+          dietary_tags?: string[] | null
+          estimated_prep_time?: number | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean | null
+          name?: string
+          preparation_time?: number | null
+          price?: number
+          restaurant_id?: string
+          sort_order?: number | null
+          spice_level?: number | null
+          station?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_items_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_modifiers: {
+        Row: {
+          applicable_categories: string[] | null
+          created_at: string | null
+          description: string | null
+          group_id: string | null
+          id: string
+          is_active: boolean | null
+          modifier_type: string | null
+          name: string
+          price_adjustment: number | null
+          restaurant_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          applicable_categories?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          group_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          modifier_type?: string | null
+          name: string
+          price_adjustment?: number | null
+          restaurant_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          applicable_categories?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          group_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          modifier_type?: string | null
+          name?: string
+          price_adjustment?: number | null
+          restaurant_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_modifiers_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_modifiers_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          applicable_categories: string[] | null
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          max_selections: number | null
+          min_selections: number
+          name: string
+          restaurant_id: string
+          selection_type: string
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          applicable_categories?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_selections?: number | null
+          min_selections?: number
+          name: string
+          restaurant_id: string
+          selection_type?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          applicable_categories?: string[] | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          max_selections?: number | null
+          min_selections?: number
+          name?: string
+          restaurant_id?: string
+          selection_type?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_modifiers: {
+        Row: {
+          created_at: string | null
+          id: string
+          modifier_id: string
+          order_item_id: string
+          price_adjustment: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          modifier_id: string
+          order_item_id: string
+          price_adjustment?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          modifier_id?: string
+          order_item_id?: string
+          price_adjustment?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_modifiers_modifier_id_fkey"
+            columns: ["modifier_id"]
+            isOneToOne: false
+            referencedRelation: "menu_modifiers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_modifiers_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_item_voids: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          item_name: string
+          order_id: string
+          order_item_id: string
+          quantity: number
+          reason: string
+          restaurant_id: string
+          voided_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          item_name: string
+          order_id: string
+          order_item_id: string
+          quantity: number
+          reason: string
+          restaurant_id: string
+          voided_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          item_name?: string
+          order_id?: string
+          order_item_id?: string
+          quantity?: number
+          reason?: string
+          restaurant_id?: string
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_item_voids_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_voids_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_item_voids_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          bumped_at: string | null
+          id: string
+          menu_item_id: string
+          order_id: string
+          quantity: number
+          seat_number: number | null
+          special_instructions: string | null
+          total_price: number
+          unit_cost: number | null
+          unit_price: number
+          variant_id: string | null
+          variant_name: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          bumped_at?: string | null
+          id?: string
+          menu_item_id: string
+          order_id: string
+          quantity?: number
+          seat_number?: number | null
+          special_instructions?: string | null
+          total_price: number
+          unit_cost?: number | null
+          unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          bumped_at?: string | null
+          id?: string
+          menu_item_id?: string
+          order_id?: string
+          quantity?: number
+          seat_number?: number | null
+          special_instructions?: string | null
+          total_price?: number
+          unit_cost?: number | null
+          unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "menu_item_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          from_status: string | null
+          id: string
+          order_id: string
+          restaurant_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: string | null
+          id?: string
+          order_id: string
+          restaurant_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          restaurant_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_events_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_staff_id?: string | null
+          cancellation_reason?: string | null
+          cancellation_reason_id?: string | null
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          customer_profile_id?: string | null
+          customer_rating?: number | null
+          estimated_queue_minutes?: number | null
+          estimated_ready_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          loyalty_points_earned?: number | null
+          loyalty_points_used?: number | null
+          notes?: string | null
+          order_source?: string | null
+          pickup_code?: string | null
+          preparation_time?: number | null
+          preparing_at?: string | null
+          ready_at?: string | null
+          restaurant_id: string
+          search_vector?: unknown | null
+          served_at?: string | null
+          served_by_staff_id?: string | null
+          session_id?: string | null
+          status?: string | null
+          tab_id?: string | null
+          table_id?: string | null
+          table_number?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_staff_id?: string | null
+          cancellation_reason?: string | null
+          cancellation_reason_id?: string | null
+          cancelled_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          customer_profile_id?: string | null
+          customer_rating?: number | null
+          estimated_queue_minutes?: number | null
+          estimated_ready_at?: string | null
+          id?: string
+          idempotency_key?: string | null
+          loyalty_points_earned?: number | null
+          loyalty_points_used?: number | null
+          notes?: string | null
+          order_source?: string | null
+          pickup_code?: string | null
+          preparation_time?: number | null
+          preparing_at?: string | null
+          ready_at?: string | null
+          restaurant_id?: string
+          search_vector?: unknown | null
+          served_at?: string | null
+          served_by_staff_id?: string | null
+          session_id?: string | null
+          status?: string | null
+          tab_id?: string | null
+          table_id?: string | null
+          table_number?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_cancellation_reason_id_fkey"
+            columns: ["cancellation_reason_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_tab_id_fkey"
+            columns: ["tab_id"]
+            isOneToOne: false
+            referencedRelation: "table_tabs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          bill_id: string
+          change_due: number
+          created_at: string | null
+          id: string
+          provider: string
+          provider_reference: string | null
+          recorded_by: string | null
+          restaurant_id: string
+          share_id: string | null
+          tender: string
+          tendered_amount: number | null
+        }
+        Insert: {
+          amount: number
+          bill_id: string
+          change_due?: number
+          created_at?: string | null
+          id?: string
+          provider: string
+          provider_reference?: string | null
+          recorded_by?: string | null
+          restaurant_id: string
+          share_id?: string | null
+          tender: string
+          tendered_amount?: number | null
+        }
+        Update: {
+          amount?: number
+          bill_id?: string
+          change_due?: number
+          created_at?: string | null
+          id?: string
+          provider?: string
+          provider_reference?: string | null
+          recorded_by?: string | null
+          restaurant_id?: string
+          share_id?: string | null
+          tender?: string
+          tendered_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "tab_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      print_jobs: {
+        Row: {
+          bill_id: string | null
+          content: string
+          created_at: string | null
+          created_by: string | null
+          error: string | null
+          id: string
+          job_type: string
+          order_id: string | null
+          payload: string
+          printed_at: string | null
+          printer_id: string | null
+          printer_name: string
+          restaurant_id: string
+          station: string | null
+          status: string
+        }
+        Insert: {
+          bill_id?: string | null
+          content: string
+          created_at?: string | null
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          job_type: string
+          order_id?: string | null
+          payload: string
+          printed_at?: string | null
+          printer_id?: string | null
+          printer_name: string
+          restaurant_id: string
+          station?: string | null
+          status?: string
+        }
+        Update: {
+          bill_id?: string | null
+          content?: string
+          created_at?: string | null
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          job_type?: string
+          order_id?: string | null
+          payload?: string
+          printed_at?: string | null
+          printer_id?: string | null
+          printer_name?: string
+          restaurant_id?: string
+          station?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "print_jobs_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "print_jobs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "print_jobs_printer_id_fkey"
+            columns: ["printer_id"]
+            isOneToOne: false
+            referencedRelation: "printers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "print_jobs_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      printers: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          paper_width: number
+          printer_type: string
+          restaurant_id: string
+          station: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          paper_width?: number
+          printer_type?: string
+          restaurant_id: string
+          station?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          paper_width?: number
+          printer_type?: string
+          restaurant_id?: string
+          station?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "printers_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          has_restaurant: boolean | null
+          id: string
+          phone: string | null
+          updated_at: string | null
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          has_restaurant?: boolean | null
+          id: string
+          phone?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          has_restaurant?: boolean | null
+          id?: string
+          phone?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      restaurants: {
+        Row: {
+          address: string | null
+          blocked_words: string[]
+          business_day_start_hour: number
+          busy_extra_minutes: number
+          busy_mode: boolean
+          created_at: string | null
+          description: string | null
+          id: string
+          instructions_max_length: number
+          is_active: boolean | null
+          last_bill_number: number
+          logo_url: string | null
+          max_open_orders: number | null
+          name: string
+          owner_id: string
+          phone: string | null
+          pickup_enabled: boolean
+          qr_ordering_paused: boolean
+          service_charge_rate: number | null
+          tax_inclusive: boolean
+          timezone: string
+          updated_at: string | null
+          upi_payee_name: string | null
+          upi_vpa: string | null
+        }
+        Insert: {
+          address?: string | null
+          blocked_words?: string[]
+          business_day_start_hour?: number
+          busy_extra_minutes?: number
+          busy_mode?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          instructions_max_length?: number
+          is_active?: boolean | null
+          last_bill_number?: number
+          logo_url?: string | null
+          max_open_orders?: number | null
+          name: string
+          owner_id: string
+          phone?: string | null
+          pickup_enabled?: boolean
+          qr_ordering_paused?: boolean
+          service_charge_rate?: number | null
+          tax_inclusive?: boolean
+          timezone?: string
+          updated_at?: string | null
+          upi_payee_name?: string | null
+          upi_vpa?: string | null
+        }
+        Update: {
+          address?: string | null
+          blocked_words?: string[]
+          business_day_start_hour?: number
+          busy_extra_minutes?: number
+          busy_mode?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          instructions_max_length?: number
+          is_active?: boolean | null
+          last_bill_number?: number
+          logo_url?: string | null
+          max_open_orders?: number | null
+          name?: string
+          owner_id?: string
+          phone?: string | null
+          pickup_enabled?: boolean
+          qr_ordering_paused?: boolean
+          service_charge_rate?: number | null
+          tax_inclusive?: boolean
+          timezone?: string
+          updated_at?: string | null
+          upi_payee_name?: string | null
+          upi_vpa?: string | null
+        }
+        Relationships: []
+      }
+      tab_share_items: {
+        Row: {
+          amount: number
+          id: string
+          order_item_id: string
+          share_id: string
+        }
+        Insert: {
+          amount: number
+          id?: string
+          order_item_id: string
+          share_id: string
+        }
+        Update: {
+          amount?: number
+          id?: string
+          order_item_id?: string
+          share_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tab_share_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tab_share_items_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "tab_shares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tab_shares: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          label: string
+          payment_method: string | null
+          settled_at: string | null
+          settled_by: string | null
+          status: string | null
+          tab_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          label: string
+          payment_method?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string | null
+          tab_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          label?: string
+          payment_method?: string | null
+          settled_at?: string | null
+          settled_by?: string | null
+          status?: string | null
+          tab_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tab_shares_tab_id_fkey"
+            columns: ["tab_id"]
+            isOneToOne: false
+            referencedRelation: "table_tabs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      table_tabs: {
+        Row: {
+          bill_requested_at: string | null
+          closed_at: string | null
+          created_at: string | null
+          guest_count: number | null
+          id: string
+          restaurant_id: string
+          session_id: string | null
+          split_mode: string | null
+          status: string | null
+          table_id: string | null
+          table_number: string | null
+        }
+        Insert: {
+          bill_requested_at?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          guest_count?: number | null
+          id?: string
+          restaurant_id: string
+          session_id?: string | null
+          split_mode?: string | null
+          status?: string | null
+          table_id?: string | null
+          table_number?: string | null
+        }
+        Update: {
+          bill_requested_at?: string | null
+          closed_at?: string | null
+          created_at?: string | null
+          guest_count?: number | null
+          id?: string
+          restaurant_id?: string
+          session_id?: string | null
+          split_mode?: string | null
+          status?: string | null
+          table_id?: string | null
+          table_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "table_tabs_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "table_tabs_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tables: {
+        Row: {
+          capacity: number | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          qr_code: string | null
+          restaurant_id: string
+          table_number: string
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          qr_code?: string | null
+          restaurant_id: string
+          table_number: string
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          qr_code?: string | null
+          restaurant_id?: string
+          table_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tables_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rates: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          rate: number
+          restaurant_id: string
+          sort_order: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          rate: number
+          restaurant_id: string
+          sort_order?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          rate?: number
+          restaurant_id?: string
+          sort_order?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      add_order_items: {
+        Args: { p_items: Json; p_order_id: string }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      bump_order_items: {
+        Args: {
+          p_order_item_ids: string[]
+        }
+        Returns: undefined
+      }
+      clean_order_note: {
+        Args: { p_note: string; p_restaurant_id: string }
+        Returns: string
+      }
+      count_open_orders: {
+        Args: { p_restaurant_id: string }
+        Returns: number
+      }
+      estimate_prep_minutes: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      find_order_by_idempotency_key: {
+        Args: { p_idempotency_key: string; p_restaurant_id: string }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      generate_bill: {
+        Args: {
+          p_discount_amount?: number
+          p_discount_reason?: string
+          p_tab_id: string
+        }
+        Returns: {
+          amount_paid: number
+          bill_number: number
+          created_at: string | null
+          discount_amount: number
+          discount_reason: string | null
+          id: string
+          issued_by: string | null
+          paid_at: string | null
+          restaurant_id: string
+          service_charge_amount: number
+          service_charge_rate: number
+          status: string | null
+          subtotal: number
+          tab_id: string
+          table_number: string | null
+          tax_amount: number
+          tax_inclusive: boolean
+          total_amount: number
+          updated_at: string | null
+        }
+      }
+      generate_pickup_code: {
+        Args: { p_restaurant_id: string }
+        Returns: string
+      }
+      get_business_date: {
+        Args: { p_at?: string; p_restaurant_id: string }
+        Returns: string
+      }
+      get_business_day_start: {
+        Args: { p_date: string; p_restaurant_id: string }
+        Returns: string
+      }
+      get_cancellation_report_by_item: {
+        Args: {
+          p_from: string
+          p_restaurant_id: string
+          p_to: string
+        }
+        Returns: {
+          item_name: string
+          lost_revenue: number
+          menu_item_id: string
+          order_count: number
+          quantity: number
+          variant_name: string
+        }[]
+      }
+      get_cancellation_report_by_reason: {
+        Args: {
+          p_from: string
+          p_restaurant_id: string
+          p_to: string
+        }
+        Returns: {
+          lost_revenue: number
+          order_count: number
+          reason: string
+        }[]
+      }
+      get_item_prep_minutes: {
+        Args: { p_menu_item: Database["public"]["Tables"]["menu_items"]["Row"] }
+        Returns: number
+      }
+      get_item_sales_report: {
+        Args: {
+          p_from: string
+          p_restaurant_id: string
+          p_to: string
+        }
+        Returns: {
+          cost: number
+          item_name: string
+          menu_item_id: string
+          order_count: number
+          quantity: number
+          revenue: number
+          variant_name: string
+        }[]
+      }
+      get_item_tax_rates: {
+        Args: { p_category_id: string; p_restaurant_id: string }
+        Returns: {
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          rate: number
+          restaurant_id: string
+          sort_order: number | null
+        }[]
+      }
+      get_menu_item_variants: {
+        Args: { p_restaurant_id: string }
+        Returns: {
+          id: string
+          is_available: boolean
+          menu_item_id: string
+          name: string
+          price: number
+          sort_order: number
+        }[]
+      }
+      get_ordering_status: {
+        Args: { p_restaurant_id: string }
+        Returns: Json
+      }
+      get_session_orders: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: {
+          cancellation_reason: string
+          created_at: string
+          estimated_ready_at: string
+          id: string
+          items: Json
+          pickup_code: string
+          status: string
+          total_amount: number
+        }[]
+      }
+      get_session_tab: {
+        Args: { p_session_id: string }
+        Returns: Json
+      }
+      get_tab_total: {
+        Args: { p_tab_id: string }
+        Returns: number
+      }
+      get_tax_config: {
+        Args: { p_restaurant_id: string }
+        Returns: Json
+      }
+      get_tax_summary: {
+        Args: {
+          p_from: string
+          p_restaurant_id: string
+          p_to: string
+        }
+        Returns: {
+          bill_count: number
+          label: string
+          rate: number
+          tax_amount: number
+          taxable_amount: number
+        }[]
+      }
+      insert_order_lines: {
+        Args: { p_items: Json; p_order_id: string; p_restaurant_id: string }
+        Returns: number
+      }
+      is_restaurant_staff: {
+        Args: { p_restaurant_id: string }
+        Returns: boolean
+      }
+      is_valid_order_transition: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      is_valid_timezone: {
+        Args: { p_timezone: string }
+        Returns: boolean
+      }
+      lock_restaurant_for_ordering: {
+        Args: { p_restaurant_id: string }
+        Returns: {
+          address: string | null
+          business_day_start_hour: number
+          busy_extra_minutes: number
+          busy_mode: boolean
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean | null
+          last_bill_number: number
+          logo_url: string | null
+          max_open_orders: number | null
+          name: string
+          owner_id: string
+          phone: string | null
+          pickup_enabled: boolean
+          qr_ordering_paused: boolean
+          service_charge_rate: number | null
+          tax_inclusive: boolean
+          timezone: string
+          updated_at: string | null
+          upi_payee_name: string | null
+          upi_vpa: string | null
+        }
+      }
+      place_order: {
+        Args: {
+          p_customer_name?: string
+          p_idempotency_key?: string
+          p_items: Json
+          p_notes?: string
+          p_restaurant_id: string
+          p_session_id?: string
+          p_table_number: string
+        }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      place_pickup_order: {
+        Args: {
+          p_customer_name: string
+          p_customer_phone: string
+          p_idempotency_key?: string
+          p_items: Json
+          p_notes?: string
+          p_restaurant_id: string
+          p_session_id?: string
+        }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      place_staff_order: {
+        Args: {
+          p_customer_name?: string
+          p_customer_phone?: string
+          p_items: Json
+          p_notes?: string
+          p_order_source: string
+          p_restaurant_id: string
+          p_table_number?: string
+        }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      recalculate_order_total: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      record_item_preparation_times: {
+        Args: { p_order_id: string }
+        Returns: undefined
+      }
+      record_payment: {
+        Args: {
+          p_amount: number
+          p_bill_id: string
+          p_provider: string
+          p_provider_reference?: string
+          p_share_id?: string
+          p_tender: string
+          p_tendered_amount?: number
+        }
+        Returns: {
+          amount_paid: number
+          bill_number: number
+          created_at: string | null
+          discount_amount: number
+          discount_reason: string | null
+          id: string
+          issued_by: string | null
+          paid_at: string | null
+          restaurant_id: string
+          service_charge_amount: number
+          service_charge_rate: number
+          status: string | null
+          subtotal: number
+          tab_id: string
+          table_number: string | null
+          tax_amount: number
+          tax_inclusive: boolean
+          total_amount: number
+          updated_at: string | null
+        }
+      }
+      refresh_order_etas: {
+        Args: { p_restaurant_id: string }
+        Returns: undefined
+      }
+      reject_order: {
+        Args: {
+          p_order_id: string
+          p_reason_id?: string
+          p_reason_text?: string
+        }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
+      request_tab_bill: {
+        Args: { p_session_id: string }
+        Returns: undefined
+      }
+      set_category_tax_rates: {
+        Args: {
+          p_category_id: string
+          p_override: boolean
+          p_tax_rate_ids?: string[]
+        }
+        Returns: undefined
+      }
+      split_tab: {
+        Args: {
+          p_assignments?: Json
+          p_guest_count?: number
+          p_mode: string
+          p_tab_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string | null
+          id: string
+          label: string
+          payment_method: string | null
+          settled_at: string | null
+          settled_by: string | null
+          status: string | null
+          tab_id: string
+        }[]
+      }
+      update_daily_sales_summary: {
+        Args: { p_date?: string }
+        Returns: undefined
+      }
+      void_order_item: {
+        Args: { p_order_item_id: string; p_reason: string }
+        Returns: {
+          assigned_staff_id: string | null
+          cancellation_reason: string | null
+          cancellation_reason_id: string | null
+          cancelled_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          customer_profile_id: string | null
+          customer_rating: number | null
+          estimated_queue_minutes: number | null
+          estimated_ready_at: string | null
+          id: string
+          idempotency_key: string | null
+          loyalty_points_earned: number | null
+          loyalty_points_used: number | null
+          notes: string | null
+          order_source: string | null
+          pickup_code: string | null
+          preparation_time: number | null
+          preparing_at: string | null
+          ready_at: string | null
+          restaurant_id: string
+          search_vector: unknown | null
+          served_at: string | null
+          served_by_staff_id: string | null
+          session_id: string | null
+          status: string | null
+          tab_id: string | null
+          table_id: string | null
+          table_number: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
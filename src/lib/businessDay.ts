@@ -0,0 +1,79 @@
+export interface BusinessDaySettings {
+  timezone: string;
+  business_day_start_hour: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Until the restaurant has loaded, fall back to the browser's own midnight
+const getSettings = (settings: BusinessDaySettings | null | undefined): BusinessDaySettings =>
+  settings || {
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    business_day_start_hour: 0
+  };
+
+// The wall-clock time in a time zone, expressed as if it were UTC
+const getWallClock = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+const toDateString = (utcMs: number) => new Date(utcMs).toISOString().slice(0, 10);
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getSupportedTimezones = (): string[] => {
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [];
+};
+
+export const addDays = (date: string, days: number) => toDateString(parseDate(date) + days * DAY);
+
+// yyyy-mm-dd of the business day a moment belongs to
+export const getBusinessDate = (settings: BusinessDaySettings | null | undefined, at = new Date()) => {
+  const { timezone, business_day_start_hour } = getSettings(settings);
+  return toDateString(getWallClock(at, timezone) - business_day_start_hour * HOUR);
+};
+
+export const getBusinessDayStart = (settings: BusinessDaySettings | null | undefined, date: string) => {
+  const { timezone, business_day_start_hour } = getSettings(settings);
+  const wallClock = parseDate(date) + business_day_start_hour * HOUR;
+
+  // Guess with the offset at the wall-clock time, then correct once in case a
+  // daylight saving change falls between the two. When the hour is skipped by
+  // the change, the day starts at the first moment after the gap.
+  const guess = wallClock - (getWallClock(new Date(wallClock), timezone) - wallClock);
+  const corrected = wallClock - (getWallClock(new Date(guess), timezone) - guess);
+
+  return new Date(getWallClock(new Date(corrected), timezone) === wallClock ? corrected : Math.max(guess, corrected));
+};
+
+// From the start of the first business day to the start of the day after the last
+export const getBusinessDayRange = (settings: BusinessDaySettings | null | undefined, from: string, to: string) => ({
+  from: getBusinessDayStart(settings, from),
+  to: getBusinessDayStart(settings, addDays(to, 1))
+});
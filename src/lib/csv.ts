@@ -0,0 +1,22 @@
+import { downloadBlob } from '@/lib/download';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Names and notes come from diners; a leading =, +, -, @, tab or CR would make a
+// spreadsheet run the cell as a formula, so it is prefixed with '. Numbers are left alone.
+const neutralizeFormula = (text: string) =>
+  /^[=+\-@\t\r]/.test(text) && !/^[-+]?\d+(\.\d+)?$/.test(text) ? `'${text}` : text;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = neutralizeFormula(String(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) => {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  downloadBlob(filename, new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+};
@@ -0,0 +1,154 @@
+import { Order } from '@/hooks/useOrders';
+import { OrderDetailItem } from '@/hooks/useOrderDetail';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
+import { Receipt, buildReceiptText } from '@/lib/receipt';
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export interface PrintLine {
+  text: string;
+  align?: 'left' | 'center' | 'right';
+  bold?: boolean;
+  // Double width and height; fits half as many characters
+  large?: boolean;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES = { left: 0, center: 1, right: 2 };
+
+// Thermal printers use a single-byte code page, so anything outside ASCII is
+// spelled out or dropped rather than printed as garbage
+const toPrintable = (text: string) =>
+  text
+    .replace(/₹/g, 'Rs.')
+    .replace(/×/g, 'x')
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+const wrap = (text: string, width: number) => {
+  if (text.length <= width) return [text];
+
+  const lines: string[] = [];
+  let current = '';
+  text.split(' ').forEach((word) => {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Wraps every line to the paper so the preview matches what comes out of the printer
+const layout = (lines: PrintLine[], paperWidth: PaperWidth) => {
+  const columns = PAPER_COLUMNS[paperWidth];
+  return lines.flatMap((line) =>
+    wrap(toPrintable(line.text), line.large ? Math.floor(columns / 2) : columns).map((text) => ({ ...line, text }))
+  );
+};
+
+export const encodeEscPos = (lines: PrintLine[], paperWidth: PaperWidth) => {
+  const bytes: number[] = [ESC, 0x40];
+
+  layout(lines, paperWidth).forEach((line) => {
+    bytes.push(ESC, 0x61, ALIGN_CODES[line.align || 'left']);
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0);
+    bytes.push(GS, 0x21, line.large ? 0x11 : 0x00);
+    for (let index = 0; index < line.text.length; index++) {
+      bytes.push(line.text.charCodeAt(index));
+    }
+    bytes.push(LF);
+  });
+
+  // Feed past the cutter, then a partial cut
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00);
+  return new Uint8Array(bytes);
+};
+
+export const renderPlainText = (lines: PrintLine[], paperWidth: PaperWidth) => {
+  const columns = PAPER_COLUMNS[paperWidth];
+
+  return layout(lines, paperWidth)
+    .map((line) => {
+      // Large text is twice as wide on paper, so space it out in the preview
+      const text = line.large ? line.text.split('').join(' ') : line.text;
+      if (line.align === 'center') return text.padStart(Math.floor((columns + text.length) / 2));
+      if (line.align === 'right') return text.padStart(columns);
+      return text;
+    })
+    .join('\n');
+};
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (payload: string) => Uint8Array.from(atob(payload), (char) => char.charCodeAt(0));
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const getTicketHeading = (order: Order) => {
+  if (order.pickup_code) return `PICKUP ${order.pickup_code}`;
+  if (order.table_number) return `TABLE ${order.table_number}`;
+  return (order.customer_name || 'COUNTER').toUpperCase();
+};
+
+// Kitchen tickets carry no prices; a station name marks tickets split across printers
+export const buildKitchenTicketLines = (
+  order: Order,
+  items: OrderDetailItem[],
+  paperWidth: PaperWidth,
+  station?: string | null
+): PrintLine[] => {
+  const rule = { text: '-'.repeat(PAPER_COLUMNS[paperWidth]) };
+
+  return [
+    { text: getTicketHeading(order), align: 'center', large: true },
+    ...(station ? [{ text: `[ ${station.toUpperCase()} ]`, align: 'center' as const, bold: true }] : []),
+    { text: `Order #${order.id.slice(-6)}`, align: 'center' },
+    rule,
+    { text: `Placed:  ${formatTime(order.created_at)}` },
+    { text: `Printed: ${formatTime(new Date())}` },
+    ...(order.estimated_ready_at ? [{ text: `Due:     ${formatTime(order.estimated_ready_at)}` }] : []),
+    ...(order.customer_name ? [{ text: `Customer: ${order.customer_name}` }] : []),
+    rule,
+    ...(order.notes ? [{ text: `NOTE: ${order.notes}`, bold: true }, rule] : []),
+    ...items.flatMap((item): PrintLine[] => [
+      { text: `${item.quantity} x ${withVariantName(item.menu_items?.name || 'Item', item.variant_name)}`, bold: true },
+      ...item.order_item_modifiers.map((modifier) => ({ text: `   + ${modifier.menu_modifiers?.name || 'Modifier'}` })),
+      ...(item.special_instructions ? [{ text: `   * ${item.special_instructions}`, bold: true }] : []),
+    ]),
+    rule,
+  ];
+};
+
+export const buildReceiptLines = (receipt: Receipt, paperWidth: PaperWidth, restaurantName?: string): PrintLine[] =>
+  buildReceiptText(receipt, restaurantName, PAPER_COLUMNS[paperWidth]).map((text) => ({
+    text,
+    bold: text.startsWith('TOTAL')
+  }));
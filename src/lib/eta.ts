@@ -0,0 +1,15 @@
+// Ready times are quoted by refresh_order_etas and re-quoted as the queue moves
+const ETA_STATUSES = ['pending', 'confirmed', 'preparing'];
+
+export const getEtaMinutes = (
+  order: { status: string | null; estimated_ready_at: string | null },
+  now = Date.now()
+) => {
+  if (!order.estimated_ready_at || !ETA_STATUSES.includes(order.status || 'pending')) {
+    return null;
+  }
+  return Math.max(0, Math.ceil((new Date(order.estimated_ready_at).getTime() - now) / 60000));
+};
+
+export const formatEta = (minutes: number) =>
+  minutes > 0 ? `Ready in about ${minutes} min` : 'Almost ready';
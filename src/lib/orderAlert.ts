@@ -0,0 +1,32 @@
+let audioContext: AudioContext | null = null;
+
+// Plays a short two-tone chime for incoming orders. Browsers only allow audio
+// after the page has had a user interaction, so failures are ignored.
+export const playOrderAlert = () => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    if (audioContext.state === 'suspended') {
+      audioContext.resume();
+    }
+
+    const start = audioContext.currentTime;
+    [880, 1320].forEach((frequency, index) => {
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      const toneStart = start + index * 0.18;
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, toneStart);
+      gain.gain.exponentialRampToValueAtTime(0.3, toneStart + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, toneStart + 0.16);
+
+      oscillator.connect(gain);
+      gain.connect(audioContext!.destination);
+      oscillator.start(toneStart);
+      oscillator.stop(toneStart + 0.17);
+    });
+  } catch (error) {
+    console.warn('Unable to play order alert:', error);
+  }
+};
@@ -0,0 +1,78 @@
+// Checkout talks to payment providers only through this interface, so a real
+// gateway can be added by registering another provider for its tenders.
+
+export type Tender = 'cash' | 'card' | 'upi' | 'other';
+
+export interface ChargeRequest {
+  billId: string;
+  billNumber: number;
+  amount: number;
+  tender: Tender;
+  // Reference typed in by staff, e.g. a UPI transaction id
+  reference?: string;
+}
+
+export interface ChargeResult {
+  status: 'succeeded' | 'failed';
+  reference: string | null;
+  message?: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  label: string;
+  tenders: Tender[];
+  charge: (request: ChargeRequest) => Promise<ChargeResult>;
+}
+
+// Money handed over at the table, or a card taken on a standalone terminal whose
+// reference staff type in; nothing to contact, so it always succeeds
+const manualProvider: PaymentProvider = {
+  id: 'manual',
+  label: 'Recorded by staff',
+  tenders: ['cash', 'card', 'upi', 'other'],
+  charge: async (request) => ({
+    status: 'succeeded',
+    reference: request.reference?.trim() || null
+  })
+};
+
+// Stand-in card terminal for development. Amounts ending in .13 are declined so
+// the failure path can be exercised.
+const fakeCardProvider: PaymentProvider = {
+  id: 'fake',
+  label: 'Test card terminal',
+  tenders: ['card'],
+  charge: async (request) => {
+    await new Promise((resolve) => setTimeout(resolve, 800));
+
+    if (Math.round(request.amount * 100) % 100 === 13) {
+      return { status: 'failed', reference: null, message: 'Card declined by the test terminal' };
+    }
+
+    return {
+      status: 'succeeded',
+      reference: `FAKE-${request.billNumber}-${Date.now().toString(36).toUpperCase()}`
+    };
+  }
+};
+
+const providers: PaymentProvider[] = [manualProvider];
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  // A newly registered provider takes over the tenders it supports
+  providers.unshift(provider);
+};
+
+// Never in production builds unless explicitly switched on for a demo
+if (import.meta.env.DEV || import.meta.env.VITE_FAKE_CARD_TERMINAL === 'true') {
+  registerPaymentProvider(fakeCardProvider);
+}
+
+export const getPaymentProvider = (tender: Tender) => {
+  const provider = providers.find((candidate) => candidate.tenders.includes(tender));
+  if (!provider) {
+    throw new Error(`No payment provider is set up for ${tender} payments`);
+  }
+  return provider;
+};
@@ -0,0 +1,52 @@
+// Minimal single-page PDF writer for monospaced text such as receipts.
+// Only the built-in Courier font is used, so no font data has to be embedded.
+
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+const MARGIN = 14;
+const CHAR_WIDTH = FONT_SIZE * 0.6;
+
+// Standard PDF fonts only cover Latin-1; anything else is replaced
+const escapePdfText = (text: string) =>
+  text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+export const buildTextPdf = (lines: string[]) => {
+  const columns = Math.max(1, ...lines.map((line) => line.length));
+  const width = Math.ceil(columns * CHAR_WIDTH + MARGIN * 2);
+  const height = Math.ceil(lines.length * LINE_HEIGHT + MARGIN * 2);
+
+  const content = [
+    'BT',
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${height - MARGIN - FONT_SIZE} Td`,
+    ...lines.map((line) => `(${escapePdfText(line)}) Tj T*`),
+    'ET',
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Everything is ASCII at this point, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
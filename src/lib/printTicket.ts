@@ -0,0 +1,75 @@
+import { Order } from '@/hooks/useOrders';
+import { OrderDetailItem } from '@/hooks/useOrderDetail';
+import { withVariantName } from '@/hooks/useMenuItemVariants';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Renders an order as a narrow receipt-printer friendly page
+export const buildTicketHtml = (order: Order, items: OrderDetailItem[], restaurantName?: string) => {
+  const lines = items.map((item) => {
+    const modifiers = item.order_item_modifiers
+      .map((modifier) => `<div class="sub">+ ${escapeHtml(modifier.menu_modifiers?.name || 'Modifier')}</div>`)
+      .join('');
+    const instructions = item.special_instructions
+      ? `<div class="sub note">* ${escapeHtml(item.special_instructions)}</div>`
+      : '';
+
+    return `
+      <div class="line">
+        <span>${item.quantity} x ${escapeHtml(withVariantName(item.menu_items?.name || 'Item', item.variant_name))}</span>
+        <span>${Number(item.total_price).toFixed(2)}</span>
+      </div>
+      ${modifiers}${instructions}`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Order #${order.id.slice(-6)}</title>
+  <style>
+    body { font-family: monospace; width: 280px; margin: 0 auto; padding: 8px; font-size: 13px; }
+    h1 { font-size: 16px; text-align: center; margin: 0 0 4px; }
+    .center { text-align: center; }
+    .line { display: flex; justify-content: space-between; margin-top: 6px; }
+    .sub { padding-left: 16px; font-size: 12px; }
+    hr { border: none; border-top: 1px dashed #000; margin: 8px 0; }
+    .total { font-weight: bold; }
+    .note { font-weight: bold; }
+    .order-note { font-weight: bold; border: 1px solid #000; padding: 4px; }
+  </style>
+</head>
+<body>
+  ${restaurantName ? `<h1>${escapeHtml(restaurantName)}</h1>` : ''}
+  <div class="center">Order #${order.id.slice(-6)}</div>
+  <div class="center">${new Date(order.created_at).toLocaleString()}</div>
+  <hr />
+  ${order.pickup_code
+    ? `<div>Pickup: ${escapeHtml(order.pickup_code)}</div>`
+    : `<div>Table: ${escapeHtml(order.table_number || '-')}</div>`}
+  <div>Customer: ${escapeHtml(order.customer_name || 'Anonymous')}</div>
+  <hr />
+  ${order.notes ? `<div class="order-note">NOTE: ${escapeHtml(order.notes)}</div><hr />` : ''}
+  ${lines}
+  <hr />
+  <div class="line total"><span>TOTAL</span><span>${Number(order.total_amount).toFixed(2)}</span></div>
+</body>
+</html>`;
+};
+
+export const printTicket = (html: string) => {
+  const printWindow = window.open('', '_blank', 'width=360,height=640');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked. Allow pop-ups to print tickets.');
+  }
+
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  printWindow.close();
+};
@@ -0,0 +1,167 @@
+import { Bill } from '@/hooks/useBills';
+import { buildTextPdf } from '@/lib/pdf';
+import { downloadBlob } from '@/lib/download';
+import { UpiPayee, buildUpiIntent, buildQrSvg } from '@/lib/upi';
+
+export interface Receipt {
+  bill_number: number;
+  table_number: string | null;
+  created_at: string;
+  subtotal: number;
+  discount_amount: number;
+  discount_reason: string | null;
+  service_charge_rate: number;
+  service_charge_amount: number;
+  total_amount: number;
+  tax_inclusive?: boolean;
+  amount_paid?: number;
+  status: 'open' | 'paid';
+  lines: { name: string; quantity: number; unit_price: number; total_price: number }[];
+  tax_lines: { label: string; rate: number; amount: number }[];
+  payments?: { tender: string; amount: number; change_due: number }[];
+}
+
+const RECEIPT_COLUMNS = 40;
+
+export const billToReceipt = (bill: Bill): Receipt => ({
+  ...bill,
+  lines: bill.bill_lines,
+  tax_lines: bill.bill_tax_lines,
+  payments: bill.payments
+});
+
+const money = (value: number) => Number(value).toFixed(2);
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// The amount rows shared by the HTML and text layouts
+const getSummaryRows = (receipt: Receipt): [string, string][] => {
+  const rows: [string, string][] = [['Subtotal', money(receipt.subtotal)]];
+
+  if (Number(receipt.discount_amount) > 0) {
+    rows.push([`Discount${receipt.discount_reason ? ` (${receipt.discount_reason})` : ''}`, `-${money(receipt.discount_amount)}`]);
+  }
+  if (Number(receipt.service_charge_amount) > 0) {
+    rows.push([`Service charge ${Number(receipt.service_charge_rate)}%`, money(receipt.service_charge_amount)]);
+  }
+  receipt.tax_lines.forEach((tax) => {
+    rows.push([`${tax.label} ${Number(tax.rate)}%${receipt.tax_inclusive ? ' incl.' : ''}`, money(tax.amount)]);
+  });
+
+  return rows;
+};
+
+const getPaymentRows = (receipt: Receipt): [string, string][] =>
+  (receipt.payments || []).flatMap((payment): [string, string][] => [
+    [`Paid ${payment.tender.toUpperCase()}`, money(payment.amount)],
+    ...(Number(payment.change_due) > 0 ? [['Change', money(payment.change_due)] as [string, string]] : []),
+  ]);
+
+const padRow = (left: string, right: string, width = RECEIPT_COLUMNS) => {
+  const space = width - right.length - 1;
+  if (left.length <= space) {
+    return [`${left.padEnd(space)} ${right}`];
+  }
+
+  // Wrap long names and put the amount on the last line
+  const wrapped: string[] = [];
+  for (let index = 0; index < left.length; index += width) {
+    wrapped.push(left.slice(index, index + width));
+  }
+  return [...wrapped, right.padStart(width)];
+};
+
+const center = (text: string, width = RECEIPT_COLUMNS) =>
+  text.length >= width ? text : ' '.repeat(Math.floor((width - text.length) / 2)) + text;
+
+// Fixed-width layout used for the PDF and thermal printers
+export const buildReceiptText = (receipt: Receipt, restaurantName?: string, columns = RECEIPT_COLUMNS) => {
+  const rule = '-'.repeat(columns);
+  const row = (left: string, right: string) => padRow(left, right, columns);
+
+  return [
+    ...(restaurantName ? [center(restaurantName, columns)] : []),
+    center(`Bill #${receipt.bill_number}`, columns),
+    center(new Date(receipt.created_at).toLocaleString(), columns),
+    rule,
+    `Table: ${receipt.table_number || '-'}`,
+    rule,
+    ...receipt.lines.flatMap((line) => [
+      ...row(`${line.quantity} x ${line.name}`, money(line.total_price)),
+      ...(line.quantity > 1 ? [`    @ ${money(line.unit_price)}`] : []),
+    ]),
+    rule,
+    ...getSummaryRows(receipt).flatMap(([label, amount]) => row(label, amount)),
+    rule,
+    ...row('TOTAL', money(receipt.total_amount)),
+    ...getPaymentRows(receipt).flatMap(([label, amount]) => row(label, amount)),
+    ...(receipt.status === 'paid' ? [center('PAID', columns)] : []),
+    '',
+    center('Thank you for dining with us!', columns),
+  ];
+};
+
+export const buildReceiptHtml = (receipt: Receipt, restaurantName?: string, upiPayee?: UpiPayee | null) => {
+  // Unpaid bills carry a UPI QR for whatever is still owed
+  const outstanding = Number(receipt.total_amount) - Number(receipt.amount_paid || 0);
+  const upiQr = upiPayee && receipt.status !== 'paid' && outstanding > 0
+    ? buildQrSvg(buildUpiIntent(upiPayee, outstanding, `Bill #${receipt.bill_number}`))
+    : null;
+
+  const lines = receipt.lines.map((line) => `
+      <div class="line">
+        <span>${line.quantity} x ${escapeHtml(line.name)}</span>
+        <span>${money(line.total_price)}</span>
+      </div>
+      ${line.quantity > 1 ? `<div class="sub">@ ${money(line.unit_price)}</div>` : ''}`).join('');
+
+  const toRows = (rows: [string, string][]) => rows.map(([label, amount]) => `
+      <div class="line"><span>${escapeHtml(label)}</span><span>${amount}</span></div>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Bill #${receipt.bill_number}</title>
+  <style>
+    body { font-family: monospace; width: 280px; margin: 0 auto; padding: 8px; font-size: 13px; }
+    h1 { font-size: 16px; text-align: center; margin: 0 0 4px; }
+    .center { text-align: center; }
+    .line { display: flex; justify-content: space-between; gap: 8px; margin-top: 6px; }
+    .sub { padding-left: 16px; font-size: 12px; }
+    hr { border: none; border-top: 1px dashed #000; margin: 8px 0; }
+    .total { font-weight: bold; font-size: 15px; }
+    .qr { width: 160px; margin: 6px auto; }
+  </style>
+</head>
+<body>
+  ${restaurantName ? `<h1>${escapeHtml(restaurantName)}</h1>` : ''}
+  <div class="center">Bill #${receipt.bill_number}</div>
+  <div class="center">${new Date(receipt.created_at).toLocaleString()}</div>
+  <hr />
+  <div>Table: ${escapeHtml(receipt.table_number || '-')}</div>
+  <hr />
+  ${lines}
+  <hr />
+  ${toRows(getSummaryRows(receipt))}
+  <hr />
+  <div class="line total"><span>TOTAL</span><span>${money(receipt.total_amount)}</span></div>
+  ${toRows(getPaymentRows(receipt))}
+  ${receipt.status === 'paid' ? '<div class="center">PAID</div>' : ''}
+  ${upiQr ? `<hr />
+  <div class="center">Scan to pay ${money(outstanding)} with UPI</div>
+  <div class="qr">${upiQr}</div>
+  <div class="center">${escapeHtml(upiPayee.vpa)}</div>` : ''}
+  <hr />
+  <div class="center">Thank you for dining with us!</div>
+</body>
+</html>`;
+};
+
+export const downloadReceiptPdf = (receipt: Receipt, restaurantName?: string) => {
+  downloadBlob(`bill-${receipt.bill_number}.pdf`, buildTextPdf(buildReceiptText(receipt, restaurantName)));
+};
@@ -0,0 +1,96 @@
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+// Mirrors get_tax_config; category_rates only lists categories that override the defaults
+export interface TaxConfig {
+  inclusive: boolean;
+  service_charge_rate: number;
+  rates: TaxRate[];
+  category_rates: { category_id: string; rate_ids: string[] }[];
+}
+
+export interface TaxLine {
+  id: string;
+  label: string;
+  rate: number;
+  taxable_amount: number;
+  amount: number;
+}
+
+export interface TaxBreakdown {
+  subtotal: number;
+  service_charge_amount: number;
+  tax_lines: TaxLine[];
+  tax_amount: number;
+  inclusive: boolean;
+  total: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getItemTaxRates = (config: TaxConfig, categoryId: string | null | undefined) => {
+  const override = categoryId
+    ? config.category_rates.find((category) => category.category_id === categoryId)
+    : undefined;
+
+  return override
+    ? config.rates.filter((rate) => override.rate_ids.includes(rate.id))
+    : config.rates;
+};
+
+// Same calculation generate_bill uses, so the cart matches the bill the table gets
+export const calculateTax = (
+  config: TaxConfig,
+  lines: { amount: number; category_id: string | null | undefined }[],
+  discount = 0
+): TaxBreakdown => {
+  const subtotal = round(lines.reduce((sum, line) => sum + line.amount, 0));
+  const serviceCharge = round((subtotal - discount) * Number(config.service_charge_rate || 0) / 100);
+  const factor = subtotal > 0 ? (subtotal - discount + serviceCharge) / subtotal : 0;
+  const totals = new Map<string, TaxLine>();
+
+  lines.forEach((line) => {
+    const rates = getItemTaxRates(config, line.category_id);
+    const combined = rates.reduce((sum, rate) => sum + Number(rate.rate), 0);
+    const base = line.amount * factor;
+
+    rates.forEach((rate) => {
+      const current = totals.get(rate.id) || {
+        id: rate.id,
+        label: rate.name,
+        rate: Number(rate.rate),
+        taxable_amount: 0,
+        amount: 0
+      };
+
+      if (config.inclusive) {
+        current.taxable_amount += base * 100 / (100 + combined);
+        current.amount += base * Number(rate.rate) / (100 + combined);
+      } else {
+        current.taxable_amount += base;
+        current.amount += base * Number(rate.rate) / 100;
+      }
+      totals.set(rate.id, current);
+    });
+  });
+
+  const taxLines = config.rates
+    .filter((rate) => totals.has(rate.id))
+    .map((rate) => {
+      const line = totals.get(rate.id)!;
+      return { ...line, taxable_amount: round(line.taxable_amount), amount: round(line.amount) };
+    });
+  const taxAmount = round(taxLines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    subtotal,
+    service_charge_amount: serviceCharge,
+    tax_lines: taxLines,
+    tax_amount: taxAmount,
+    inclusive: config.inclusive,
+    total: round(subtotal - discount + serviceCharge + (config.inclusive ? 0 : taxAmount))
+  };
+};
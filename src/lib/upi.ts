@@ -0,0 +1,52 @@
+import QRCode from 'qrcode';
+
+export interface UpiPayee {
+  vpa: string;
+  payeeName: string;
+}
+
+// Same rule as the restaurants.upi_vpa check constraint
+const VPA_PATTERN = /^[A-Za-z0-9._-]{2,256}@[A-Za-z][A-Za-z0-9.-]{1,63}$/;
+
+export const isValidVpa = (vpa: string) => VPA_PATTERN.test(vpa.trim());
+
+// Null when the restaurant has not set up UPI collection
+export const getUpiPayee = (
+  restaurant: { name: string; upi_vpa: string | null; upi_payee_name: string | null } | null | undefined
+): UpiPayee | null => {
+  if (!restaurant?.upi_vpa) return null;
+  return { vpa: restaurant.upi_vpa, payeeName: restaurant.upi_payee_name?.trim() || restaurant.name };
+};
+
+export const buildUpiIntent = (payee: UpiPayee, amount: number, note: string) => {
+  const params = [
+    ['pa', payee.vpa.trim()],
+    ['pn', payee.payeeName.trim()],
+    ['am', Number(amount).toFixed(2)],
+    ['cu', 'INR'],
+    ['tn', note],
+  ];
+
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+// Builds the QR as an SVG string synchronously so it can go straight into
+// printed receipts as well as the page
+export const buildQrSvg = (text: string, margin = 2) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const size = modules.size + margin * 2;
+  let path = '';
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        path += `M${col + margin} ${row + margin}h1v1h-1z`;
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
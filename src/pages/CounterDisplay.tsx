@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ShoppingBag, Wifi, WifiOff, CheckCircle, Receipt } from 'lucide-react';
+import { useOrdersRealtime, usePickupOrders, useUpdateOrderStatus, Order } from '@/hooks/useOrders';
+import { useOpenTabs, getTabTotal } from '@/hooks/useTableTabs';
+import TabSettlementSheet from '@/components/tabs/TabSettlementSheet';
+
+const CounterDisplay = () => {
+  const { restaurantId } = useParams<{ restaurantId: string }>();
+  const navigate = useNavigate();
+
+  const { isLive } = useOrdersRealtime(restaurantId);
+  const { data: orders = [], isLoading } = usePickupOrders(restaurantId, { live: isLive });
+  const updateOrderStatus = useUpdateOrderStatus();
+  const { data: tabs = [], isSuccess: tabsLoaded } = useOpenTabs(restaurantId);
+  const [selectedTabId, setSelectedTabId] = useState<string | null>(null);
+  const selectedTab = tabs.find((tab) => tab.id === selectedTabId) || null;
+
+  const inProgress = orders.filter((order) => order.status !== 'ready');
+  const ready = orders.filter((order) => order.status === 'ready');
+
+  // Each pickup order has its own tab, which closes once the bill is paid
+  const renderCode = (order: Order, isReady: boolean) => {
+    const tab = tabs.find((candidate) => candidate.id === order.tab_id);
+
+    return (
+      <div
+        key={order.id}
+        className={`rounded-lg p-4 flex items-center justify-between gap-3 ${
+          isReady ? 'bg-green-600' : 'bg-gray-800'
+        }`}
+      >
+        <div className="min-w-0">
+          <p className="text-4xl font-bold font-mono tracking-widest">{order.pickup_code}</p>
+          <p className="text-sm opacity-80 truncate">{order.customer_name}</p>
+        </div>
+        <div className="flex flex-col gap-2 shrink-0">
+          {tab ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setSelectedTabId(tab.id)}
+              className="bg-transparent border-white/40 text-white hover:bg-white/10 hover:text-white"
+            >
+              <Receipt className="w-4 h-4 mr-1" />
+              {tab.bills ? 'Pay' : 'Bill'} ${getTabTotal(tab).toFixed(2)}
+            </Button>
+          ) : tabsLoaded && (
+            <span className="text-xs font-semibold uppercase tracking-wide opacity-80 text-right">Paid</span>
+          )}
+          {isReady && (
+            <Button
+              size="sm"
+              onClick={() => updateOrderStatus.mutate({ orderId: order.id, status: 'served' })}
+              disabled={updateOrderStatus.isPending}
+              className="bg-white text-green-700 hover:bg-green-50"
+            >
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Collected
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="sticky top-0 z-10 bg-gray-950 border-b border-gray-800 px-4 py-3">
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/dashboard')}
+            className="text-gray-300 hover:text-white hover:bg-gray-800"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <ShoppingBag className="w-6 h-6 text-amber-400" />
+          <h1 className="text-xl font-bold">Pickup Counter</h1>
+          {isLive ? (
+            <Wifi className="w-4 h-4 text-green-400" />
+          ) : (
+            <WifiOff className="w-4 h-4 text-yellow-400" />
+          )}
+        </div>
+      </div>
+
+      <main className="p-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-400"></div>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            <section className="space-y-3">
+              <h2 className="text-2xl font-semibold text-gray-300">Preparing</h2>
+              {inProgress.map((order) => renderCode(order, false))}
+              {inProgress.length === 0 && <p className="text-gray-500">Nothing in the kitchen</p>}
+            </section>
+            <section className="space-y-3">
+              <h2 className="text-2xl font-semibold text-green-400">Ready for pickup</h2>
+              {ready.map((order) => renderCode(order, true))}
+              {ready.length === 0 && <p className="text-gray-500">No orders waiting</p>}
+            </section>
+          </div>
+        )}
+      </main>
+
+      <TabSettlementSheet tab={selectedTab} onClose={() => setSelectedTabId(null)} />
+    </div>
+  );
+};
+
+export default CounterDisplay;
@@ -1,16 +1,31 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from '@/hooks/use-toast';
 import MenuHeader from '@/components/customer/MenuHeader';
 import MenuSearch from '@/components/customer/MenuSearch';
 import MenuGrid from '@/components/customer/MenuGrid';
 import CartModal from '@/components/customer/CartModal';
+import MyOrdersModal from '@/components/customer/MyOrdersModal';
+import TableBillModal from '@/components/customer/TableBillModal';
+import OrderingNotice from '@/components/customer/OrderingNotice';
+import ItemCustomizeSheet from '@/components/customer/ItemCustomizeSheet';
+import { useDinerSession, useSessionOrders, useSessionTab, useRequestTabBill } from '@/hooks/useCustomerOrders';
+import { useTaxConfig } from '@/hooks/useTaxes';
+import {
+  useMenuModifiers,
+  getItemModifiers,
+  getItemModifierGroups,
+  getRequiredModifierIds,
+  MenuModifier
+} from '@/hooks/useMenuModifiers';
+import { useOrderingStatus, DEFAULT_INSTRUCTIONS_MAX_LENGTH } from '@/hooks/useKitchen';
+import { useMenuVariantOptions, withVariantName, MenuVariantOption } from '@/hooks/useMenuItemVariants';
+import { getEtaMinutes, formatEta } from '@/lib/eta';
 
 interface MenuItem {
   id: string;
@@ -18,6 +33,7 @@ interface MenuItem {
   description: string | null;
   price: number;
   image_url: string | null;
+  category_id: string | null;
 }
 
 interface Restaurant {
@@ -26,26 +42,68 @@ interface Restaurant {
   description: string | null;
 }
 
+// The same dish in another size or with different modifiers is a separate line;
+// price is the size's price plus the modifiers
 interface CartItem extends MenuItem {
+  key: string;
   quantity: number;
+  instructions?: string;
+  variant: CartVariant | null;
+  modifiers: CartModifier[];
 }
 
+type CartModifier = Pick<MenuModifier, 'id' | 'name' | 'price_adjustment'>;
+type CartVariant = Pick<MenuVariantOption, 'id' | 'name' | 'price'>;
+
+interface CustomizingLine {
+  item: MenuItem;
+  variant: CartVariant | null;
+}
+
+// How long a submission may hang before it is abandoned and resent
+const ORDER_TIMEOUT_MS = 15000;
+const ORDER_RETRIES = 2;
+
+// The request never got an answer, so the order may or may not exist. Resending
+// is safe because the server replays the original order for the same key.
+class OrderConnectionError extends Error {}
+
+const isConnectionFailure = (error: { code?: string; message: string }) =>
+  !error.code || /AbortError|TimeoutError/.test(error.message);
+
 const CustomerMenu = () => {
-  const { restaurantId, tableNumber } = useParams<{ restaurantId: string; tableNumber: string }>();
+  const { restaurantId, tableNumber } = useParams<{ restaurantId: string; tableNumber?: string }>();
+  // Without a table the menu takes pickup orders for the counter
+  const isPickup = !tableNumber;
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { sessionId, expiresAt, endSession } = useDinerSession(restaurantId, tableNumber || 'pickup');
+  const { data: sessionOrders = [], isLoading: sessionOrdersLoading } = useSessionOrders(sessionId);
   
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [showCart, setShowCart] = useState(false);
-  const [sessionTimeLeft, setSessionTimeLeft] = useState(7200); // 2 hours in seconds
+  const [showOrders, setShowOrders] = useState(false);
+  const [sessionTimeLeft, setSessionTimeLeft] = useState(() =>
+    Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))
+  );
   const [showBillDialog, setShowBillDialog] = useState(false);
+  const { data: sessionTab } = useSessionTab(sessionId, showBillDialog);
+  const requestTabBill = useRequestTabBill();
+  const { data: taxConfig } = useTaxConfig(restaurantId);
+  const { data: orderingStatus } = useOrderingStatus(restaurantId);
   const [connectionError, setConnectionError] = useState(false);
+  const [pickupDetails, setPickupDetails] = useState({ name: '', phone: '' });
+  const [orderNote, setOrderNote] = useState('');
+  const [customizing, setCustomizing] = useState<CustomizingLine | null>(null);
+  const { data: modifierData } = useMenuModifiers(restaurantId);
+  const { data: variants = [] } = useMenuVariantOptions(restaurantId);
+  const maxNoteLength = orderingStatus?.instructions_max_length ?? DEFAULT_INSTRUCTIONS_MAX_LENGTH;
 
   // Validate required params and redirect if missing
   useEffect(() => {
-    if (!restaurantId || !tableNumber) {
+    if (!restaurantId) {
       console.error('Missing required parameters:', { restaurantId, tableNumber });
       toast({
         title: "Invalid QR Code",
@@ -64,7 +122,7 @@ const CustomerMenu = () => {
     try {
       const { data, error } = await supabase
         .from('menu_items')
-        .select('id, name, description, price, image_url')
+        .select('id, name, description, price, image_url, category_id')
         .eq('restaurant_id', restaurantId)
         .eq('is_available', true)
         .order('sort_order', { ascending: true });
@@ -150,6 +208,7 @@ const CustomerMenu = () => {
     const timer = setInterval(() => {
       setSessionTimeLeft((prevTime) => {
         if (prevTime <= 1) {
+          endSession();
           toast({
             title: "Session Expired",
             description: "Your dining session has expired. Redirecting to home page.",
@@ -163,7 +222,7 @@ const CustomerMenu = () => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [navigate, toast]);
+  }, [navigate, toast, endSession]);
 
   // Connection error recovery
   useEffect(() => {
@@ -178,105 +237,186 @@ const CustomerMenu = () => {
     }
   }, [connectionError, refetchRestaurant, refetchMenuItems]);
 
-  const addToCart = (item: MenuItem) => {
+  const getModifiersFor = (item: MenuItem) =>
+    getItemModifiers(item, modifierData);
+
+  const addToCart = (item: MenuItem, modifiers: CartModifier[] = [], quantity = 1, variant: CartVariant | null = null) => {
     console.log('Adding to cart:', item.name);
+    const key = [item.id, variant?.id, ...modifiers.map((modifier) => modifier.id).sort()].filter(Boolean).join('|');
+    const price = (variant?.price ?? item.price) + modifiers.reduce((sum, modifier) => sum + Number(modifier.price_adjustment || 0), 0);
+
     setCart(prevCart => {
-      const existingItem = prevCart.find((cartItem) => cartItem.id === item.id);
+      const existingItem = prevCart.find((cartItem) => cartItem.key === key);
       if (existingItem) {
         return prevCart.map((cartItem) =>
-          cartItem.id === item.id 
-            ? { ...cartItem, quantity: cartItem.quantity + 1 } 
+          cartItem.key === key 
+            ? { ...cartItem, quantity: Math.min(50, cartItem.quantity + quantity) } 
             : cartItem
         );
       } else {
-        return [...prevCart, { ...item, quantity: 1 }];
+        return [...prevCart, { ...item, key, price, quantity, variant, modifiers }];
       }
     });
     
     toast({
       title: "Added to Cart",
-      description: `${item.name} has been added to your cart.`,
+      description: `${withVariantName(item.name, variant?.name)} has been added to your cart.`,
     });
   };
 
-  const updateQuantity = (itemId: string, quantity: number) => {
+  // Items with modifiers go through the customisation sheet first
+  const handleItemTap = (item: MenuItem, variant?: MenuVariantOption) => {
+    if (getModifiersFor(item).length > 0) {
+      setCustomizing({ item, variant: variant || null });
+    } else {
+      addToCart(item, [], 1, variant || null);
+    }
+  };
+
+  // The sheet shows the chosen size's name and price
+  const customizingSheetItem = useMemo(
+    () => customizing && {
+      ...customizing.item,
+      name: withVariantName(customizing.item.name, customizing.variant?.name),
+      price: customizing.variant?.price ?? customizing.item.price
+    },
+    [customizing]
+  );
+
+  const updateQuantity = (lineKey: string, quantity: number) => {
     if (quantity === 0) {
-      setCart(cart.filter((item) => item.id !== itemId));
+      setCart(cart.filter((item) => item.key !== lineKey));
     } else {
       setCart(cart.map((item) => 
-        item.id === itemId ? { ...item, quantity } : item
+        item.key === lineKey ? { ...item, quantity } : item
       ));
     }
   };
 
+  const updateInstructions = (lineKey: string, instructions: string) => {
+    setCart(cart.map((item) =>
+      item.key === lineKey ? { ...item, instructions } : item
+    ));
+  };
+
   const cartTotal = cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
   const cartItemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
 
-  const filteredItems = menuItems.filter((item) =>
+  // Items sold in sizes are only listed while at least one size is available
+  const variantsByItem = new Map<string, MenuVariantOption[]>();
+  variants.forEach((variant) => {
+    variantsByItem.set(variant.menu_item_id, [
+      ...(variantsByItem.get(variant.menu_item_id) || []),
+      ...(variant.is_available ? [variant] : [])
+    ]);
+  });
+  const orderableItems = menuItems.filter((item) => variantsByItem.get(item.id)?.length !== 0);
+
+  const filteredItems = orderableItems.filter((item) =>
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (item.description?.toLowerCase()?.includes(searchTerm.toLowerCase()))
   );
 
-  const popularItems = menuItems.slice(0, 3);
+  const popularItems = orderableItems.slice(0, 3);
+  const customizableIds = new Set(
+    orderableItems.filter((item) => getModifiersFor(item).length > 0).map((item) => item.id)
+  );
+
+  // One key per cart submission, kept across retries and dropped once the cart changes
+  const idempotencyKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [cart, pickupDetails, orderNote]);
 
   const placeOrderMutation = useMutation({
     mutationFn: async () => {
-      if (!restaurantId || !tableNumber) {
-        throw new Error('Missing restaurant or table information');
+      if (!restaurantId) {
+        throw new Error('Missing restaurant information');
       }
 
-      console.log('Placing order...');
-      
-      const orderData = {
-        restaurant_id: restaurantId,
-        table_number: tableNumber,
-        total_amount: cartTotal,
-        status: 'pending',
-        notes: `Order from Table ${tableNumber}`,
-      };
-
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert(orderData)
-        .select()
-        .single();
-
-      if (orderError) {
-        console.error('Error creating order:', orderError);
-        throw new Error(`Failed to create order: ${orderError.message}`);
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = crypto.randomUUID();
       }
 
-      // Add order items
-      const orderItems = cart.map(item => ({
-        order_id: order.id,
+      console.log('Placing order...');
+
+      // Prices and the total are recomputed by the order RPCs; only ids and
+      // quantities are sent so a tampered cart cannot change what is charged.
+      // Notes are length-checked and filtered on the server as well.
+      const items = cart.map(item => ({
         menu_item_id: item.id,
         quantity: item.quantity,
-        unit_price: item.price,
-        total_price: item.price * item.quantity,
+        special_instructions: item.instructions?.trim() || undefined,
+        variant_id: item.variant?.id,
+        modifier_ids: item.modifiers.map((modifier) => modifier.id),
       }));
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+      const { data: order, error: orderError } = isPickup
+        ? await supabase.rpc('place_pickup_order', {
+            p_restaurant_id: restaurantId,
+            p_items: items,
+            p_customer_name: pickupDetails.name.trim(),
+            p_customer_phone: pickupDetails.phone.trim(),
+            p_notes: orderNote.trim() || undefined,
+            p_session_id: sessionId,
+            p_idempotency_key: idempotencyKeyRef.current,
+          }).abortSignal(AbortSignal.timeout(ORDER_TIMEOUT_MS))
+        : await supabase.rpc('place_order', {
+            p_restaurant_id: restaurantId,
+            p_table_number: tableNumber,
+            p_items: items,
+            p_notes: orderNote.trim() || undefined,
+            p_session_id: sessionId,
+            p_idempotency_key: idempotencyKeyRef.current,
+          }).abortSignal(AbortSignal.timeout(ORDER_TIMEOUT_MS));
 
-      if (itemsError) {
-        console.error('Error creating order items:', itemsError);
-        throw new Error(`Failed to create order items: ${itemsError.message}`);
+      if (orderError) {
+        console.error('Error creating order:', orderError);
+        if (isConnectionFailure(orderError)) {
+          throw new OrderConnectionError(orderError.message);
+        }
+        throw new Error(`Failed to create order: ${orderError.message}`);
       }
 
       return order;
     },
-    onSuccess: () => {
+    retry: (failureCount, error) => error instanceof OrderConnectionError && failureCount < ORDER_RETRIES,
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    onSuccess: (order) => {
+      const etaMinutes = order ? getEtaMinutes(order) : null;
+      const details = [
+        order?.pickup_code && `Your pickup code is ${order.pickup_code}.`,
+        etaMinutes !== null && `${formatEta(etaMinutes)}.`,
+      ].filter(Boolean);
       toast({
         title: "Order Placed Successfully!",
-        description: "Your order has been sent to the kitchen.",
+        description: ["Your order has been sent to the kitchen.", ...details].join(' '),
       });
       setCart([]);
+      setOrderNote('');
       setShowCart(false);
+      setShowOrders(true);
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['session-orders', sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['ordering-status', restaurantId] });
     },
     onError: (error) => {
       console.error('Error placing order:', error);
+      if (error instanceof OrderConnectionError) {
+        // The cart and its key are kept, so placing the order again cannot duplicate it
+        queryClient.invalidateQueries({ queryKey: ['session-orders', sessionId] });
+        toast({
+          title: "Connection Lost",
+          description: "We couldn't confirm your order. Check My Orders, or tap Place Order again once you're back online - it won't be sent twice.",
+        });
+        return;
+      }
+      // The server may have rejected an item or size that just went unavailable, or
+      // ordering may have been paused or filled up since the status last loaded
+      queryClient.invalidateQueries({ queryKey: ['menuItems', restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['menu-item-variants', restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ['ordering-status', restaurantId] });
       toast({
         title: "Order Failed",
         description: error instanceof Error ? error.message : "Failed to place order. Please try again.",
@@ -285,17 +425,38 @@ const CustomerMenu = () => {
     },
   });
 
-  const generateBill = () => {
-    toast({
-      title: "Bill Generated",
-      description: `Total amount: ₹${cartTotal.toFixed(2)}`,
+  const openBill = () => {
+    setShowCart(false);
+    setShowOrders(false);
+    setShowBillDialog(true);
+  };
+
+  const requestBill = () => {
+    requestTabBill.mutate(sessionId, {
+      onSuccess: () => {
+        toast({
+          title: "Bill Requested",
+          description: "A staff member will bring your bill shortly.",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Request Failed",
+          description: error instanceof Error ? error.message : "Could not request the bill. Please ask a staff member.",
+          variant: "destructive",
+        });
+      },
     });
+  };
+
+  const finishVisit = () => {
     setShowBillDialog(false);
+    endSession();
     navigate('/');
   };
 
   // Early return for missing params
-  if (!restaurantId || !tableNumber) {
+  if (!restaurantId) {
     return null;
   }
 
@@ -358,61 +519,86 @@ const CustomerMenu = () => {
         cartTotal={cartTotal}
         cartItemCount={cartItemCount}
         onCartClick={() => setShowCart(true)}
+        activeOrderCount={sessionOrders.filter((order) => !['served', 'cancelled'].includes(order.status)).length}
+        onOrdersClick={() => setShowOrders(true)}
         sessionTimeLeft={sessionTimeLeft}
       />
 
       <div className="max-w-7xl mx-auto px-4 py-6">
+        <OrderingNotice status={orderingStatus} pickup={isPickup} className="mb-6" />
+
         <div className="grid lg:grid-cols-4 gap-6">
           <MenuSearch 
             searchTerm={searchTerm}
             onSearchChange={setSearchTerm}
-            menuItemsCount={menuItems.length}
+            menuItemsCount={orderableItems.length}
             cartItemCount={cartItemCount}
           />
 
           <MenuGrid 
             popularItems={popularItems}
             filteredItems={filteredItems}
-            onAddToCart={addToCart}
+            onAddToCart={handleItemTap}
+            customizableIds={customizableIds}
+            variantsByItem={variantsByItem}
             isLoading={menuItemsLoading}
             searchTerm={searchTerm}
           />
         </div>
       </div>
 
+      <ItemCustomizeSheet
+        item={customizingSheetItem}
+        modifiers={customizing ? getModifiersFor(customizing.item) : []}
+        groups={customizing ? getItemModifierGroups(customizing.item, modifierData) : []}
+        requiredModifierIds={customizing ? getRequiredModifierIds(customizing.item, modifierData?.links || []) : []}
+        onClose={() => setCustomizing(null)}
+        onAdd={(modifiers, quantity) => {
+          if (customizing) addToCart(customizing.item, modifiers, quantity, customizing.variant);
+          setCustomizing(null);
+        }}
+      />
+
       <CartModal 
         open={showCart}
         onOpenChange={setShowCart}
         cart={cart}
         cartTotal={cartTotal}
+        taxConfig={taxConfig}
+        orderingStatus={orderingStatus}
+        pickupDetails={isPickup ? pickupDetails : undefined}
+        onPickupDetailsChange={setPickupDetails}
         onUpdateQuantity={updateQuantity}
+        onUpdateInstructions={updateInstructions}
+        orderNote={orderNote}
+        onOrderNoteChange={setOrderNote}
+        maxNoteLength={maxNoteLength}
         onPlaceOrder={() => placeOrderMutation.mutate()}
-        onGenerateBill={() => setShowBillDialog(true)}
+        onGenerateBill={isPickup ? undefined : openBill}
         isPlacingOrder={placeOrderMutation.isPending}
+        isReconnecting={placeOrderMutation.failureCount > 0}
+      />
+
+      <MyOrdersModal
+        open={showOrders}
+        onOpenChange={setShowOrders}
+        orders={sessionOrders}
+        isLoading={sessionOrdersLoading}
+        onViewBill={isPickup ? undefined : openBill}
       />
 
-      <AlertDialog open={showBillDialog} onOpenChange={setShowBillDialog}>
-        <AlertDialogContent className="max-w-sm mx-auto">
-          <AlertDialogHeader>
-            <AlertDialogTitle>Generate Bill & End Session</AlertDialogTitle>
-            <AlertDialogDescription className="text-sm">
-              This will generate your final bill and end your dining session. 
-              Total amount: ₹{cartTotal.toFixed(2)}
-              
-              Are you sure you want to proceed?
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter className="flex-col sm:flex-row gap-2">
-            <AlertDialogCancel className="w-full sm:w-auto">Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={generateBill}
-              className="bg-orange-500 hover:bg-orange-600 w-full sm:w-auto"
-            >
-              Generate Bill
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {!isPickup && (
+        <TableBillModal
+          open={showBillDialog}
+          onOpenChange={setShowBillDialog}
+          orders={sessionOrders}
+          tab={sessionTab}
+          restaurantName={restaurant?.name}
+          onRequestBill={requestBill}
+          isRequesting={requestTabBill.isPending}
+          onFinish={finishVisit}
+        />
+      )}
     </div>
   );
 };
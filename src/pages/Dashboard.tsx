@@ -7,7 +7,13 @@ import Sidebar from '@/components/Sidebar';
 import OverviewDashboard from '@/components/OverviewDashboard';
 import TodaysOrdersDashboard from '@/components/TodaysOrdersDashboard';
 import MenuItemsDashboard from '@/components/MenuItemsDashboard';
+import ModifiersDashboard from '@/components/ModifiersDashboard';
 import TablesDashboard from '@/components/TablesDashboard';
+import ReportsDashboard from '@/components/ReportsDashboard';
+import OrderHistoryDashboard from '@/components/OrderHistoryDashboard';
+import PosDashboard from '@/components/PosDashboard';
+import TableTabsDashboard from '@/components/TableTabsDashboard';
+import PrintQueueDashboard from '@/components/PrintQueueDashboard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Store, Plus } from 'lucide-react';
@@ -26,8 +32,20 @@ const Dashboard = () => {
         return <OverviewDashboard />;
       case 'menu':
         return <MenuItemsDashboard />;
+      case 'modifiers':
+        return <ModifiersDashboard />;
       case 'tables':
         return <TablesDashboard />;
+      case 'pos':
+        return <PosDashboard />;
+      case 'tabs':
+        return <TableTabsDashboard />;
+      case 'history':
+        return <OrderHistoryDashboard />;
+      case 'reports':
+        return <ReportsDashboard />;
+      case 'printing':
+        return <PrintQueueDashboard />;
       case 'orders':
       default:
         return <TodaysOrdersDashboard />;
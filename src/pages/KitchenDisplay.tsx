@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, ChefHat, Wifi, WifiOff } from 'lucide-react';
+import { useOrdersRealtime } from '@/hooks/useOrders';
+import { useMenuItems } from '@/hooks/useMenuItems';
+import { useKitchenTickets, useBumpOrderItems, getItemStation, DEFAULT_STATION } from '@/hooks/useKitchen';
+import KitchenTicket from '@/components/kitchen/KitchenTicket';
+import { playOrderAlert } from '@/lib/orderAlert';
+
+const KitchenDisplay = () => {
+  const { restaurantId } = useParams<{ restaurantId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const station = searchParams.get('station');
+
+  const { isLive } = useOrdersRealtime(restaurantId, { onOrderCreated: () => playOrderAlert() });
+  const { data: tickets = [], isLoading } = useKitchenTickets(restaurantId, { live: isLive });
+  const { data: menuItems = [] } = useMenuItems(restaurantId);
+  const bumpItems = useBumpOrderItems();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so ticket age timers stay current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const stations = Array.from(new Set([
+    ...menuItems.map((item) => item.station || DEFAULT_STATION),
+    ...tickets.flatMap((ticket) => ticket.order_items.map(getItemStation)),
+  ])).sort();
+
+  const visibleTickets = station
+    ? tickets.filter((ticket) =>
+        ticket.order_items.some((item) => getItemStation(item) === station && !item.bumped_at && !item.voided_at)
+      )
+    : tickets;
+
+  const selectStation = (value: string | null) => {
+    setSearchParams(value ? { station: value } : {});
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="sticky top-0 z-10 bg-gray-950 border-b border-gray-800 px-4 py-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/dashboard')}
+              className="text-gray-300 hover:text-white hover:bg-gray-800"
+            >
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <ChefHat className="w-6 h-6 text-amber-400" />
+            <h1 className="text-xl font-bold">Kitchen Display</h1>
+            <span className="text-sm text-gray-400">{visibleTickets.length} open</span>
+            {isLive ? (
+              <Wifi className="w-4 h-4 text-green-400" />
+            ) : (
+              <WifiOff className="w-4 h-4 text-yellow-400" />
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              onClick={() => selectStation(null)}
+              className={!station ? 'bg-amber-500 hover:bg-amber-600' : 'bg-gray-800 hover:bg-gray-700'}
+            >
+              All stations
+            </Button>
+            {stations.map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                onClick={() => selectStation(value)}
+                className={`capitalize ${station === value ? 'bg-amber-500 hover:bg-amber-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <main className="p-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-24">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-400"></div>
+          </div>
+        ) : visibleTickets.length === 0 ? (
+          <div className="text-center py-24 text-gray-400">
+            <ChefHat className="w-16 h-16 mx-auto mb-4" />
+            <p className="text-2xl font-semibold">All caught up</p>
+            <p className="mt-2">New tickets will appear here automatically</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 text-gray-900">
+            {visibleTickets.map((ticket) => (
+              <KitchenTicket
+                key={ticket.id}
+                ticket={ticket}
+                station={station}
+                now={now}
+                onBumpItems={(itemIds) => bumpItems.mutate(itemIds)}
+                isBumping={bumpItems.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default KitchenDisplay;
@@ -7,12 +7,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { User, Building, Lock, Mail, AlertTriangle, Trash2 } from 'lucide-react';
 import Sidebar from '@/components/Sidebar';
 import PhoneInput from '@/components/PhoneInput';
 import ContactSupportModal from '@/components/ContactSupportModal';
+import CancellationReasonsSettings from '@/components/CancellationReasonsSettings';
+import PickupSettings from '@/components/PickupSettings';
+import OrderNotesSettings from '@/components/OrderNotesSettings';
+import BillingSettings from '@/components/BillingSettings';
+import TaxSettings from '@/components/TaxSettings';
+import PrinterSettings from '@/components/PrinterSettings';
+import { getSupportedTimezones, isValidTimezone } from '@/lib/businessDay';
+
+const TIMEZONES = getSupportedTimezones();
+
+const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
 
 const Settings = () => {
   const { profile, user, refreshProfile } = useAuth();
@@ -30,6 +43,8 @@ const Settings = () => {
   const [restaurantDescription, setRestaurantDescription] = useState(restaurants?.[0]?.description || '');
   const [restaurantAddress, setRestaurantAddress] = useState(restaurants?.[0]?.address || '');
   const [restaurantPhone, setRestaurantPhone] = useState(restaurants?.[0]?.phone || '');
+  const [timezone, setTimezone] = useState(restaurants?.[0]?.timezone || 'Asia/Kolkata');
+  const [businessDayStartHour, setBusinessDayStartHour] = useState(String(restaurants?.[0]?.business_day_start_hour ?? 0));
 
   // Password form states
   const [newPassword, setNewPassword] = useState('');
@@ -82,6 +97,15 @@ const Settings = () => {
         return;
       }
 
+      if (!isValidTimezone(timezone)) {
+        toast({
+          title: "Invalid Time Zone",
+          description: "Enter a time zone such as Asia/Kolkata.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('restaurants')
         .update({
@@ -89,6 +113,8 @@ const Settings = () => {
           description: restaurantDescription,
           address: restaurantAddress,
           phone: restaurantPhone,
+          timezone,
+          business_day_start_hour: parseInt(businessDayStartHour),
         })
         .eq('id', restaurant.id);
 
@@ -287,6 +313,47 @@ const Settings = () => {
                 placeholder="Restaurant phone number"
               />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="restaurantTimezone">Time Zone</Label>
+                {TIMEZONES.length > 0 ? (
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger id="restaurantTimezone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMEZONES.map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id="restaurantTimezone"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    placeholder="e.g. Asia/Kolkata"
+                  />
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="businessDayStart">Business Day Starts At</Label>
+                <Select value={businessDayStartHour} onValueChange={setBusinessDayStartHour}>
+                  <SelectTrigger id="businessDayStart">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Orders placed before the business day starts count towards the previous day in
+              today's orders, reports and sales summaries.
+            </p>
             <Button type="submit" disabled={loading} className="bg-amber-500 hover:bg-amber-600">
               {loading ? 'Updating...' : 'Update Restaurant'}
             </Button>
@@ -431,6 +498,36 @@ const Settings = () => {
                         >
                           Password
                         </button>
+                        <button
+                          onClick={() => setActiveSection('orders')}
+                          className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeSection === 'orders' 
+                              ? 'bg-amber-500 text-white' 
+                              : 'text-gray-700 hover:bg-amber-50'
+                          }`}
+                        >
+                          Orders
+                        </button>
+                        <button
+                          onClick={() => setActiveSection('billing')}
+                          className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeSection === 'billing' 
+                              ? 'bg-amber-500 text-white' 
+                              : 'text-gray-700 hover:bg-amber-50'
+                          }`}
+                        >
+                          Billing
+                        </button>
+                        <button
+                          onClick={() => setActiveSection('printers')}
+                          className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                            activeSection === 'printers' 
+                              ? 'bg-amber-500 text-white' 
+                              : 'text-gray-700 hover:bg-amber-50'
+                          }`}
+                        >
+                          Printers
+                        </button>
                         <button
                           onClick={() => setActiveSection('support')}
                           className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -451,6 +548,20 @@ const Settings = () => {
                   {activeSection === 'profile' && renderProfileSection()}
                   {activeSection === 'restaurant' && renderRestaurantSection()}
                   {activeSection === 'password' && renderPasswordSection()}
+                  {activeSection === 'orders' && (
+                    <div className="space-y-6">
+                      <PickupSettings />
+                      <OrderNotesSettings />
+                      <CancellationReasonsSettings />
+                    </div>
+                  )}
+                  {activeSection === 'billing' && (
+                    <div className="space-y-6">
+                      <BillingSettings />
+                      <TaxSettings />
+                    </div>
+                  )}
+                  {activeSection === 'printers' && <PrinterSettings />}
                   {activeSection === 'support' && renderContactSection()}
                 </div>
               </div>
@@ -0,0 +1,96 @@
+/*
+  # Server-side Order Placement
+
+  1. Functions
+    - `place_order` - Validates a cart against the live menu and writes the
+      order and its items in a single transaction. Prices and totals are
+      always read from `menu_items`, never taken from the client.
+
+  2. Security
+    - Drop the open INSERT policies on `orders` and `order_items`; customers
+      can only create orders through `place_order`
+*/
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes)
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price)
+    VALUES (v_order.id, v_menu_item.id, v_quantity, v_menu_item.price, v_menu_item.price * v_quantity);
+
+    v_total := v_total + v_menu_item.price * v_quantity;
+  END LOOP;
+
+  UPDATE orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, text, text) TO anon, authenticated;
+
+-- Orders and their items may only be created through place_order
+DROP POLICY IF EXISTS "Anyone can insert orders" ON orders;
+DROP POLICY IF EXISTS "Anyone can insert order items" ON order_items;
@@ -0,0 +1,11 @@
+/*
+  # Realtime Order Feed
+
+  1. Realtime
+    - Publish `orders` and `order_items` changes so the dashboard can
+      subscribe instead of polling. Row level security still applies, so
+      owners only receive rows for their own restaurants.
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+ALTER PUBLICATION supabase_realtime ADD TABLE order_items;
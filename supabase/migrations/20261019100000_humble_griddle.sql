@@ -0,0 +1,73 @@
+/*
+  # Kitchen Display System
+
+  1. Enhancements
+    - `menu_items.station` - Kitchen station an item is routed to (grill, bar, tandoor, ...)
+    - `order_items.bumped_at` - When the kitchen marked a line item as done
+
+  2. Functions
+    - `bump_order_items` - Bumps line items and moves their orders along:
+      the first bump starts preparation, the last one marks the order ready
+
+  3. Security
+    - Restaurant owners can update order items of their own restaurants
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_items' AND column_name = 'station'
+  ) THEN
+    ALTER TABLE menu_items ADD COLUMN station text; -- NULL means the default kitchen line
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'bumped_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN bumped_at timestamptz;
+  END IF;
+END $$;
+
+CREATE POLICY "Users can update order items of own restaurants" ON order_items
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      JOIN restaurants ON restaurants.id = orders.restaurant_id
+      WHERE orders.id = order_items.order_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION bump_order_items(p_order_item_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    WITH bumped AS (
+      UPDATE order_items
+      SET bumped_at = now()
+      WHERE id = ANY(p_order_item_ids)
+      AND bumped_at IS NULL
+      RETURNING order_id
+    )
+    SELECT DISTINCT order_id FROM bumped
+  LOOP
+    UPDATE orders SET status = 'confirmed' WHERE id = v_order_id AND status = 'pending';
+    UPDATE orders SET status = 'preparing' WHERE id = v_order_id AND status = 'confirmed';
+
+    IF NOT EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = v_order_id
+      AND bumped_at IS NULL
+    ) THEN
+      UPDATE orders SET status = 'ready' WHERE id = v_order_id AND status = 'preparing';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE INDEX IF NOT EXISTS idx_menu_items_station ON menu_items(restaurant_id, station);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
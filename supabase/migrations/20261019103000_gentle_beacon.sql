@@ -0,0 +1,183 @@
+/*
+  # Diner Order Tracking
+
+  1. Enhancements
+    - `orders.session_id` - Identifies the diner's table session that placed the order
+    - `orders.estimated_ready_at` - Quoted time the order should be ready
+    - `orders.cancellation_reason` - Reason shown to the diner when staff reject an order
+
+  2. Functions
+    - `place_order` - Now records the diner session and a quoted ready time
+    - `get_session_orders` - Lets a diner read the orders of their own session.
+      The session id is an unguessable uuid held only by the diner's device.
+
+  3. Realtime
+    - Status changes are broadcast on the `table-session:<session_id>` topic so
+      diners get live updates without being able to read the `orders` table
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'session_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN session_id uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'estimated_ready_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN estimated_ready_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancellation_reason'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancellation_reason text;
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS place_order(uuid, text, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_prep_minutes integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes, session_id)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes, p_session_id)
+  RETURNING * INTO v_order;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price)
+    VALUES (v_order.id, v_menu_item.id, v_quantity, v_menu_item.price, v_menu_item.price * v_quantity);
+
+    v_total := v_total + v_menu_item.price * v_quantity;
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  UPDATE orders
+  SET
+    total_amount = v_total,
+    estimated_ready_at = now() + make_interval(mins => v_prep_minutes)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, text, text, uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_session_orders(p_session_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  total_amount numeric,
+  created_at timestamptz,
+  estimated_ready_at timestamptz,
+  cancellation_reason text,
+  items jsonb
+) AS $$
+  SELECT
+    o.id,
+    o.status,
+    o.total_amount,
+    o.created_at,
+    o.estimated_ready_at,
+    o.cancellation_reason,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('name', mi.name, 'quantity', oi.quantity))
+        FROM order_items oi
+        JOIN menu_items mi ON mi.id = oi.menu_item_id
+        WHERE oi.order_id = o.id
+      ),
+      '[]'::jsonb
+    ) AS items
+  FROM orders o
+  WHERE o.session_id = p_session_id
+  ORDER BY o.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_session_orders(uuid) TO anon, authenticated;
+
+-- Push status changes to the diner's session channel
+CREATE OR REPLACE FUNCTION broadcast_session_order_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('id', NEW.id, 'status', NEW.status),
+    'order_updated',
+    'table-session:' || NEW.session_id::text,
+    false
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER broadcast_session_order_update
+  AFTER UPDATE ON orders
+  FOR EACH ROW
+  WHEN (NEW.session_id IS NOT NULL)
+  EXECUTE FUNCTION broadcast_session_order_update();
+
+CREATE INDEX IF NOT EXISTS idx_orders_session_id ON orders(session_id);
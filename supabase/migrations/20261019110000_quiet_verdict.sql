@@ -0,0 +1,201 @@
+/*
+  # Order Rejection Reasons
+
+  1. New Tables
+    - `cancellation_reasons` - Configurable reason codes staff pick from when rejecting an order
+
+  2. Enhancements
+    - `orders.cancellation_reason_id` - Reason code chosen for a cancelled order
+    - `order_notifications.notification_type` now allows `order_cancelled`
+
+  3. Functions
+    - `reject_order` - Cancels an order with a reason and notifies the customer
+    - `get_cancellation_report_by_reason` / `get_cancellation_report_by_item` -
+      Cancellation breakdowns for a date range
+
+  4. Security
+    - Enable RLS on `cancellation_reasons`; owners manage their own reasons
+*/
+
+CREATE TABLE IF NOT EXISTS cancellation_reasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  sort_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(restaurant_id, label)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancellation_reason_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancellation_reason_id uuid REFERENCES cancellation_reasons(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE order_notifications DROP CONSTRAINT IF EXISTS order_notifications_notification_type_check;
+ALTER TABLE order_notifications ADD CONSTRAINT order_notifications_notification_type_check
+  CHECK (notification_type IN ('order_placed', 'order_confirmed', 'order_ready', 'order_served', 'order_cancelled'));
+
+-- Create default cancellation reasons function
+CREATE OR REPLACE FUNCTION create_default_cancellation_reasons(restaurant_uuid uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO cancellation_reasons (restaurant_id, label, sort_order)
+  VALUES
+    (restaurant_uuid, 'Item out of stock', 1),
+    (restaurant_uuid, 'Kitchen too busy', 2),
+    (restaurant_uuid, 'Restaurant closing', 3),
+    (restaurant_uuid, 'Duplicate order', 4),
+    (restaurant_uuid, 'Customer request', 5)
+  ON CONFLICT (restaurant_id, label) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_default_cancellation_reasons()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_default_cancellation_reasons(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER on_restaurant_created_add_cancellation_reasons
+  AFTER INSERT ON restaurants
+  FOR EACH ROW EXECUTE FUNCTION add_default_cancellation_reasons();
+
+-- Seed reasons for restaurants created before this migration
+SELECT create_default_cancellation_reasons(id) FROM restaurants;
+
+ALTER TABLE cancellation_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage cancellation reasons"
+  ON cancellation_reasons
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = cancellation_reasons.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION reject_order(
+  p_order_id uuid,
+  p_reason_id uuid DEFAULT NULL,
+  p_reason_text text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_label text;
+  v_details text := NULLIF(trim(p_reason_text), '');
+  v_message text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_reason_id IS NOT NULL THEN
+    SELECT label INTO v_label
+    FROM cancellation_reasons
+    WHERE id = p_reason_id
+    AND restaurant_id = v_order.restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown cancellation reason';
+    END IF;
+  END IF;
+
+  IF v_label IS NULL AND v_details IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reject an order';
+  END IF;
+
+  v_message := CASE
+    WHEN v_label IS NOT NULL AND v_details IS NOT NULL THEN v_label || ': ' || v_details
+    ELSE COALESCE(v_label, v_details)
+  END;
+
+  UPDATE orders
+  SET
+    status = 'cancelled',
+    cancellation_reason = v_message,
+    cancellation_reason_id = p_reason_id
+  WHERE id = p_order_id
+  AND status NOT IN ('served', 'cancelled')
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order can no longer be rejected';
+  END IF;
+
+  INSERT INTO order_notifications (restaurant_id, order_id, notification_type, recipient_type, message)
+  VALUES (v_order.restaurant_id, v_order.id, 'order_cancelled', 'customer', v_message);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_cancellation_report_by_reason(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  reason text,
+  order_count bigint,
+  lost_revenue numeric
+) AS $$
+  SELECT
+    COALESCE(cr.label, CASE WHEN o.cancellation_reason IS NULL THEN 'No reason given' ELSE 'Other' END) AS reason,
+    COUNT(o.id) AS order_count,
+    COALESCE(SUM(o.total_amount), 0) AS lost_revenue
+  FROM orders o
+  LEFT JOIN cancellation_reasons cr ON cr.id = o.cancellation_reason_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status = 'cancelled'
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  GROUP BY 1
+  ORDER BY order_count DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_cancellation_report_by_item(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  menu_item_id uuid,
+  item_name text,
+  order_count bigint,
+  quantity bigint,
+  lost_revenue numeric
+) AS $$
+  SELECT
+    mi.id AS menu_item_id,
+    mi.name AS item_name,
+    COUNT(DISTINCT o.id) AS order_count,
+    SUM(oi.quantity) AS quantity,
+    COALESCE(SUM(oi.total_price), 0) AS lost_revenue
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status = 'cancelled'
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  GROUP BY mi.id, mi.name
+  ORDER BY order_count DESC, quantity DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_reasons_restaurant_id ON cancellation_reasons(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_orders_cancellation_reason_id ON orders(cancellation_reason_id);
+CREATE INDEX IF NOT EXISTS idx_orders_restaurant_status_created ON orders(restaurant_id, status, created_at);
@@ -0,0 +1,157 @@
+/*
+  # Order Status State Machine
+
+  1. New Tables
+    - `order_status_events` - One row per status change: from/to status, when, and who made it
+
+  2. Enhancements
+    - `orders.confirmed_at`, `preparing_at`, `ready_at`, `served_at`, `cancelled_at` - Per-stage timestamps
+    - `orders.preparation_time` is now filled in automatically (minutes from preparing to ready)
+
+  3. Functions
+    - `is_valid_order_transition` - The legal status transitions:
+        pending   -> confirmed | cancelled
+        confirmed -> preparing | cancelled
+        preparing -> ready | cancelled
+        ready     -> served | cancelled
+      `served` and `cancelled` are final
+    - `enforce_order_status_transition` - Rejects illegal transitions and stamps the stage timestamp
+    - `log_order_status_event` - Appends to `order_status_events`
+
+  4. Security
+    - Enable RLS on `order_status_events`; owners can read events of their own restaurants.
+      Events are only written by the trigger.
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for diners and system changes
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'confirmed_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN confirmed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'preparing_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN preparing_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'ready_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN ready_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'served_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN served_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancelled_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancelled_at timestamptz;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION is_valid_order_transition(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN p_to IN ('ready', 'cancelled')
+    WHEN 'ready' THEN p_to IN ('served', 'cancelled')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_valid_order_transition(COALESCE(OLD.status, 'pending'), NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', COALESCE(OLD.status, 'pending'), NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN NEW.confirmed_at := now();
+    WHEN 'preparing' THEN NEW.preparing_at := now();
+    WHEN 'ready' THEN
+      NEW.ready_at := now();
+      NEW.preparation_time := ROUND(EXTRACT(EPOCH FROM (NEW.ready_at - NEW.preparing_at)) / 60);
+    WHEN 'served' THEN NEW.served_at := now();
+    WHEN 'cancelled' THEN NEW.cancelled_at := now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Runs as the definer so diners placing orders and staff updating them can
+-- both append events without direct write access to the log
+CREATE OR REPLACE FUNCTION log_order_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_events (order_id, restaurant_id, from_status, to_status, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.restaurant_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    COALESCE(NEW.status, 'pending'),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_order_status_event
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION log_order_status_event();
+
+ALTER TABLE order_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view order status events"
+  ON order_status_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = order_status_events.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_status_events_order_id ON order_status_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_events_restaurant_id ON order_status_events(restaurant_id);
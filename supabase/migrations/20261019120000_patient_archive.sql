@@ -0,0 +1,26 @@
+/*
+  # Order History Search
+
+  1. Enhancements
+    - `orders.search_vector` - Generated full-text index over customer name and notes
+
+  2. Indexes
+    - GIN index on `orders.search_vector`
+    - `orders(restaurant_id, created_at)` for date-range paging through the archive
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (
+        to_tsvector('simple', COALESCE(customer_name, '') || ' ' || COALESCE(notes, ''))
+      ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_search_vector ON orders USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_orders_restaurant_created ON orders(restaurant_id, created_at DESC);
@@ -0,0 +1,246 @@
+/*
+  # Staff Order Entry
+
+  1. Enhancements
+    - `orders.customer_phone` - Contact number for phone orders
+
+  2. Functions
+    - `insert_order_lines` - Shared line-item writer used by the order RPCs. Validates
+      items and modifiers, stores special instructions and modifier price adjustments.
+      Internal only: not executable by API roles.
+    - `place_order` - Now writes its lines through `insert_order_lines`
+    - `place_staff_order` - Lets restaurant owners and active staff enter table (`staff`)
+      and phone (`phone`) orders. The order is assigned to the calling staff member.
+
+  3. Security
+    - Drop "Anyone can insert order modifiers"; modifiers are written by the order RPCs
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'customer_phone'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN customer_phone text;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS "Anyone can insert order modifiers" ON order_item_modifiers;
+
+-- p_items: [{ menu_item_id, quantity, special_instructions?, modifier_ids? }]
+-- Returns the longest prep time among the items, in minutes
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- A modifier applies when it is linked to the item or to the item's category
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      EXISTS (
+        SELECT 1 FROM menu_item_modifiers mim
+        WHERE mim.menu_item_id = v_menu_item.id
+        AND mim.modifier_id = mm.id
+      )
+      OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    v_unit_price := v_menu_item.price + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      NULLIF(trim(v_item->>'special_instructions'), '')
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION insert_order_lines(uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_prep_minutes integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes, session_id)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes, p_session_id)
+  RETURNING * INTO v_order;
+
+  v_prep_minutes := insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id),
+    estimated_ready_at = now() + make_interval(mins => v_prep_minutes)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION place_staff_order(
+  p_restaurant_id uuid,
+  p_order_source text,
+  p_items jsonb,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_staff_id uuid;
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_prep_minutes integer;
+BEGIN
+  SELECT id INTO v_staff_id
+  FROM restaurant_staff
+  WHERE restaurant_id = p_restaurant_id
+  AND user_id = auth.uid()
+  AND is_active = true;
+
+  IF v_staff_id IS NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only restaurant staff can enter orders';
+  END IF;
+
+  IF p_order_source = 'staff' THEN
+    SELECT * INTO v_table
+    FROM tables
+    WHERE restaurant_id = p_restaurant_id
+    AND table_number = p_table_number
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+    END IF;
+  ELSIF p_order_source = 'phone' THEN
+    IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+      RAISE EXCEPTION 'Phone orders need the caller''s name and phone number';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unsupported order source %', p_order_source;
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, table_id, table_number, customer_name, customer_phone,
+    status, total_amount, notes, order_source, assigned_staff_id
+  )
+  VALUES (
+    p_restaurant_id, v_table.id, v_table.table_number, NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''), 'pending', 0, p_notes, p_order_source, v_staff_id
+  )
+  RETURNING * INTO v_order;
+
+  v_prep_minutes := insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id),
+    estimated_ready_at = now() + make_interval(mins => v_prep_minutes)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_staff_order(uuid, text, jsonb, text, text, text, text) TO authenticated;
@@ -0,0 +1,304 @@
+/*
+  # Amend Open Orders
+
+  1. New Tables
+    - `order_item_voids` - Audit log of voided line items: what, how much, why and by whom
+
+  2. Enhancements
+    - `order_items.voided_at`, `voided_by`, `void_reason` - Voided lines stay on the order
+      for the record but no longer count towards the total
+    - A `ready` order can go back to `preparing` when items are added to it. `preparing_at`
+      keeps the first start so `preparation_time` still covers the whole order.
+
+  3. Functions
+    - `is_restaurant_staff` - Whether the caller owns or works at a restaurant
+    - `recalculate_order_total` - Re-sums the non-voided lines of an order
+    - `add_order_items` - Appends lines to an order that has not been served
+    - `void_order_item` - Voids a line with a mandatory reason
+    - `bump_order_items` / `get_session_orders` - Ignore voided lines
+
+  4. Security
+    - Enable RLS on `order_item_voids`; owners can review voids of their own restaurants.
+      Voids are only written by `void_order_item`.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'voided_at'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN voided_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'voided_by'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'void_reason'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN void_reason text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS order_item_voids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  item_name text NOT NULL,
+  quantity integer NOT NULL,
+  amount numeric(10,2) NOT NULL,
+  reason text NOT NULL,
+  voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION is_valid_order_transition(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN p_to IN ('ready', 'cancelled')
+    WHEN 'ready' THEN p_to IN ('served', 'preparing', 'cancelled')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_valid_order_transition(COALESCE(OLD.status, 'pending'), NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', COALESCE(OLD.status, 'pending'), NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'confirmed' THEN NEW.confirmed_at := now();
+    WHEN 'preparing' THEN NEW.preparing_at := COALESCE(OLD.preparing_at, now());
+    WHEN 'ready' THEN
+      NEW.ready_at := now();
+      NEW.preparation_time := ROUND(EXTRACT(EPOCH FROM (NEW.ready_at - NEW.preparing_at)) / 60);
+    WHEN 'served' THEN NEW.served_at := now();
+    WHEN 'cancelled' THEN NEW.cancelled_at := now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION is_restaurant_staff(p_restaurant_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM restaurant_staff
+    WHERE restaurant_id = p_restaurant_id
+    AND user_id = auth.uid()
+    AND is_active = true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION recalculate_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+DECLARE
+  v_total numeric(10,2);
+BEGIN
+  SELECT COALESCE(SUM(total_price), 0) INTO v_total
+  FROM order_items
+  WHERE order_id = p_order_id
+  AND voided_at IS NULL;
+
+  UPDATE orders SET total_amount = v_total WHERE id = p_order_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION recalculate_order_total(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_order_items(p_order_id uuid, p_items jsonb)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be added to open orders';
+  END IF;
+
+  PERFORM insert_order_lines(v_order.id, v_order.restaurant_id, p_items);
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- New lines need cooking, so a finished order goes back to the kitchen
+  UPDATE orders SET status = 'preparing' WHERE id = v_order.id AND status = 'ready';
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION add_order_items(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION void_order_item(p_order_item_id uuid, p_reason text)
+RETURNS orders AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an item';
+  END IF;
+
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be voided on open orders';
+  END IF;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Item has already been voided';
+  END IF;
+
+  UPDATE order_items
+  SET
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = v_reason
+  WHERE id = v_item.id;
+
+  INSERT INTO order_item_voids (restaurant_id, order_id, order_item_id, item_name, quantity, amount, reason, voided_by)
+  SELECT v_order.restaurant_id, v_order.id, v_item.id, mi.name, v_item.quantity, v_item.total_price, v_reason, auth.uid()
+  FROM menu_items mi
+  WHERE mi.id = v_item.menu_item_id;
+
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- Voiding the last dish still cooking finishes the order
+  IF v_order.status = 'preparing' AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+    AND bumped_at IS NULL
+  ) AND EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+  ) THEN
+    UPDATE orders SET status = 'ready' WHERE id = v_order.id;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION void_order_item(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION bump_order_items(p_order_item_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    WITH bumped AS (
+      UPDATE order_items
+      SET bumped_at = now()
+      WHERE id = ANY(p_order_item_ids)
+      AND bumped_at IS NULL
+      AND voided_at IS NULL
+      RETURNING order_id
+    )
+    SELECT DISTINCT order_id FROM bumped
+  LOOP
+    UPDATE orders SET status = 'confirmed' WHERE id = v_order_id AND status = 'pending';
+    UPDATE orders SET status = 'preparing' WHERE id = v_order_id AND status = 'confirmed';
+
+    IF NOT EXISTS (
+      SELECT 1 FROM order_items
+      WHERE order_id = v_order_id
+      AND bumped_at IS NULL
+      AND voided_at IS NULL
+    ) THEN
+      UPDATE orders SET status = 'ready' WHERE id = v_order_id AND status = 'preparing';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_session_orders(p_session_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  total_amount numeric,
+  created_at timestamptz,
+  estimated_ready_at timestamptz,
+  cancellation_reason text,
+  items jsonb
+) AS $$
+  SELECT
+    o.id,
+    o.status,
+    o.total_amount,
+    o.created_at,
+    o.estimated_ready_at,
+    o.cancellation_reason,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('name', mi.name, 'quantity', oi.quantity))
+        FROM order_items oi
+        JOIN menu_items mi ON mi.id = oi.menu_item_id
+        WHERE oi.order_id = o.id
+        AND oi.voided_at IS NULL
+      ),
+      '[]'::jsonb
+    ) AS items
+  FROM orders o
+  WHERE o.session_id = p_session_id
+  ORDER BY o.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE order_item_voids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view item voids"
+  ON order_item_voids
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = order_item_voids.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_order_item_voids_restaurant_created ON order_item_voids(restaurant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_item_voids_order_id ON order_item_voids(order_id);
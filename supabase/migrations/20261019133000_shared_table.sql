@@ -0,0 +1,534 @@
+/*
+  # Table Tabs and Split Bills
+
+  1. New Tables
+    - `table_tabs` - One running bill per table session. Every order placed in the session
+      (or by staff for the table while the tab is open) is attached to it.
+    - `tab_shares` - The parts a tab is split into; each is settled on its own
+    - `tab_share_items` - Which line items (or portions of them) a share pays for
+
+  2. Enhancements
+    - `orders.tab_id` - Tab the order belongs to, assigned automatically on insert
+    - `order_items.seat_number` - Seat the item was ordered for, used by the seat split
+
+  3. Functions
+    - `get_tab_total` - Sum of the tab's non-cancelled orders
+    - `split_tab` - Splits what is still owed evenly, by item or by seat.
+      Once a share is settled only an even split of the remainder is possible.
+    - `settle_tab_share` - Marks a share paid and closes the tab once everything is paid
+    - `request_tab_bill` / `get_session_tab` - Let the diner ask for and view their bill
+    - `insert_order_lines` - Now stores `seat_number`
+
+  4. Security
+    - Enable RLS on the new tables; owners can read their own tabs.
+      Tabs and shares are only written through the functions above.
+*/
+
+CREATE TABLE IF NOT EXISTS table_tabs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  table_id uuid REFERENCES tables(id) ON DELETE SET NULL,
+  table_number text,
+  session_id uuid,
+  status text DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  split_mode text CHECK (split_mode IN ('even', 'item', 'seat')),
+  guest_count integer,
+  bill_requested_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS tab_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tab_id uuid NOT NULL REFERENCES table_tabs(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  amount numeric(10,2) NOT NULL DEFAULT 0,
+  status text DEFAULT 'open' CHECK (status IN ('open', 'settled')),
+  payment_method text CHECK (payment_method IN ('cash', 'card', 'upi', 'other')),
+  settled_at timestamptz,
+  settled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tab_share_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  share_id uuid NOT NULL REFERENCES tab_shares(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'tab_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN tab_id uuid REFERENCES table_tabs(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'seat_number'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN seat_number integer CHECK (seat_number > 0);
+  END IF;
+END $$;
+
+-- Diner orders join their session's tab; staff orders join the table's open tab
+CREATE OR REPLACE FUNCTION assign_order_tab()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tab_id uuid;
+BEGIN
+  IF NEW.tab_id IS NOT NULL OR NEW.table_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.session_id IS NOT NULL THEN
+    SELECT id INTO v_tab_id
+    FROM table_tabs
+    WHERE restaurant_id = NEW.restaurant_id
+    AND session_id = NEW.session_id
+    AND status = 'open';
+  ELSE
+    SELECT id INTO v_tab_id
+    FROM table_tabs
+    WHERE restaurant_id = NEW.restaurant_id
+    AND table_id = NEW.table_id
+    AND status = 'open'
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_tab_id IS NULL THEN
+    INSERT INTO table_tabs (restaurant_id, table_id, table_number, session_id)
+    VALUES (NEW.restaurant_id, NEW.table_id, NEW.table_number, NEW.session_id)
+    RETURNING id INTO v_tab_id;
+  END IF;
+
+  NEW.tab_id := v_tab_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_order_tab
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION assign_order_tab();
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- A modifier applies when it is linked to the item or to the item's category
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      EXISTS (
+        SELECT 1 FROM menu_item_modifiers mim
+        WHERE mim.menu_item_id = v_menu_item.id
+        AND mim.modifier_id = mm.id
+      )
+      OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    v_unit_price := v_menu_item.price + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      NULLIF(trim(v_item->>'special_instructions'), ''),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_tab_total(p_tab_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(total_amount), 0)
+  FROM orders
+  WHERE tab_id = p_tab_id
+  AND status <> 'cancelled';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION split_tab(
+  p_tab_id uuid,
+  p_mode text,
+  p_guest_count integer DEFAULT 1,
+  p_assignments jsonb DEFAULT NULL -- item mode: [{ order_item_id, shares: [1, 2] }]
+)
+RETURNS SETOF tab_shares AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_settled numeric(10,2);
+  v_remaining numeric(10,2);
+  v_share_ids uuid[] := '{}';
+  v_share_id uuid;
+  v_i integer;
+  v_amount numeric(10,2);
+  v_assignment jsonb;
+  v_item order_items%ROWTYPE;
+  v_targets integer[];
+  v_portion numeric(10,2);
+  v_seat record;
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'Tab is already closed';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_settled
+  FROM tab_shares
+  WHERE tab_id = p_tab_id
+  AND status = 'settled';
+
+  IF v_settled > 0 AND p_mode <> 'even' THEN
+    RAISE EXCEPTION 'Part of this tab is already paid; only an even split of the rest is possible';
+  END IF;
+
+  v_remaining := get_tab_total(p_tab_id) - v_settled;
+
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to pay on this tab';
+  END IF;
+
+  DELETE FROM tab_shares WHERE tab_id = p_tab_id AND status = 'open';
+
+  IF p_mode = 'even' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    v_amount := ROUND(v_remaining / p_guest_count, 2);
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label, amount)
+      VALUES (
+        p_tab_id,
+        'Guest ' || v_i,
+        -- The last guest absorbs the rounding difference
+        CASE WHEN v_i = p_guest_count THEN v_remaining - v_amount * (p_guest_count - 1) ELSE v_amount END
+      );
+    END LOOP;
+
+  ELSIF p_mode = 'item' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, 'Guest ' || v_i)
+      RETURNING id INTO v_share_id;
+      v_share_ids := v_share_ids || v_share_id;
+    END LOOP;
+
+    FOR v_assignment IN SELECT * FROM jsonb_array_elements(COALESCE(p_assignments, '[]'::jsonb))
+    LOOP
+      SELECT oi.* INTO v_item
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.id = (v_assignment->>'order_item_id')::uuid
+      AND o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item % is not on this tab', v_assignment->>'order_item_id';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM tab_share_items
+        WHERE order_item_id = v_item.id
+        AND share_id = ANY(v_share_ids)
+      ) THEN
+        RAISE EXCEPTION 'Item % is assigned more than once', v_item.id;
+      END IF;
+
+      SELECT array_agg(DISTINCT value::integer ORDER BY value::integer)
+      INTO v_targets
+      FROM jsonb_array_elements_text(v_assignment->'shares');
+
+      IF v_targets IS NULL OR v_targets[1] < 1 OR v_targets[cardinality(v_targets)] > p_guest_count THEN
+        RAISE EXCEPTION 'Every item must be assigned to at least one guest';
+      END IF;
+
+      v_portion := ROUND(v_item.total_price / cardinality(v_targets), 2);
+
+      FOR v_i IN 1..cardinality(v_targets) LOOP
+        INSERT INTO tab_share_items (share_id, order_item_id, amount)
+        VALUES (
+          v_share_ids[v_targets[v_i]],
+          v_item.id,
+          CASE WHEN v_i = cardinality(v_targets)
+            THEN v_item.total_price - v_portion * (cardinality(v_targets) - 1)
+            ELSE v_portion
+          END
+        );
+      END LOOP;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM tab_share_items tsi
+        WHERE tsi.order_item_id = oi.id
+        AND tsi.share_id = ANY(v_share_ids)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Every item on the tab must be assigned to a guest';
+    END IF;
+
+    UPDATE tab_shares ts
+    SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = ts.id)
+    WHERE ts.id = ANY(v_share_ids);
+
+  ELSIF p_mode = 'seat' THEN
+    FOR v_seat IN
+      SELECT oi.seat_number, array_agg(oi.id) AS item_ids
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      GROUP BY oi.seat_number
+      ORDER BY oi.seat_number NULLS LAST
+    LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, COALESCE('Seat ' || v_seat.seat_number, 'Shared'))
+      RETURNING id INTO v_share_id;
+
+      INSERT INTO tab_share_items (share_id, order_item_id, amount)
+      SELECT v_share_id, id, total_price
+      FROM order_items
+      WHERE id = ANY(v_seat.item_ids);
+
+      UPDATE tab_shares
+      SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = v_share_id)
+      WHERE id = v_share_id;
+    END LOOP;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown split mode %', p_mode;
+  END IF;
+
+  UPDATE table_tabs
+  SET
+    split_mode = p_mode,
+    guest_count = CASE WHEN p_mode = 'seat' THEN NULL ELSE p_guest_count END
+  WHERE id = p_tab_id;
+
+  RETURN QUERY SELECT * FROM tab_shares WHERE tab_id = p_tab_id ORDER BY created_at, label;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION split_tab(uuid, text, integer, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION settle_tab_share(p_share_id uuid, p_payment_method text)
+RETURNS table_tabs AS $$
+DECLARE
+  v_share tab_shares%ROWTYPE;
+  v_tab table_tabs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_share FROM tab_shares WHERE id = p_share_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+
+  SELECT * INTO v_tab FROM table_tabs WHERE id = v_share.tab_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+
+  IF v_share.status = 'settled' THEN
+    RAISE EXCEPTION 'This share has already been paid';
+  END IF;
+
+  UPDATE tab_shares
+  SET
+    status = 'settled',
+    payment_method = p_payment_method,
+    settled_at = now(),
+    settled_by = auth.uid()
+  WHERE id = p_share_id;
+
+  -- The tab closes once every share is paid and the shares cover the whole tab
+  IF NOT EXISTS (
+    SELECT 1 FROM tab_shares
+    WHERE tab_id = v_tab.id
+    AND status = 'open'
+  ) AND (
+    SELECT COALESCE(SUM(amount), 0) FROM tab_shares WHERE tab_id = v_tab.id
+  ) >= get_tab_total(v_tab.id) THEN
+    UPDATE table_tabs
+    SET status = 'closed', closed_at = now()
+    WHERE id = v_tab.id;
+  END IF;
+
+  SELECT * INTO v_tab FROM table_tabs WHERE id = v_share.tab_id;
+  RETURN v_tab;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION settle_tab_share(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION request_tab_bill(p_session_id uuid)
+RETURNS void AS $$
+  UPDATE table_tabs
+  SET bill_requested_at = COALESCE(bill_requested_at, now())
+  WHERE session_id = p_session_id
+  AND status = 'open';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION request_tab_bill(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_session_tab(p_session_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'total', get_tab_total(t.id),
+    'bill_requested_at', t.bill_requested_at,
+    'shares', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', s.id, 'label', s.label, 'amount', s.amount, 'status', s.status)
+          ORDER BY s.created_at, s.label
+        )
+        FROM tab_shares s
+        WHERE s.tab_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM table_tabs t
+  WHERE t.session_id = p_session_id
+  ORDER BY t.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_session_tab(uuid) TO anon, authenticated;
+
+ALTER TABLE table_tabs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tab_share_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view table tabs"
+  ON table_tabs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = table_tabs.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can view tab shares"
+  ON tab_shares
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM table_tabs
+      JOIN restaurants ON restaurants.id = table_tabs.restaurant_id
+      WHERE table_tabs.id = tab_shares.tab_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can view tab share items"
+  ON tab_share_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tab_shares
+      JOIN table_tabs ON table_tabs.id = tab_shares.tab_id
+      JOIN restaurants ON restaurants.id = table_tabs.restaurant_id
+      WHERE tab_shares.id = tab_share_items.share_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_table_tabs_open_session ON table_tabs(session_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_table_tabs_restaurant_status ON table_tabs(restaurant_id, status);
+CREATE INDEX IF NOT EXISTS idx_orders_tab_id ON orders(tab_id);
+CREATE INDEX IF NOT EXISTS idx_tab_shares_tab_id ON tab_shares(tab_id);
+CREATE INDEX IF NOT EXISTS idx_tab_share_items_share_id ON tab_share_items(share_id);
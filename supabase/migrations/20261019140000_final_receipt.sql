@@ -0,0 +1,617 @@
+/*
+  # Bills and Receipts
+
+  1. Enhancements
+    - `restaurants.tax_label` / `tax_rate` - Tax applied to every bill
+    - `restaurants.service_charge_rate` - Optional service charge, as a percentage
+    - `restaurants.last_bill_number` - Counter behind sequential bill numbers
+
+  2. New Tables
+    - `bills` - The bill issued for a table tab, with its totals frozen at the time it was generated
+    - `bill_lines` - The items on a bill
+    - `bill_tax_lines` - Tax breakdown of a bill
+
+  3. Functions
+    - `generate_bill` - Issues a tab's bill, or recalculates it while the tab is still open.
+      Bill numbers are allocated once per tab and never reused.
+    - `get_tab_total` - Now returns the bill total once a bill exists
+    - `split_tab` - Item and seat shares now include their part of the bill's charges
+    - `settle_tab_share` - Refuses payment against an out-of-date bill and marks the bill paid
+      when the tab closes
+    - `get_session_tab` - Includes the bill so diners can see and download it
+
+  4. Security
+    - Enable RLS on the new tables; owners can read their own bills.
+      Bills are only written through `generate_bill`.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'tax_label'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN tax_label text DEFAULT 'Tax';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'tax_rate'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN tax_rate numeric(5,2) DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'service_charge_rate'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN service_charge_rate numeric(5,2) DEFAULT 0 CHECK (service_charge_rate >= 0 AND service_charge_rate <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'last_bill_number'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN last_bill_number integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  tab_id uuid NOT NULL UNIQUE REFERENCES table_tabs(id) ON DELETE CASCADE,
+  bill_number integer NOT NULL,
+  table_number text,
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  discount_amount numeric(10,2) NOT NULL DEFAULT 0,
+  discount_reason text,
+  service_charge_rate numeric(5,2) NOT NULL DEFAULT 0,
+  service_charge_amount numeric(10,2) NOT NULL DEFAULT 0,
+  tax_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total_amount numeric(10,2) NOT NULL DEFAULT 0,
+  status text DEFAULT 'open' CHECK (status IN ('open', 'paid')),
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  UNIQUE (restaurant_id, bill_number)
+);
+
+CREATE TABLE IF NOT EXISTS bill_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  position integer NOT NULL,
+  name text NOT NULL,
+  quantity integer NOT NULL,
+  unit_price numeric(10,2) NOT NULL,
+  total_price numeric(10,2) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS bill_tax_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  rate numeric(5,2) NOT NULL,
+  taxable_amount numeric(10,2) NOT NULL,
+  amount numeric(10,2) NOT NULL
+);
+
+CREATE OR REPLACE FUNCTION get_tab_total(p_tab_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(
+    (SELECT total_amount FROM bills WHERE tab_id = p_tab_id),
+    (
+      SELECT COALESCE(SUM(total_amount), 0)
+      FROM orders
+      WHERE tab_id = p_tab_id
+      AND status <> 'cancelled'
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION generate_bill(
+  p_tab_id uuid,
+  p_discount_amount numeric DEFAULT 0,
+  p_discount_reason text DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_bill bills%ROWTYPE;
+  v_bill_number integer;
+  v_subtotal numeric(10,2);
+  v_discount numeric(10,2);
+  v_service numeric(10,2);
+  v_taxable numeric(10,2);
+  v_tax numeric(10,2);
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'This tab is closed and its bill is final';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.total_price), 0) INTO v_subtotal
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to bill on this tab';
+  END IF;
+
+  v_discount := ROUND(COALESCE(p_discount_amount, 0), 2);
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the subtotal';
+  END IF;
+
+  IF v_discount > 0 AND NULLIF(trim(p_discount_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for discounts';
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = v_tab.restaurant_id;
+
+  -- Service charge is on the discounted amount; tax is charged on both
+  v_service := ROUND((v_subtotal - v_discount) * COALESCE(v_restaurant.service_charge_rate, 0) / 100, 2);
+  v_taxable := v_subtotal - v_discount + v_service;
+  v_tax := ROUND(v_taxable * COALESCE(v_restaurant.tax_rate, 0) / 100, 2);
+
+  SELECT * INTO v_bill FROM bills WHERE tab_id = p_tab_id;
+
+  IF NOT FOUND THEN
+    UPDATE restaurants
+    SET last_bill_number = last_bill_number + 1
+    WHERE id = v_tab.restaurant_id
+    RETURNING last_bill_number INTO v_bill_number;
+
+    INSERT INTO bills (restaurant_id, tab_id, bill_number, table_number, issued_by)
+    VALUES (v_tab.restaurant_id, p_tab_id, v_bill_number, v_tab.table_number, auth.uid())
+    RETURNING * INTO v_bill;
+  END IF;
+
+  DELETE FROM bill_lines WHERE bill_id = v_bill.id;
+  DELETE FROM bill_tax_lines WHERE bill_id = v_bill.id;
+
+  INSERT INTO bill_lines (bill_id, order_item_id, position, name, quantity, unit_price, total_price)
+  SELECT
+    v_bill.id,
+    oi.id,
+    ROW_NUMBER() OVER (ORDER BY o.created_at, oi.id),
+    mi.name || COALESCE(
+      ' (' || (
+        SELECT string_agg(mm.name, ', ' ORDER BY mm.name)
+        FROM order_item_modifiers oim
+        JOIN menu_modifiers mm ON mm.id = oim.modifier_id
+        WHERE oim.order_item_id = oi.id
+      ) || ')',
+      ''
+    ),
+    oi.quantity,
+    oi.unit_price,
+    oi.total_price
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  IF v_tax > 0 THEN
+    INSERT INTO bill_tax_lines (bill_id, label, rate, taxable_amount, amount)
+    VALUES (v_bill.id, COALESCE(NULLIF(trim(v_restaurant.tax_label), ''), 'Tax'), v_restaurant.tax_rate, v_taxable, v_tax);
+  END IF;
+
+  UPDATE bills
+  SET
+    table_number = v_tab.table_number,
+    subtotal = v_subtotal,
+    discount_amount = v_discount,
+    discount_reason = CASE WHEN v_discount > 0 THEN trim(p_discount_reason) END,
+    service_charge_rate = COALESCE(v_restaurant.service_charge_rate, 0),
+    service_charge_amount = v_service,
+    tax_amount = v_tax,
+    total_amount = v_taxable + v_tax,
+    updated_at = now()
+  WHERE id = v_bill.id
+  RETURNING * INTO v_bill;
+
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION generate_bill(uuid, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION split_tab(
+  p_tab_id uuid,
+  p_mode text,
+  p_guest_count integer DEFAULT 1,
+  p_assignments jsonb DEFAULT NULL -- item mode: [{ order_item_id, shares: [1, 2] }]
+)
+RETURNS SETOF tab_shares AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_settled numeric(10,2);
+  v_remaining numeric(10,2);
+  v_share_ids uuid[] := '{}';
+  v_share_id uuid;
+  v_i integer;
+  v_amount numeric(10,2);
+  v_assignment jsonb;
+  v_item order_items%ROWTYPE;
+  v_targets integer[];
+  v_portion numeric(10,2);
+  v_seat record;
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'Tab is already closed';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_settled
+  FROM tab_shares
+  WHERE tab_id = p_tab_id
+  AND status = 'settled';
+
+  IF v_settled > 0 AND p_mode <> 'even' THEN
+    RAISE EXCEPTION 'Part of this tab is already paid; only an even split of the rest is possible';
+  END IF;
+
+  v_remaining := get_tab_total(p_tab_id) - v_settled;
+
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to pay on this tab';
+  END IF;
+
+  DELETE FROM tab_shares WHERE tab_id = p_tab_id AND status = 'open';
+
+  IF p_mode = 'even' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    v_amount := ROUND(v_remaining / p_guest_count, 2);
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label, amount)
+      VALUES (
+        p_tab_id,
+        'Guest ' || v_i,
+        -- The last guest absorbs the rounding difference
+        CASE WHEN v_i = p_guest_count THEN v_remaining - v_amount * (p_guest_count - 1) ELSE v_amount END
+      );
+    END LOOP;
+
+  ELSIF p_mode = 'item' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, 'Guest ' || v_i)
+      RETURNING id INTO v_share_id;
+      v_share_ids := v_share_ids || v_share_id;
+    END LOOP;
+
+    FOR v_assignment IN SELECT * FROM jsonb_array_elements(COALESCE(p_assignments, '[]'::jsonb))
+    LOOP
+      SELECT oi.* INTO v_item
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.id = (v_assignment->>'order_item_id')::uuid
+      AND o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item % is not on this tab', v_assignment->>'order_item_id';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM tab_share_items
+        WHERE order_item_id = v_item.id
+        AND share_id = ANY(v_share_ids)
+      ) THEN
+        RAISE EXCEPTION 'Item % is assigned more than once', v_item.id;
+      END IF;
+
+      SELECT array_agg(DISTINCT value::integer ORDER BY value::integer)
+      INTO v_targets
+      FROM jsonb_array_elements_text(v_assignment->'shares');
+
+      IF v_targets IS NULL OR v_targets[1] < 1 OR v_targets[cardinality(v_targets)] > p_guest_count THEN
+        RAISE EXCEPTION 'Every item must be assigned to at least one guest';
+      END IF;
+
+      v_portion := ROUND(v_item.total_price / cardinality(v_targets), 2);
+
+      FOR v_i IN 1..cardinality(v_targets) LOOP
+        INSERT INTO tab_share_items (share_id, order_item_id, amount)
+        VALUES (
+          v_share_ids[v_targets[v_i]],
+          v_item.id,
+          CASE WHEN v_i = cardinality(v_targets)
+            THEN v_item.total_price - v_portion * (cardinality(v_targets) - 1)
+            ELSE v_portion
+          END
+        );
+      END LOOP;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM tab_share_items tsi
+        WHERE tsi.order_item_id = oi.id
+        AND tsi.share_id = ANY(v_share_ids)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Every item on the tab must be assigned to a guest';
+    END IF;
+
+    UPDATE tab_shares ts
+    SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = ts.id)
+    WHERE ts.id = ANY(v_share_ids);
+
+  ELSIF p_mode = 'seat' THEN
+    FOR v_seat IN
+      SELECT oi.seat_number, array_agg(oi.id) AS item_ids
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      GROUP BY oi.seat_number
+      ORDER BY oi.seat_number NULLS LAST
+    LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, COALESCE('Seat ' || v_seat.seat_number, 'Shared'))
+      RETURNING id INTO v_share_id;
+
+      INSERT INTO tab_share_items (share_id, order_item_id, amount)
+      SELECT v_share_id, id, total_price
+      FROM order_items
+      WHERE id = ANY(v_seat.item_ids);
+
+      UPDATE tab_shares
+      SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = v_share_id)
+      WHERE id = v_share_id;
+    END LOOP;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown split mode %', p_mode;
+  END IF;
+
+  -- Item and seat shares are priced from the menu; spread the bill's discount,
+  -- service charge and tax over them in proportion to what each guest ordered
+  IF p_mode IN ('item', 'seat') THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_amount
+    FROM tab_shares
+    WHERE tab_id = p_tab_id;
+
+    IF v_amount > 0 AND v_amount <> v_remaining THEN
+      UPDATE tab_shares
+      SET amount = ROUND(amount * v_remaining / v_amount, 2)
+      WHERE tab_id = p_tab_id;
+
+      UPDATE tab_shares
+      SET amount = amount + v_remaining - (SELECT SUM(amount) FROM tab_shares WHERE tab_id = p_tab_id)
+      WHERE id = (
+        SELECT id FROM tab_shares
+        WHERE tab_id = p_tab_id
+        ORDER BY amount DESC, created_at DESC
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE table_tabs
+  SET
+    split_mode = p_mode,
+    guest_count = CASE WHEN p_mode = 'seat' THEN NULL ELSE p_guest_count END
+  WHERE id = p_tab_id;
+
+  RETURN QUERY SELECT * FROM tab_shares WHERE tab_id = p_tab_id ORDER BY created_at, label;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION split_tab(uuid, text, integer, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION settle_tab_share(p_share_id uuid, p_payment_method text)
+RETURNS table_tabs AS $$
+DECLARE
+  v_share tab_shares%ROWTYPE;
+  v_tab table_tabs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_share FROM tab_shares WHERE id = p_share_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+
+  SELECT * INTO v_tab FROM table_tabs WHERE id = v_share.tab_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Share not found';
+  END IF;
+
+  IF v_share.status = 'settled' THEN
+    RAISE EXCEPTION 'This share has already been paid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM bills b
+    WHERE b.tab_id = v_tab.id
+    AND b.subtotal <> (
+      SELECT COALESCE(SUM(oi.total_price), 0)
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = v_tab.id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+    )
+  ) THEN
+    RAISE EXCEPTION 'Orders have changed since the bill was generated; regenerate it before taking payment';
+  END IF;
+
+  UPDATE tab_shares
+  SET
+    status = 'settled',
+    payment_method = p_payment_method,
+    settled_at = now(),
+    settled_by = auth.uid()
+  WHERE id = p_share_id;
+
+  -- The tab closes once every share is paid and the shares cover the whole tab
+  IF NOT EXISTS (
+    SELECT 1 FROM tab_shares
+    WHERE tab_id = v_tab.id
+    AND status = 'open'
+  ) AND (
+    SELECT COALESCE(SUM(amount), 0) FROM tab_shares WHERE tab_id = v_tab.id
+  ) >= get_tab_total(v_tab.id) THEN
+    UPDATE table_tabs
+    SET status = 'closed', closed_at = now()
+    WHERE id = v_tab.id;
+
+    UPDATE bills
+    SET status = 'paid', paid_at = now()
+    WHERE tab_id = v_tab.id;
+  END IF;
+
+  SELECT * INTO v_tab FROM table_tabs WHERE id = v_share.tab_id;
+  RETURN v_tab;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION settle_tab_share(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_session_tab(p_session_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'total', get_tab_total(t.id),
+    'bill_requested_at', t.bill_requested_at,
+    'bill', (
+      SELECT jsonb_build_object(
+        'bill_number', b.bill_number,
+        'table_number', b.table_number,
+        'subtotal', b.subtotal,
+        'discount_amount', b.discount_amount,
+        'discount_reason', b.discount_reason,
+        'service_charge_rate', b.service_charge_rate,
+        'service_charge_amount', b.service_charge_amount,
+        'tax_amount', b.tax_amount,
+        'total_amount', b.total_amount,
+        'status', b.status,
+        'created_at', b.created_at,
+        'lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('name', l.name, 'quantity', l.quantity, 'unit_price', l.unit_price, 'total_price', l.total_price)
+              ORDER BY l.position
+            )
+            FROM bill_lines l
+            WHERE l.bill_id = b.id
+          ),
+          '[]'::jsonb
+        ),
+        'tax_lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('label', tl.label, 'rate', tl.rate, 'amount', tl.amount)
+              ORDER BY tl.label
+            )
+            FROM bill_tax_lines tl
+            WHERE tl.bill_id = b.id
+          ),
+          '[]'::jsonb
+        )
+      )
+      FROM bills b
+      WHERE b.tab_id = t.id
+    ),
+    'shares', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', s.id, 'label', s.label, 'amount', s.amount, 'status', s.status)
+          ORDER BY s.created_at, s.label
+        )
+        FROM tab_shares s
+        WHERE s.tab_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM table_tabs t
+  WHERE t.session_id = p_session_id
+  ORDER BY t.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_session_tab(uuid) TO anon, authenticated;
+
+ALTER TABLE bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_tax_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view bills"
+  ON bills
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = bills.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can view bill lines"
+  ON bill_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bills
+      JOIN restaurants ON restaurants.id = bills.restaurant_id
+      WHERE bills.id = bill_lines.bill_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can view bill tax lines"
+  ON bill_tax_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM bills
+      JOIN restaurants ON restaurants.id = bills.restaurant_id
+      WHERE bills.id = bill_tax_lines.bill_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_bills_restaurant_created_at ON bills(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_lines_bill_id ON bill_lines(bill_id);
+CREATE INDEX IF NOT EXISTS idx_bill_tax_lines_bill_id ON bill_tax_lines(bill_id);
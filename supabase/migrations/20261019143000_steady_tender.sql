@@ -0,0 +1,407 @@
+/*
+  # Payments
+
+  1. New Tables
+    - `payments` - Money taken against a bill. A bill can be paid with several tenders
+      (cash, card, UPI), across several visits to the table, and per split share.
+      Cash payments keep what was handed over and the change given back.
+
+  2. Enhancements
+    - `bills.amount_paid` - Running total of payments; the bill is settled once it covers the total
+
+  3. Functions
+    - `record_payment` - Records a payment that the provider has already confirmed,
+      settles the share and bill it completes and closes the tab once the bill is paid
+    - `split_tab` - What is still owed now comes from payments rather than settled shares
+    - `settle_tab_share` - Removed; shares are settled by recording payments against them
+
+  4. Security
+    - Enable RLS on `payments`; owners can read their own payments.
+      Payments are only written through `record_payment`.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bills' AND column_name = 'amount_paid'
+  ) THEN
+    ALTER TABLE bills ADD COLUMN amount_paid numeric(10,2) NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  bill_id uuid NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  share_id uuid REFERENCES tab_shares(id) ON DELETE SET NULL,
+  tender text NOT NULL CHECK (tender IN ('cash', 'card', 'upi', 'other')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  tendered_amount numeric(10,2),
+  change_due numeric(10,2) NOT NULL DEFAULT 0,
+  provider text NOT NULL,
+  provider_reference text,
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+DROP FUNCTION IF EXISTS settle_tab_share(uuid, text);
+
+CREATE OR REPLACE FUNCTION record_payment(
+  p_bill_id uuid,
+  p_tender text,
+  p_amount numeric,
+  p_provider text,
+  p_share_id uuid DEFAULT NULL,
+  p_tendered_amount numeric DEFAULT NULL,
+  p_provider_reference text DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  v_bill bills%ROWTYPE;
+  v_share tab_shares%ROWTYPE;
+  v_amount numeric(10,2);
+  v_change numeric(10,2) := 0;
+  v_share_paid numeric(10,2);
+BEGIN
+  SELECT * INTO v_bill FROM bills WHERE id = p_bill_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_bill.restaurant_id) THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status = 'paid' THEN
+    RAISE EXCEPTION 'Bill #% is already paid', v_bill.bill_number;
+  END IF;
+
+  IF v_bill.subtotal <> (
+    SELECT COALESCE(SUM(oi.total_price), 0)
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.tab_id = v_bill.tab_id
+    AND o.status <> 'cancelled'
+    AND oi.voided_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Orders have changed since the bill was generated; regenerate it before taking payment';
+  END IF;
+
+  v_amount := ROUND(p_amount, 2);
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF v_amount > v_bill.total_amount - v_bill.amount_paid THEN
+    RAISE EXCEPTION 'Payment is more than the % still owed', v_bill.total_amount - v_bill.amount_paid;
+  END IF;
+
+  IF p_share_id IS NOT NULL THEN
+    SELECT * INTO v_share
+    FROM tab_shares
+    WHERE id = p_share_id
+    AND tab_id = v_bill.tab_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Share not found';
+    END IF;
+
+    IF v_share.status = 'settled' THEN
+      RAISE EXCEPTION 'This share has already been paid';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_share_paid
+    FROM payments
+    WHERE share_id = p_share_id;
+
+    IF v_amount > v_share.amount - v_share_paid THEN
+      RAISE EXCEPTION 'Payment is more than the % still owed on %', v_share.amount - v_share_paid, v_share.label;
+    END IF;
+  END IF;
+
+  -- Only cash can be over-tendered; the difference is handed back as change
+  IF p_tendered_amount IS NOT NULL THEN
+    IF p_tender <> 'cash' THEN
+      RAISE EXCEPTION 'Only cash payments can include change';
+    END IF;
+
+    IF p_tendered_amount < v_amount THEN
+      RAISE EXCEPTION 'Cash received is less than the payment amount';
+    END IF;
+
+    v_change := ROUND(p_tendered_amount - v_amount, 2);
+  END IF;
+
+  INSERT INTO payments (
+    restaurant_id, bill_id, share_id, tender, amount, tendered_amount,
+    change_due, provider, provider_reference, recorded_by
+  )
+  VALUES (
+    v_bill.restaurant_id, v_bill.id, p_share_id, p_tender, v_amount, p_tendered_amount,
+    v_change, p_provider, NULLIF(trim(p_provider_reference), ''), auth.uid()
+  );
+
+  IF p_share_id IS NOT NULL AND v_share_paid + v_amount >= v_share.amount THEN
+    UPDATE tab_shares
+    SET
+      status = 'settled',
+      payment_method = p_tender,
+      settled_at = now(),
+      settled_by = auth.uid()
+    WHERE id = p_share_id;
+  END IF;
+
+  UPDATE bills
+  SET amount_paid = amount_paid + v_amount
+  WHERE id = v_bill.id
+  RETURNING * INTO v_bill;
+
+  IF v_bill.amount_paid >= v_bill.total_amount THEN
+    UPDATE bills
+    SET status = 'paid', paid_at = now()
+    WHERE id = v_bill.id
+    RETURNING * INTO v_bill;
+
+    UPDATE table_tabs
+    SET status = 'closed', closed_at = now()
+    WHERE id = v_bill.tab_id;
+  END IF;
+
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_payment(uuid, text, numeric, text, uuid, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION split_tab(
+  p_tab_id uuid,
+  p_mode text,
+  p_guest_count integer DEFAULT 1,
+  p_assignments jsonb DEFAULT NULL -- item mode: [{ order_item_id, shares: [1, 2] }]
+)
+RETURNS SETOF tab_shares AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_settled numeric(10,2);
+  v_remaining numeric(10,2);
+  v_share_ids uuid[] := '{}';
+  v_share_id uuid;
+  v_i integer;
+  v_amount numeric(10,2);
+  v_assignment jsonb;
+  v_item order_items%ROWTYPE;
+  v_targets integer[];
+  v_portion numeric(10,2);
+  v_seat record;
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'Tab is already closed';
+  END IF;
+
+  SELECT COALESCE(amount_paid, 0) INTO v_settled
+  FROM bills
+  WHERE tab_id = p_tab_id;
+
+  v_settled := COALESCE(v_settled, 0);
+
+  IF EXISTS (
+    SELECT 1 FROM tab_shares ts
+    WHERE ts.tab_id = p_tab_id
+    AND ts.status = 'open'
+    AND EXISTS (SELECT 1 FROM payments p WHERE p.share_id = ts.id)
+  ) THEN
+    RAISE EXCEPTION 'A share is part paid; finish taking its payment before splitting again';
+  END IF;
+
+  IF v_settled > 0 AND p_mode <> 'even' THEN
+    RAISE EXCEPTION 'Part of this tab is already paid; only an even split of the rest is possible';
+  END IF;
+
+  v_remaining := get_tab_total(p_tab_id) - v_settled;
+
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to pay on this tab';
+  END IF;
+
+  DELETE FROM tab_shares WHERE tab_id = p_tab_id AND status = 'open';
+
+  IF p_mode = 'even' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    v_amount := ROUND(v_remaining / p_guest_count, 2);
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label, amount)
+      VALUES (
+        p_tab_id,
+        'Guest ' || v_i,
+        -- The last guest absorbs the rounding difference
+        CASE WHEN v_i = p_guest_count THEN v_remaining - v_amount * (p_guest_count - 1) ELSE v_amount END
+      );
+    END LOOP;
+
+  ELSIF p_mode = 'item' THEN
+    IF p_guest_count IS NULL OR p_guest_count < 1 OR p_guest_count > 50 THEN
+      RAISE EXCEPTION 'Guest count must be between 1 and 50';
+    END IF;
+
+    FOR v_i IN 1..p_guest_count LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, 'Guest ' || v_i)
+      RETURNING id INTO v_share_id;
+      v_share_ids := v_share_ids || v_share_id;
+    END LOOP;
+
+    FOR v_assignment IN SELECT * FROM jsonb_array_elements(COALESCE(p_assignments, '[]'::jsonb))
+    LOOP
+      SELECT oi.* INTO v_item
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE oi.id = (v_assignment->>'order_item_id')::uuid
+      AND o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item % is not on this tab', v_assignment->>'order_item_id';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM tab_share_items
+        WHERE order_item_id = v_item.id
+        AND share_id = ANY(v_share_ids)
+      ) THEN
+        RAISE EXCEPTION 'Item % is assigned more than once', v_item.id;
+      END IF;
+
+      SELECT array_agg(DISTINCT value::integer ORDER BY value::integer)
+      INTO v_targets
+      FROM jsonb_array_elements_text(v_assignment->'shares');
+
+      IF v_targets IS NULL OR v_targets[1] < 1 OR v_targets[cardinality(v_targets)] > p_guest_count THEN
+        RAISE EXCEPTION 'Every item must be assigned to at least one guest';
+      END IF;
+
+      v_portion := ROUND(v_item.total_price / cardinality(v_targets), 2);
+
+      FOR v_i IN 1..cardinality(v_targets) LOOP
+        INSERT INTO tab_share_items (share_id, order_item_id, amount)
+        VALUES (
+          v_share_ids[v_targets[v_i]],
+          v_item.id,
+          CASE WHEN v_i = cardinality(v_targets)
+            THEN v_item.total_price - v_portion * (cardinality(v_targets) - 1)
+            ELSE v_portion
+          END
+        );
+      END LOOP;
+    END LOOP;
+
+    IF EXISTS (
+      SELECT 1 FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM tab_share_items tsi
+        WHERE tsi.order_item_id = oi.id
+        AND tsi.share_id = ANY(v_share_ids)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Every item on the tab must be assigned to a guest';
+    END IF;
+
+    UPDATE tab_shares ts
+    SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = ts.id)
+    WHERE ts.id = ANY(v_share_ids);
+
+  ELSIF p_mode = 'seat' THEN
+    FOR v_seat IN
+      SELECT oi.seat_number, array_agg(oi.id) AS item_ids
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      WHERE o.tab_id = p_tab_id
+      AND o.status <> 'cancelled'
+      AND oi.voided_at IS NULL
+      GROUP BY oi.seat_number
+      ORDER BY oi.seat_number NULLS LAST
+    LOOP
+      INSERT INTO tab_shares (tab_id, label)
+      VALUES (p_tab_id, COALESCE('Seat ' || v_seat.seat_number, 'Shared'))
+      RETURNING id INTO v_share_id;
+
+      INSERT INTO tab_share_items (share_id, order_item_id, amount)
+      SELECT v_share_id, id, total_price
+      FROM order_items
+      WHERE id = ANY(v_seat.item_ids);
+
+      UPDATE tab_shares
+      SET amount = (SELECT COALESCE(SUM(amount), 0) FROM tab_share_items WHERE share_id = v_share_id)
+      WHERE id = v_share_id;
+    END LOOP;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown split mode %', p_mode;
+  END IF;
+
+  -- Item and seat shares are priced from the menu; spread the bill's discount,
+  -- service charge and tax over them in proportion to what each guest ordered
+  IF p_mode IN ('item', 'seat') THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_amount
+    FROM tab_shares
+    WHERE tab_id = p_tab_id;
+
+    IF v_amount > 0 AND v_amount <> v_remaining THEN
+      UPDATE tab_shares
+      SET amount = ROUND(amount * v_remaining / v_amount, 2)
+      WHERE tab_id = p_tab_id;
+
+      UPDATE tab_shares
+      SET amount = amount + v_remaining - (SELECT SUM(amount) FROM tab_shares WHERE tab_id = p_tab_id)
+      WHERE id = (
+        SELECT id FROM tab_shares
+        WHERE tab_id = p_tab_id
+        ORDER BY amount DESC, created_at DESC
+        LIMIT 1
+      );
+    END IF;
+  END IF;
+
+  UPDATE table_tabs
+  SET
+    split_mode = p_mode,
+    guest_count = CASE WHEN p_mode = 'seat' THEN NULL ELSE p_guest_count END
+  WHERE id = p_tab_id;
+
+  RETURN QUERY SELECT * FROM tab_shares WHERE tab_id = p_tab_id ORDER BY created_at, label;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION split_tab(uuid, text, integer, jsonb) TO authenticated;
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can view payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = payments.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_payments_bill_id ON payments(bill_id);
+CREATE INDEX IF NOT EXISTS idx_payments_share_id ON payments(share_id);
+CREATE INDEX IF NOT EXISTS idx_payments_restaurant_created_at ON payments(restaurant_id, created_at DESC);
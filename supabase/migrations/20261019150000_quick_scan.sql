@@ -0,0 +1,104 @@
+/*
+  # UPI Pay at Table
+
+  1. Enhancements
+    - `restaurants.upi_vpa` - UPI address (VPA) diners pay bills to
+    - `restaurants.upi_payee_name` - Name shown in the diner's UPI app; defaults to the restaurant name
+    - `payments` - New UPI payments must carry the transaction reference; earlier rows are left as they are
+
+  2. Functions
+    - `get_session_tab` - Includes the amount paid and the restaurant's UPI details so the
+      diner's bill can show a UPI QR code
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'upi_vpa'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN upi_vpa text
+      CHECK (upi_vpa ~ '^[A-Za-z0-9._-]{2,256}@[A-Za-z][A-Za-z0-9.-]{1,63}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'upi_payee_name'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN upi_payee_name text;
+  END IF;
+END $$;
+
+ALTER TABLE payments
+  ADD CONSTRAINT payments_upi_reference_required
+  CHECK (tender <> 'upi' OR provider_reference IS NOT NULL) NOT VALID;
+
+CREATE OR REPLACE FUNCTION get_session_tab(p_session_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'total', get_tab_total(t.id),
+    'bill_requested_at', t.bill_requested_at,
+    'bill', (
+      SELECT jsonb_build_object(
+        'bill_number', b.bill_number,
+        'table_number', b.table_number,
+        'subtotal', b.subtotal,
+        'discount_amount', b.discount_amount,
+        'discount_reason', b.discount_reason,
+        'service_charge_rate', b.service_charge_rate,
+        'service_charge_amount', b.service_charge_amount,
+        'tax_amount', b.tax_amount,
+        'total_amount', b.total_amount,
+        'amount_paid', b.amount_paid,
+        'status', b.status,
+        'created_at', b.created_at,
+        'upi_vpa', r.upi_vpa,
+        'upi_payee_name', COALESCE(NULLIF(trim(r.upi_payee_name), ''), r.name),
+        'lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('name', l.name, 'quantity', l.quantity, 'unit_price', l.unit_price, 'total_price', l.total_price)
+              ORDER BY l.position
+            )
+            FROM bill_lines l
+            WHERE l.bill_id = b.id
+          ),
+          '[]'::jsonb
+        ),
+        'tax_lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('label', tl.label, 'rate', tl.rate, 'amount', tl.amount)
+              ORDER BY tl.label
+            )
+            FROM bill_tax_lines tl
+            WHERE tl.bill_id = b.id
+          ),
+          '[]'::jsonb
+        )
+      )
+      FROM bills b
+      JOIN restaurants r ON r.id = b.restaurant_id
+      WHERE b.tab_id = t.id
+    ),
+    'shares', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', s.id, 'label', s.label, 'amount', s.amount, 'status', s.status)
+          ORDER BY s.created_at, s.label
+        )
+        FROM tab_shares s
+        WHERE s.tab_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM table_tabs t
+  WHERE t.session_id = p_session_id
+  ORDER BY t.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_session_tab(uuid) TO anon, authenticated;
@@ -0,0 +1,455 @@
+/*
+  # Tax Configuration
+
+  1. New Tables
+    - `tax_rates` - Named tax rates of a restaurant (e.g. CGST and SGST). Every active rate
+      applies to every item unless the item's category overrides it.
+    - `category_tax_rates` - The rates that apply to a menu category that overrides the defaults
+
+  2. Enhancements
+    - `restaurants.tax_inclusive` - Menu prices already include tax
+    - `menu_categories.tax_override` - The category uses its own rates from `category_tax_rates`;
+      an override without rates makes the category tax exempt
+    - `bills.tax_inclusive` - Whether the bill's tax was included in its prices
+    - `restaurants.tax_label` / `tax_rate` - Replaced by `tax_rates` and dropped
+
+  3. Functions
+    - `get_item_tax_rates` - The rates that apply to an item of a category
+    - `get_tax_config` - Public tax settings used to show tax in the customer's cart
+    - `set_category_tax_rates` - Sets or clears a category's override
+    - `generate_bill` - Taxes each item at its own rates, with inclusive or exclusive pricing
+    - `get_session_tab` - Includes whether the bill's tax is inclusive
+    - `get_tax_summary` - Tax collected per rate for a date range
+
+  4. Security
+    - Enable RLS on the new tables; owners manage their own tax rates
+*/
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  rate numeric(5,2) NOT NULL CHECK (rate > 0 AND rate <= 100),
+  sort_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS category_tax_rates (
+  category_id uuid NOT NULL REFERENCES menu_categories(id) ON DELETE CASCADE,
+  tax_rate_id uuid NOT NULL REFERENCES tax_rates(id) ON DELETE CASCADE,
+  PRIMARY KEY (category_id, tax_rate_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'tax_inclusive'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN tax_inclusive boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_categories' AND column_name = 'tax_override'
+  ) THEN
+    ALTER TABLE menu_categories ADD COLUMN tax_override boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'bills' AND column_name = 'tax_inclusive'
+  ) THEN
+    ALTER TABLE bills ADD COLUMN tax_inclusive boolean NOT NULL DEFAULT false;
+  END IF;
+
+  -- Carry the single restaurant-wide rate over as the first named rate
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'tax_rate'
+  ) THEN
+    INSERT INTO tax_rates (restaurant_id, name, rate)
+    SELECT id, COALESCE(NULLIF(trim(tax_label), ''), 'Tax'), tax_rate
+    FROM restaurants
+    WHERE tax_rate > 0;
+
+    ALTER TABLE restaurants DROP COLUMN tax_rate;
+    ALTER TABLE restaurants DROP COLUMN IF EXISTS tax_label;
+  END IF;
+END $$;
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE category_tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage tax rates"
+  ON tax_rates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = tax_rates.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can manage category tax rates"
+  ON category_tax_rates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_categories
+      JOIN restaurants ON restaurants.id = menu_categories.restaurant_id
+      WHERE menu_categories.id = category_tax_rates.category_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION get_item_tax_rates(p_restaurant_id uuid, p_category_id uuid)
+RETURNS SETOF tax_rates AS $$
+  SELECT tr.*
+  FROM tax_rates tr
+  WHERE tr.restaurant_id = p_restaurant_id
+  AND tr.is_active = true
+  AND (
+    NOT EXISTS (
+      SELECT 1 FROM menu_categories
+      WHERE id = p_category_id
+      AND tax_override = true
+    )
+    OR tr.id IN (
+      SELECT tax_rate_id FROM category_tax_rates
+      WHERE category_id = p_category_id
+    )
+  )
+  ORDER BY tr.sort_order, tr.created_at;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_tax_config(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'inclusive', r.tax_inclusive,
+    'service_charge_rate', COALESCE(r.service_charge_rate, 0),
+    'rates', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', tr.id, 'name', tr.name, 'rate', tr.rate)
+          ORDER BY tr.sort_order, tr.created_at
+        )
+        FROM tax_rates tr
+        WHERE tr.restaurant_id = r.id
+        AND tr.is_active = true
+      ),
+      '[]'::jsonb
+    ),
+    'category_rates', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'category_id', c.id,
+            'rate_ids', COALESCE(
+              (SELECT jsonb_agg(ctr.tax_rate_id) FROM category_tax_rates ctr WHERE ctr.category_id = c.id),
+              '[]'::jsonb
+            )
+          )
+        )
+        FROM menu_categories c
+        WHERE c.restaurant_id = r.id
+        AND c.tax_override = true
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM restaurants r
+  WHERE r.id = p_restaurant_id
+  AND r.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_tax_config(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION set_category_tax_rates(
+  p_category_id uuid,
+  p_override boolean,
+  p_tax_rate_ids uuid[] DEFAULT '{}'
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE menu_categories
+  SET tax_override = p_override
+  WHERE id = p_category_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  DELETE FROM category_tax_rates WHERE category_id = p_category_id;
+
+  IF p_override THEN
+    INSERT INTO category_tax_rates (category_id, tax_rate_id)
+    SELECT p_category_id, tr.id
+    FROM tax_rates tr
+    JOIN menu_categories c ON c.restaurant_id = tr.restaurant_id
+    WHERE c.id = p_category_id
+    AND tr.id = ANY(COALESCE(p_tax_rate_ids, '{}'));
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_category_tax_rates(uuid, boolean, uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION generate_bill(
+  p_tab_id uuid,
+  p_discount_amount numeric DEFAULT 0,
+  p_discount_reason text DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_bill bills%ROWTYPE;
+  v_bill_number integer;
+  v_subtotal numeric(10,2);
+  v_discount numeric(10,2);
+  v_service numeric(10,2);
+  v_factor numeric;
+  v_tax numeric(10,2);
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'This tab is closed and its bill is final';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.total_price), 0) INTO v_subtotal
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to bill on this tab';
+  END IF;
+
+  v_discount := ROUND(COALESCE(p_discount_amount, 0), 2);
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the subtotal';
+  END IF;
+
+  IF v_discount > 0 AND NULLIF(trim(p_discount_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for discounts';
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = v_tab.restaurant_id;
+
+  -- Service charge is on the discounted amount; tax is charged on both, so every
+  -- item is taxed on its share of the discounted amount plus service charge
+  v_service := ROUND((v_subtotal - v_discount) * COALESCE(v_restaurant.service_charge_rate, 0) / 100, 2);
+  v_factor := (v_subtotal - v_discount + v_service) / v_subtotal;
+
+  SELECT * INTO v_bill FROM bills WHERE tab_id = p_tab_id;
+
+  IF NOT FOUND THEN
+    UPDATE restaurants
+    SET last_bill_number = last_bill_number + 1
+    WHERE id = v_tab.restaurant_id
+    RETURNING last_bill_number INTO v_bill_number;
+
+    INSERT INTO bills (restaurant_id, tab_id, bill_number, table_number, issued_by)
+    VALUES (v_tab.restaurant_id, p_tab_id, v_bill_number, v_tab.table_number, auth.uid())
+    RETURNING * INTO v_bill;
+  END IF;
+
+  DELETE FROM bill_lines WHERE bill_id = v_bill.id;
+  DELETE FROM bill_tax_lines WHERE bill_id = v_bill.id;
+
+  INSERT INTO bill_lines (bill_id, order_item_id, position, name, quantity, unit_price, total_price)
+  SELECT
+    v_bill.id,
+    oi.id,
+    ROW_NUMBER() OVER (ORDER BY o.created_at, oi.id),
+    mi.name || COALESCE(
+      ' (' || (
+        SELECT string_agg(mm.name, ', ' ORDER BY mm.name)
+        FROM order_item_modifiers oim
+        JOIN menu_modifiers mm ON mm.id = oim.modifier_id
+        WHERE oim.order_item_id = oi.id
+      ) || ')',
+      ''
+    ),
+    oi.quantity,
+    oi.unit_price,
+    oi.total_price
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  -- Inclusive prices hold every rate of the item, so each rate takes its part of the
+  -- item's combined rate rather than a percentage on top
+  INSERT INTO bill_tax_lines (bill_id, label, rate, taxable_amount, amount)
+  SELECT
+    v_bill.id,
+    item_rates.name,
+    item_rates.rate,
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * 100 / (100 + item_rates.combined_rate)
+        ELSE item_rates.base
+      END
+    ), 2),
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * item_rates.rate / (100 + item_rates.combined_rate)
+        ELSE item_rates.base * item_rates.rate / 100
+      END
+    ), 2)
+  FROM (
+    SELECT
+      tr.id,
+      tr.name,
+      tr.rate,
+      tr.sort_order,
+      oi.total_price * v_factor AS base,
+      SUM(tr.rate) OVER (PARTITION BY oi.id) AS combined_rate
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    CROSS JOIN LATERAL get_item_tax_rates(v_tab.restaurant_id, mi.category_id) tr
+    WHERE o.tab_id = p_tab_id
+    AND o.status <> 'cancelled'
+    AND oi.voided_at IS NULL
+  ) item_rates
+  GROUP BY item_rates.id, item_rates.name, item_rates.rate, item_rates.sort_order
+  ORDER BY item_rates.sort_order;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_tax
+  FROM bill_tax_lines
+  WHERE bill_id = v_bill.id;
+
+  UPDATE bills
+  SET
+    table_number = v_tab.table_number,
+    subtotal = v_subtotal,
+    discount_amount = v_discount,
+    discount_reason = CASE WHEN v_discount > 0 THEN trim(p_discount_reason) END,
+    service_charge_rate = COALESCE(v_restaurant.service_charge_rate, 0),
+    service_charge_amount = v_service,
+    tax_amount = v_tax,
+    tax_inclusive = v_restaurant.tax_inclusive,
+    total_amount = v_subtotal - v_discount + v_service + CASE WHEN v_restaurant.tax_inclusive THEN 0 ELSE v_tax END,
+    updated_at = now()
+  WHERE id = v_bill.id
+  RETURNING * INTO v_bill;
+
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_session_tab(p_session_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'total', get_tab_total(t.id),
+    'bill_requested_at', t.bill_requested_at,
+    'bill', (
+      SELECT jsonb_build_object(
+        'bill_number', b.bill_number,
+        'table_number', b.table_number,
+        'subtotal', b.subtotal,
+        'discount_amount', b.discount_amount,
+        'discount_reason', b.discount_reason,
+        'service_charge_rate', b.service_charge_rate,
+        'service_charge_amount', b.service_charge_amount,
+        'tax_amount', b.tax_amount,
+        'tax_inclusive', b.tax_inclusive,
+        'total_amount', b.total_amount,
+        'amount_paid', b.amount_paid,
+        'status', b.status,
+        'created_at', b.created_at,
+        'upi_vpa', r.upi_vpa,
+        'upi_payee_name', COALESCE(NULLIF(trim(r.upi_payee_name), ''), r.name),
+        'lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('name', l.name, 'quantity', l.quantity, 'unit_price', l.unit_price, 'total_price', l.total_price)
+              ORDER BY l.position
+            )
+            FROM bill_lines l
+            WHERE l.bill_id = b.id
+          ),
+          '[]'::jsonb
+        ),
+        'tax_lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('label', tl.label, 'rate', tl.rate, 'amount', tl.amount)
+              ORDER BY tl.label
+            )
+            FROM bill_tax_lines tl
+            WHERE tl.bill_id = b.id
+          ),
+          '[]'::jsonb
+        )
+      )
+      FROM bills b
+      JOIN restaurants r ON r.id = b.restaurant_id
+      WHERE b.tab_id = t.id
+    ),
+    'shares', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', s.id, 'label', s.label, 'amount', s.amount, 'status', s.status)
+          ORDER BY s.created_at, s.label
+        )
+        FROM tab_shares s
+        WHERE s.tab_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM table_tabs t
+  WHERE t.session_id = p_session_id
+  ORDER BY t.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_tax_summary(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  label text,
+  rate numeric,
+  bill_count bigint,
+  taxable_amount numeric,
+  tax_amount numeric
+) AS $$
+  SELECT
+    tl.label,
+    tl.rate,
+    COUNT(DISTINCT b.id) AS bill_count,
+    COALESCE(SUM(tl.taxable_amount), 0) AS taxable_amount,
+    COALESCE(SUM(tl.amount), 0) AS tax_amount
+  FROM bills b
+  JOIN bill_tax_lines tl ON tl.bill_id = b.id
+  WHERE b.restaurant_id = p_restaurant_id
+  AND b.created_at >= p_from
+  AND b.created_at < p_to
+  GROUP BY tl.label, tl.rate
+  ORDER BY tl.label, tl.rate;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_tax_rates_restaurant_id ON tax_rates(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_bills_restaurant_created ON bills(restaurant_id, created_at);
@@ -0,0 +1,120 @@
+/*
+  # Restaurant Time Zone and Business Day
+
+  1. Enhancements
+    - `restaurants.timezone` - IANA time zone the restaurant trades in
+    - `restaurants.business_day_start_hour` - Local hour a business day starts; orders placed
+      before it count towards the previous day so late service stays on one day
+
+  2. Functions
+    - `is_valid_timezone` - Checks a name against the time zones Postgres knows
+    - `get_business_date` - The business date of a moment for a restaurant
+    - `get_business_day_start` - When a restaurant's business date starts
+    - `update_daily_sales_summary` - Summarises each restaurant's current business day
+      (or a given one) instead of the UTC calendar day
+
+  3. Views
+    - `revenue_trends_view` - Groups revenue by business date
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_timezone text)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'timezone'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN timezone text NOT NULL DEFAULT 'Asia/Kolkata'
+      CHECK (is_valid_timezone(timezone));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'business_day_start_hour'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN business_day_start_hour integer NOT NULL DEFAULT 0
+      CHECK (business_day_start_hour >= 0 AND business_day_start_hour <= 23);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_business_date(p_restaurant_id uuid, p_at timestamptz DEFAULT now())
+RETURNS date AS $$
+  SELECT ((p_at AT TIME ZONE timezone) - make_interval(hours => business_day_start_hour))::date
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_business_day_start(p_restaurant_id uuid, p_date date)
+RETURNS timestamptz AS $$
+  SELECT (p_date + make_interval(hours => business_day_start_hour)) AT TIME ZONE timezone
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS update_daily_sales_summary();
+
+-- Without a date, each restaurant's summary is for its own current business day
+CREATE OR REPLACE FUNCTION update_daily_sales_summary(p_date date DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  WITH days AS (
+    SELECT
+      r.id AS restaurant_id,
+      d.business_date,
+      get_business_day_start(r.id, d.business_date) AS starts_at,
+      get_business_day_start(r.id, d.business_date + 1) AS ends_at
+    FROM restaurants r
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(p_date, get_business_date(r.id)) AS business_date
+    ) d
+  )
+  INSERT INTO daily_sales_summary (restaurant_id, date, total_orders, total_revenue, average_order_value, most_popular_item_id)
+  SELECT
+    days.restaurant_id,
+    days.business_date,
+    COUNT(o.id),
+    COALESCE(SUM(o.total_amount), 0),
+    COALESCE(AVG(o.total_amount), 0),
+    (
+      SELECT oi.menu_item_id
+      FROM order_items oi
+      JOIN orders o2 ON oi.order_id = o2.id
+      WHERE o2.restaurant_id = days.restaurant_id
+      AND o2.created_at >= days.starts_at
+      AND o2.created_at < days.ends_at
+      GROUP BY oi.menu_item_id
+      ORDER BY SUM(oi.quantity) DESC
+      LIMIT 1
+    )
+  FROM days
+  JOIN orders o ON o.restaurant_id = days.restaurant_id
+  WHERE o.created_at >= days.starts_at
+  AND o.created_at < days.ends_at
+  GROUP BY days.restaurant_id, days.business_date, days.starts_at, days.ends_at
+  ON CONFLICT (restaurant_id, date)
+  DO UPDATE SET
+    total_orders = EXCLUDED.total_orders,
+    total_revenue = EXCLUDED.total_revenue,
+    average_order_value = EXCLUDED.average_order_value,
+    most_popular_item_id = EXCLUDED.most_popular_item_id,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE VIEW revenue_trends_view AS
+SELECT
+  r.id as restaurant_id,
+  r.name as restaurant_name,
+  ((o.created_at AT TIME ZONE r.timezone) - make_interval(hours => r.business_day_start_hour))::date as order_date,
+  COUNT(o.id) as total_orders,
+  SUM(o.total_amount) as daily_revenue,
+  AVG(o.total_amount) as average_order_value
+FROM restaurants r
+LEFT JOIN orders o ON r.id = o.restaurant_id
+WHERE o.created_at >= now() - INTERVAL '90 days'
+GROUP BY r.id, r.name, 3
+ORDER BY order_date DESC;
@@ -0,0 +1,224 @@
+/*
+  # Kitchen Load Control
+
+  1. Enhancements
+    - `restaurants.qr_ordering_paused` - Stops diners ordering from the table QR menu
+    - `restaurants.max_open_orders` - Most orders the kitchen takes on at once before QR
+      ordering waits for it to catch up; NULL for no limit
+    - `restaurants.busy_mode` - Adds `busy_extra_minutes` to every quoted ready time
+    - `restaurants.busy_extra_minutes` - Minutes busy mode adds
+
+  2. Functions
+    - `count_open_orders` - Orders the kitchen still has to finish
+    - `get_ordering_status` - Public summary of whether QR ordering is open, and why not
+    - `place_order` - Refuses QR orders while paused or at capacity and quotes busy-mode
+      ready times
+    - `place_staff_order` - Quotes busy-mode ready times; staff can still enter orders
+      while QR ordering is paused or full
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'qr_ordering_paused'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN qr_ordering_paused boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'max_open_orders'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN max_open_orders integer CHECK (max_open_orders > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'busy_mode'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN busy_mode boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'busy_extra_minutes'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN busy_extra_minutes integer NOT NULL DEFAULT 15
+      CHECK (busy_extra_minutes >= 0 AND busy_extra_minutes <= 180);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION count_open_orders(p_restaurant_id uuid)
+RETURNS integer AS $$
+  SELECT COUNT(*)::integer
+  FROM orders
+  WHERE restaurant_id = p_restaurant_id
+  AND status IN ('pending', 'confirmed', 'preparing');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION count_open_orders(uuid) FROM PUBLIC, anon, authenticated;
+
+-- reason is 'paused' or 'at_capacity' when QR ordering is closed
+CREATE OR REPLACE FUNCTION get_ordering_status(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'accepting_orders', NOT r.qr_ordering_paused AND NOT at_capacity,
+    'reason', CASE
+      WHEN r.qr_ordering_paused THEN 'paused'
+      WHEN at_capacity THEN 'at_capacity'
+    END,
+    'busy_mode', r.busy_mode,
+    'busy_extra_minutes', CASE WHEN r.busy_mode THEN r.busy_extra_minutes ELSE 0 END
+  )
+  FROM restaurants r
+  CROSS JOIN LATERAL (
+    SELECT r.max_open_orders IS NOT NULL AND count_open_orders(r.id) >= r.max_open_orders AS at_capacity
+  ) load
+  WHERE r.id = p_restaurant_id
+  AND r.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_ordering_status(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_prep_minutes integer;
+BEGIN
+  -- Lock the restaurant so simultaneous orders cannot all slip under the cap
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id
+  AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  IF v_restaurant.qr_ordering_paused THEN
+    RAISE EXCEPTION 'Ordering from the table is paused right now. Please ask a member of staff.';
+  END IF;
+
+  IF v_restaurant.max_open_orders IS NOT NULL
+    AND count_open_orders(p_restaurant_id) >= v_restaurant.max_open_orders THEN
+    RAISE EXCEPTION 'The kitchen is at capacity. Please try again in a few minutes.';
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes, session_id)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes, p_session_id)
+  RETURNING * INTO v_order;
+
+  v_prep_minutes := insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  IF v_restaurant.busy_mode THEN
+    v_prep_minutes := v_prep_minutes + v_restaurant.busy_extra_minutes;
+  END IF;
+
+  UPDATE orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id),
+    estimated_ready_at = now() + make_interval(mins => v_prep_minutes)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION place_staff_order(
+  p_restaurant_id uuid,
+  p_order_source text,
+  p_items jsonb,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_staff_id uuid;
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_prep_minutes integer;
+BEGIN
+  SELECT id INTO v_staff_id
+  FROM restaurant_staff
+  WHERE restaurant_id = p_restaurant_id
+  AND user_id = auth.uid()
+  AND is_active = true;
+
+  IF v_staff_id IS NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only restaurant staff can enter orders';
+  END IF;
+
+  IF p_order_source = 'staff' THEN
+    SELECT * INTO v_table
+    FROM tables
+    WHERE restaurant_id = p_restaurant_id
+    AND table_number = p_table_number
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+    END IF;
+  ELSIF p_order_source = 'phone' THEN
+    IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+      RAISE EXCEPTION 'Phone orders need the caller''s name and phone number';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unsupported order source %', p_order_source;
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, table_id, table_number, customer_name, customer_phone,
+    status, total_amount, notes, order_source, assigned_staff_id
+  )
+  VALUES (
+    p_restaurant_id, v_table.id, v_table.table_number, NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''), 'pending', 0, p_notes, p_order_source, v_staff_id
+  )
+  RETURNING * INTO v_order;
+
+  v_prep_minutes := insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  SELECT v_prep_minutes + CASE WHEN busy_mode THEN busy_extra_minutes ELSE 0 END
+  INTO v_prep_minutes
+  FROM restaurants
+  WHERE id = p_restaurant_id;
+
+  UPDATE orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id),
+    estimated_ready_at = now() + make_interval(mins => v_prep_minutes)
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,246 @@
+/*
+  # Order Ready-Time Estimates
+
+  1. Enhancements
+    - `menu_items.preparation_time` now holds the item's recent actual preparation time:
+      the average over the last 20 finished orders it was part of
+
+  2. Functions
+    - `get_item_prep_minutes` - Blends an item's quoted prep time with its actual history
+    - `estimate_prep_minutes` - Prep time of an order: its slowest line that isn't voided
+    - `refresh_order_etas` - Re-quotes every open order of a restaurant from its prep time,
+      the open orders ahead of it in the queue and busy mode. Orders being prepared are
+      timed from when cooking started instead of waiting on the queue.
+    - `record_item_preparation_times` - Updates the history of an order's items once it is ready
+    - `place_order` / `place_staff_order` - Quote through `refresh_order_etas`
+
+  3. Triggers
+    - `refresh_order_etas` - Re-quotes the queue whenever an order changes status
+*/
+
+CREATE OR REPLACE FUNCTION get_item_prep_minutes(p_menu_item menu_items)
+RETURNS integer AS $$
+  SELECT CASE
+    WHEN COALESCE(p_menu_item.preparation_time, 0) > 0
+      THEN ROUND((COALESCE(p_menu_item.estimated_prep_time, 15) + p_menu_item.preparation_time) / 2.0)::integer
+    ELSE COALESCE(p_menu_item.estimated_prep_time, 15)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION estimate_prep_minutes(p_order_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(MAX(get_item_prep_minutes(mi)), 15)
+  FROM order_items oi
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE oi.order_id = p_order_id
+  AND oi.voided_at IS NULL;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION refresh_order_etas(p_restaurant_id uuid)
+RETURNS void AS $$
+  WITH queue AS (
+    SELECT
+      o.id,
+      o.status,
+      o.preparing_at,
+      estimate_prep_minutes(o.id)
+        + CASE WHEN r.busy_mode THEN r.busy_extra_minutes ELSE 0 END AS prep_minutes,
+      (ROW_NUMBER() OVER (ORDER BY o.created_at, o.id) - 1)::integer AS orders_ahead
+    FROM orders o
+    JOIN restaurants r ON r.id = o.restaurant_id
+    WHERE o.restaurant_id = p_restaurant_id
+    AND o.status IN ('pending', 'confirmed', 'preparing')
+  )
+  UPDATE orders o
+  SET estimated_ready_at = CASE
+    WHEN queue.status = 'preparing'
+      THEN COALESCE(queue.preparing_at, now()) + make_interval(mins => queue.prep_minutes)
+    -- Each open order ahead in the queue holds a waiting order back three minutes
+    ELSE now() + make_interval(mins => queue.prep_minutes + queue.orders_ahead * 3)
+  END
+  FROM queue
+  WHERE o.id = queue.id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_order_etas(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_item_preparation_times(p_order_id uuid)
+RETURNS void AS $$
+  UPDATE menu_items mi
+  SET preparation_time = (
+    SELECT ROUND(AVG(recent.preparation_time))::integer
+    FROM (
+      SELECT o.preparation_time
+      FROM orders o
+      WHERE o.preparation_time IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM order_items oi
+        WHERE oi.order_id = o.id
+        AND oi.menu_item_id = mi.id
+        AND oi.voided_at IS NULL
+      )
+      ORDER BY o.ready_at DESC
+      LIMIT 20
+    ) recent
+  )
+  WHERE mi.id IN (
+    SELECT menu_item_id FROM order_items
+    WHERE order_id = p_order_id
+    AND voided_at IS NULL
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_item_preparation_times(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Runs as the definer so staff changing a status can re-quote the whole queue
+CREATE OR REPLACE FUNCTION refresh_order_etas_on_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'ready' AND NEW.preparation_time IS NOT NULL THEN
+    PERFORM record_item_preparation_times(NEW.id);
+  END IF;
+
+  PERFORM refresh_order_etas(NEW.restaurant_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_order_etas ON orders;
+CREATE TRIGGER refresh_order_etas
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION refresh_order_etas_on_status();
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  -- Lock the restaurant so simultaneous orders cannot all slip under the cap
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id
+  AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  IF v_restaurant.qr_ordering_paused THEN
+    RAISE EXCEPTION 'Ordering from the table is paused right now. Please ask a member of staff.';
+  END IF;
+
+  IF v_restaurant.max_open_orders IS NOT NULL
+    AND count_open_orders(p_restaurant_id) >= v_restaurant.max_open_orders THEN
+    RAISE EXCEPTION 'The kitchen is at capacity. Please try again in a few minutes.';
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes, session_id)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes, p_session_id)
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION place_staff_order(
+  p_restaurant_id uuid,
+  p_order_source text,
+  p_items jsonb,
+  p_table_number text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_staff_id uuid;
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT id INTO v_staff_id
+  FROM restaurant_staff
+  WHERE restaurant_id = p_restaurant_id
+  AND user_id = auth.uid()
+  AND is_active = true;
+
+  IF v_staff_id IS NULL AND NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = p_restaurant_id
+    AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only restaurant staff can enter orders';
+  END IF;
+
+  IF p_order_source = 'staff' THEN
+    SELECT * INTO v_table
+    FROM tables
+    WHERE restaurant_id = p_restaurant_id
+    AND table_number = p_table_number
+    AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+    END IF;
+  ELSIF p_order_source = 'phone' THEN
+    IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+      RAISE EXCEPTION 'Phone orders need the caller''s name and phone number';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unsupported order source %', p_order_source;
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, table_id, table_number, customer_name, customer_phone,
+    status, total_amount, notes, order_source, assigned_staff_id
+  )
+  VALUES (
+    p_restaurant_id, v_table.id, v_table.table_number, NULLIF(trim(p_customer_name), ''),
+    NULLIF(trim(p_customer_phone), ''), 'pending', 0, p_notes, p_order_source, v_staff_id
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
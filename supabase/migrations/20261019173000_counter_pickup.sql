@@ -0,0 +1,249 @@
+/*
+  # Pickup Ordering
+
+  1. Enhancements
+    - `restaurants.pickup_enabled` - Lets customers order for pickup from the table-less menu
+    - `orders.pickup_code` - Short code the customer gives at the counter
+    - `orders.order_source` accepts `pickup`
+    - Pickup codes are unique among a restaurant's open orders
+
+  2. Functions
+    - `lock_restaurant_for_ordering` - Shared checks for self-service orders: the restaurant
+      is active, QR ordering isn't paused and the kitchen isn't at capacity. Internal only.
+    - `generate_pickup_code` - A code not used by any open order of the restaurant
+    - `place_pickup_order` - Creates a table-less pickup order for a named customer
+    - `place_order` - Uses `lock_restaurant_for_ordering`
+    - `get_ordering_status` - Also reports whether pickup is offered
+    - `get_session_orders` - Includes the pickup code
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'pickup_enabled'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN pickup_enabled boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'pickup_code'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN pickup_code text;
+  END IF;
+END $$;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_order_source_check;
+ALTER TABLE orders ADD CONSTRAINT orders_order_source_check
+  CHECK (order_source IN ('qr_code', 'staff', 'phone', 'online', 'pickup'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_open_pickup_code
+  ON orders(restaurant_id, pickup_code)
+  WHERE pickup_code IS NOT NULL AND status IN ('pending', 'confirmed', 'preparing', 'ready');
+
+-- Locks the restaurant so simultaneous orders cannot all slip under the cap
+CREATE OR REPLACE FUNCTION lock_restaurant_for_ordering(p_restaurant_id uuid)
+RETURNS restaurants AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+BEGIN
+  SELECT * INTO v_restaurant
+  FROM restaurants
+  WHERE id = p_restaurant_id
+  AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restaurant is not accepting orders';
+  END IF;
+
+  IF v_restaurant.qr_ordering_paused THEN
+    RAISE EXCEPTION 'Ordering is paused right now. Please ask a member of staff.';
+  END IF;
+
+  IF v_restaurant.max_open_orders IS NOT NULL
+    AND count_open_orders(p_restaurant_id) >= v_restaurant.max_open_orders THEN
+    RAISE EXCEPTION 'The kitchen is at capacity. Please try again in a few minutes.';
+  END IF;
+
+  RETURN v_restaurant;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION lock_restaurant_for_ordering(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Four characters without look-alikes such as 0/O and 1/I
+CREATE OR REPLACE FUNCTION generate_pickup_code(p_restaurant_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_alphabet text := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  v_code text;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::integer, 1), '')
+    INTO v_code
+    FROM generate_series(1, 4);
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM orders
+      WHERE restaurant_id = p_restaurant_id
+      AND pickup_code = v_code
+      AND status IN ('pending', 'confirmed', 'preparing', 'ready')
+    );
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_pickup_code(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION place_pickup_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_restaurant := lock_restaurant_for_ordering(p_restaurant_id);
+
+  IF NOT v_restaurant.pickup_enabled THEN
+    RAISE EXCEPTION 'This restaurant is not taking pickup orders';
+  END IF;
+
+  IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Pickup orders need your name and phone number';
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, customer_phone, status, total_amount,
+    notes, session_id, order_source, pickup_code
+  )
+  VALUES (
+    p_restaurant_id, trim(p_customer_name), trim(p_customer_phone), 'pending', 0,
+    p_notes, p_session_id, 'pickup', generate_pickup_code(p_restaurant_id)
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_pickup_order(uuid, jsonb, text, text, text, uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  PERFORM lock_restaurant_for_ordering(p_restaurant_id);
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (restaurant_id, table_id, table_number, customer_name, status, total_amount, notes, session_id)
+  VALUES (p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0, p_notes, p_session_id)
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- reason is 'paused' or 'at_capacity' when self-service ordering is closed
+CREATE OR REPLACE FUNCTION get_ordering_status(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'accepting_orders', NOT r.qr_ordering_paused AND NOT at_capacity,
+    'reason', CASE
+      WHEN r.qr_ordering_paused THEN 'paused'
+      WHEN at_capacity THEN 'at_capacity'
+    END,
+    'busy_mode', r.busy_mode,
+    'busy_extra_minutes', CASE WHEN r.busy_mode THEN r.busy_extra_minutes ELSE 0 END,
+    'pickup_enabled', r.pickup_enabled
+  )
+  FROM restaurants r
+  CROSS JOIN LATERAL (
+    SELECT r.max_open_orders IS NOT NULL AND count_open_orders(r.id) >= r.max_open_orders AS at_capacity
+  ) load
+  WHERE r.id = p_restaurant_id
+  AND r.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_session_orders(uuid);
+
+CREATE OR REPLACE FUNCTION get_session_orders(p_session_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  total_amount numeric,
+  created_at timestamptz,
+  estimated_ready_at timestamptz,
+  cancellation_reason text,
+  pickup_code text,
+  items jsonb
+) AS $$
+  SELECT
+    o.id,
+    o.status,
+    o.total_amount,
+    o.created_at,
+    o.estimated_ready_at,
+    o.cancellation_reason,
+    o.pickup_code,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('name', mi.name, 'quantity', oi.quantity))
+        FROM order_items oi
+        JOIN menu_items mi ON mi.id = oi.menu_item_id
+        WHERE oi.order_id = o.id
+        AND oi.voided_at IS NULL
+      ),
+      '[]'::jsonb
+    ) AS items
+  FROM orders o
+  WHERE o.session_id = p_session_id
+  ORDER BY o.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_session_orders(uuid) TO anon, authenticated;
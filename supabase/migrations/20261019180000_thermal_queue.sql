@@ -0,0 +1,72 @@
+/*
+  # Thermal Printers and Print Queue
+
+  1. New Tables
+    - `printers` - A restaurant's thermal printers: kitchen printers take tickets for one
+      station (or every station when `station` is NULL), receipt printers take bills
+    - `print_jobs` - Every ticket or receipt sent to a printer: the ESC/POS bytes (base64),
+      a plain-text copy, which printer and station it went to, and when it printed
+
+  2. Security
+    - Enable RLS on both tables; owners manage their own printers and print jobs
+*/
+
+CREATE TABLE IF NOT EXISTS printers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  printer_type text NOT NULL DEFAULT 'kitchen' CHECK (printer_type IN ('kitchen', 'receipt')),
+  station text,
+  paper_width integer NOT NULL DEFAULT 80 CHECK (paper_width IN (58, 80)),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS print_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  printer_id uuid REFERENCES printers(id) ON DELETE SET NULL,
+  printer_name text NOT NULL,
+  station text,
+  job_type text NOT NULL CHECK (job_type IN ('kitchen_ticket', 'receipt')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  bill_id uuid REFERENCES bills(id) ON DELETE SET NULL,
+  content text NOT NULL,
+  payload text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'printed', 'failed')),
+  error text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  printed_at timestamptz
+);
+
+ALTER TABLE printers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE print_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage printers"
+  ON printers
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = printers.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant owners can manage print jobs"
+  ON print_jobs
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = print_jobs.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_printers_restaurant_id ON printers(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_print_jobs_restaurant_created ON print_jobs(restaurant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_print_jobs_order_id ON print_jobs(order_id);
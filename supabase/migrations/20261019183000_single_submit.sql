@@ -0,0 +1,171 @@
+/*
+  # Idempotent Order Submission
+
+  1. Enhancements
+    - `orders.idempotency_key` - Client-generated key sent with each cart submission, unique
+      per restaurant, so a retried submission can never create a second order
+
+  2. Functions
+    - `find_order_by_idempotency_key` - The order already placed with a key. Internal only.
+    - `place_order` / `place_pickup_order` - Accept `p_idempotency_key`; a retry with a key
+      that was already used returns the original order instead of placing a new one. The
+      replay is checked before the pause and capacity checks, so an order that went through
+      is still returned after the kitchen fills up.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'idempotency_key'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN idempotency_key uuid;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_idempotency_key
+  ON orders(restaurant_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION find_order_by_idempotency_key(p_restaurant_id uuid, p_idempotency_key uuid)
+RETURNS orders AS $$
+  SELECT *
+  FROM orders
+  WHERE restaurant_id = p_restaurant_id
+  AND idempotency_key = p_idempotency_key;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_order_by_idempotency_key(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS place_order(uuid, text, jsonb, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  PERFORM lock_restaurant_for_ordering(p_restaurant_id);
+
+  -- A duplicate sent at the same moment waited on the lock above; by now it can see the first
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, table_id, table_number, customer_name, status, total_amount,
+    notes, session_id, idempotency_key
+  )
+  VALUES (
+    p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0,
+    p_notes, p_session_id, p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_order(uuid, text, jsonb, text, text, uuid, uuid) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS place_pickup_order(uuid, jsonb, text, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION place_pickup_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  v_restaurant := lock_restaurant_for_ordering(p_restaurant_id);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  IF NOT v_restaurant.pickup_enabled THEN
+    RAISE EXCEPTION 'This restaurant is not taking pickup orders';
+  END IF;
+
+  IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Pickup orders need your name and phone number';
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, customer_phone, status, total_amount,
+    notes, session_id, order_source, pickup_code, idempotency_key
+  )
+  VALUES (
+    p_restaurant_id, trim(p_customer_name), trim(p_customer_phone), 'pending', 0,
+    p_notes, p_session_id, 'pickup', generate_pickup_code(p_restaurant_id), p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION place_pickup_order(uuid, jsonb, text, text, text, uuid, uuid) TO anon, authenticated;
@@ -0,0 +1,314 @@
+/*
+  # Customer Notes and Special Instructions
+
+  1. Enhancements
+    - `restaurants.instructions_max_length` - Longest special instruction or order note a
+      customer may send (20-500 characters, default 140)
+    - `restaurants.blocked_words` - Words masked in customer notes on top of the built-in list
+
+  2. Functions
+    - `clean_order_note` - Trims a note, enforces the restaurant's max length and masks
+      blocked words with asterisks. Internal only.
+    - `insert_order_lines` - Cleans each line's special instructions
+    - `place_order` / `place_pickup_order` - Clean the order-level note
+    - `get_ordering_status` - Reports the max note length for the customer menu
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'instructions_max_length'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN instructions_max_length integer NOT NULL DEFAULT 140
+      CHECK (instructions_max_length BETWEEN 20 AND 500);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'restaurants' AND column_name = 'blocked_words'
+  ) THEN
+    ALTER TABLE restaurants ADD COLUMN blocked_words text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+-- Whole words only, with common endings, so "assam" or "scunthorpe" are left alone
+CREATE OR REPLACE FUNCTION clean_order_note(p_restaurant_id uuid, p_note text)
+RETURNS text AS $$
+DECLARE
+  v_note text := NULLIF(trim(p_note), '');
+  v_restaurant restaurants%ROWTYPE;
+  v_word text;
+  v_default_words text[] := ARRAY[
+    'fuck', 'fucker', 'motherfucker', 'shit', 'bullshit', 'bitch', 'bastard', 'asshole',
+    'arsehole', 'dick', 'dickhead', 'cunt', 'prick', 'piss', 'slut', 'whore', 'wanker', 'twat'
+  ];
+BEGIN
+  IF v_note IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = p_restaurant_id;
+
+  IF length(v_note) > v_restaurant.instructions_max_length THEN
+    RAISE EXCEPTION 'Notes can be at most % characters', v_restaurant.instructions_max_length;
+  END IF;
+
+  FOREACH v_word IN ARRAY v_default_words || v_restaurant.blocked_words
+  LOOP
+    v_word := lower(trim(v_word));
+    CONTINUE WHEN v_word = '';
+
+    v_note := regexp_replace(
+      v_note,
+      '\m' || regexp_replace(v_word, '([^[:alnum:] ])', '\\\1', 'g') || '(s|es|ed|er|ers|ing|in)?\M',
+      repeat('*', length(v_word)),
+      'gi'
+    );
+  END LOOP;
+
+  RETURN v_note;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION clean_order_note(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- A modifier applies when it is linked to the item or to the item's category
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      EXISTS (
+        SELECT 1 FROM menu_item_modifiers mim
+        WHERE mim.menu_item_id = v_menu_item.id
+        AND mim.modifier_id = mm.id
+      )
+      OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    v_unit_price := v_menu_item.price + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      clean_order_note(p_restaurant_id, v_item->>'special_instructions'),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_restaurant_id uuid,
+  p_table_number text,
+  p_items jsonb,
+  p_customer_name text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_table tables%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  PERFORM lock_restaurant_for_ordering(p_restaurant_id);
+
+  -- A duplicate sent at the same moment waited on the lock above; by now it can see the first
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_table
+  FROM tables
+  WHERE restaurant_id = p_restaurant_id
+  AND table_number = p_table_number
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Table % is not available for ordering', p_table_number;
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, table_id, table_number, customer_name, status, total_amount,
+    notes, session_id, idempotency_key
+  )
+  VALUES (
+    p_restaurant_id, v_table.id, v_table.table_number, p_customer_name, 'pending', 0,
+    clean_order_note(p_restaurant_id, p_notes), p_session_id, p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION place_pickup_order(
+  p_restaurant_id uuid,
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_notes text DEFAULT NULL,
+  p_session_id uuid DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_restaurant restaurants%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  v_restaurant := lock_restaurant_for_ordering(p_restaurant_id);
+
+  IF p_idempotency_key IS NOT NULL THEN
+    v_order := find_order_by_idempotency_key(p_restaurant_id, p_idempotency_key);
+    IF v_order.id IS NOT NULL THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  IF NOT v_restaurant.pickup_enabled THEN
+    RAISE EXCEPTION 'This restaurant is not taking pickup orders';
+  END IF;
+
+  IF NULLIF(trim(p_customer_name), '') IS NULL OR NULLIF(trim(p_customer_phone), '') IS NULL THEN
+    RAISE EXCEPTION 'Pickup orders need your name and phone number';
+  END IF;
+
+  INSERT INTO orders (
+    restaurant_id, customer_name, customer_phone, status, total_amount,
+    notes, session_id, order_source, pickup_code, idempotency_key
+  )
+  VALUES (
+    p_restaurant_id, trim(p_customer_name), trim(p_customer_phone), 'pending', 0,
+    clean_order_note(p_restaurant_id, p_notes), p_session_id, 'pickup',
+    generate_pickup_code(p_restaurant_id), p_idempotency_key
+  )
+  RETURNING * INTO v_order;
+
+  PERFORM insert_order_lines(v_order.id, p_restaurant_id, p_items);
+
+  UPDATE orders
+  SET total_amount = (SELECT COALESCE(SUM(total_price), 0) FROM order_items WHERE order_id = v_order.id)
+  WHERE id = v_order.id;
+
+  PERFORM refresh_order_etas(p_restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_order.id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- reason is 'paused' or 'at_capacity' when self-service ordering is closed
+CREATE OR REPLACE FUNCTION get_ordering_status(p_restaurant_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'accepting_orders', NOT r.qr_ordering_paused AND NOT at_capacity,
+    'reason', CASE
+      WHEN r.qr_ordering_paused THEN 'paused'
+      WHEN at_capacity THEN 'at_capacity'
+    END,
+    'busy_mode', r.busy_mode,
+    'busy_extra_minutes', CASE WHEN r.busy_mode THEN r.busy_extra_minutes ELSE 0 END,
+    'pickup_enabled', r.pickup_enabled,
+    'instructions_max_length', r.instructions_max_length
+  )
+  FROM restaurants r
+  CROSS JOIN LATERAL (
+    SELECT r.max_open_orders IS NOT NULL AND count_open_orders(r.id) >= r.max_open_orders AS at_capacity
+  ) load
+  WHERE r.id = p_restaurant_id
+  AND r.is_active = true;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
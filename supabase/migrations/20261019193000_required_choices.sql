@@ -0,0 +1,111 @@
+/*
+  # Required Modifiers
+
+  1. Functions
+    - `insert_order_lines` - Rejects a line that leaves out a modifier linked to the item
+      with `is_required`, for customer, staff and add-on orders alike
+*/
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- A modifier applies when it is linked to the item or to the item's category
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      EXISTS (
+        SELECT 1 FROM menu_item_modifiers mim
+        WHERE mim.menu_item_id = v_menu_item.id
+        AND mim.modifier_id = mm.id
+      )
+      OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM menu_item_modifiers mim
+      JOIN menu_modifiers mm ON mm.id = mim.modifier_id
+      WHERE mim.menu_item_id = v_menu_item.id
+      AND mim.is_required = true
+      AND mm.is_active = true
+      AND NOT mm.id = ANY(v_modifier_ids)
+    ) THEN
+      RAISE EXCEPTION 'Please choose the required options for %', v_menu_item.name;
+    END IF;
+
+    v_unit_price := v_menu_item.price + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      clean_order_note(p_restaurant_id, v_item->>'special_instructions'),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
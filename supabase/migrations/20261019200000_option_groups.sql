@@ -0,0 +1,251 @@
+/*
+  # Modifier Groups
+
+  1. New Tables
+    - `modifier_groups` - Named sets of options such as "Choose your bread", with single or
+      multiple choice and a min/max number of selections. A group applies to whole
+      categories through `applicable_categories`, like ungrouped modifiers do.
+    - `menu_item_modifier_groups` - Attaches a group to individual menu items
+
+  2. Enhancements
+    - `menu_modifiers.group_id` - The group an option belongs to; ungrouped modifiers keep
+      working as before
+
+  3. Functions
+    - `modifier_group_applies` - Whether a group is offered on a menu item
+    - `get_modifier_group_max` - Most options a group allows (1 for single choice)
+    - `insert_order_lines` - Accepts grouped options and enforces each group's min and max
+
+  4. Security
+    - Owners manage their groups and links; anyone can read active groups for the menu
+*/
+
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  selection_type text NOT NULL DEFAULT 'multiple' CHECK (selection_type IN ('single', 'multiple')),
+  min_selections integer NOT NULL DEFAULT 0 CHECK (min_selections >= 0),
+  max_selections integer CHECK (max_selections IS NULL OR max_selections >= 1),
+  applicable_categories text[] DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (selection_type = 'multiple' OR min_selections <= 1),
+  CHECK (max_selections IS NULL OR max_selections >= min_selections)
+);
+
+CREATE TABLE IF NOT EXISTS menu_item_modifier_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, group_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'menu_modifiers' AND column_name = 'group_id'
+  ) THEN
+    ALTER TABLE menu_modifiers ADD COLUMN group_id uuid REFERENCES modifier_groups(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE menu_item_modifier_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage modifier groups"
+  ON modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = modifier_groups.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view active modifier groups"
+  ON modifier_groups
+  FOR SELECT
+  TO public
+  USING (is_active = true);
+
+CREATE POLICY "Restaurant owners can manage item modifier groups"
+  ON menu_item_modifier_groups
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM menu_items mi
+      JOIN restaurants r ON r.id = mi.restaurant_id
+      WHERE mi.id = menu_item_modifier_groups.menu_item_id
+      AND r.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view item modifier groups"
+  ON menu_item_modifier_groups
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_restaurant_id ON modifier_groups(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_menu_item_modifier_groups_group_id ON menu_item_modifier_groups(group_id);
+CREATE INDEX IF NOT EXISTS idx_menu_modifiers_group_id ON menu_modifiers(group_id);
+
+CREATE OR REPLACE FUNCTION modifier_group_applies(p_group modifier_groups, p_menu_item menu_items)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM menu_item_modifier_groups mig
+    WHERE mig.menu_item_id = p_menu_item.id
+    AND mig.group_id = p_group.id
+  )
+  OR p_menu_item.category_id::text = ANY(COALESCE(p_group.applicable_categories, '{}'));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_modifier_group_max(p_group modifier_groups)
+RETURNS integer AS $$
+  SELECT CASE
+    WHEN p_group.selection_type = 'single' THEN 1
+    ELSE COALESCE(p_group.max_selections, 2147483647)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION modifier_group_applies(modifier_groups, menu_items) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+  v_group modifier_groups%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- An ungrouped modifier applies when it is linked to the item or to the item's
+    -- category; a grouped one when its group is
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    LEFT JOIN modifier_groups mg ON mg.id = mm.group_id
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      (
+        mm.group_id IS NULL
+        AND (
+          EXISTS (
+            SELECT 1 FROM menu_item_modifiers mim
+            WHERE mim.menu_item_id = v_menu_item.id
+            AND mim.modifier_id = mm.id
+          )
+          OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+        )
+      )
+      OR (mg.is_active = true AND modifier_group_applies(mg, v_menu_item))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM menu_item_modifiers mim
+      JOIN menu_modifiers mm ON mm.id = mim.modifier_id
+      WHERE mim.menu_item_id = v_menu_item.id
+      AND mim.is_required = true
+      AND mm.is_active = true
+      AND NOT mm.id = ANY(v_modifier_ids)
+    ) THEN
+      RAISE EXCEPTION 'Please choose the required options for %', v_menu_item.name;
+    END IF;
+
+    -- Every group offered on the item needs between its min and max choices
+    SELECT mg.* INTO v_group
+    FROM modifier_groups mg
+    WHERE mg.restaurant_id = p_restaurant_id
+    AND mg.is_active = true
+    AND modifier_group_applies(mg, v_menu_item)
+    AND EXISTS (SELECT 1 FROM menu_modifiers mm WHERE mm.group_id = mg.id AND mm.is_active = true)
+    AND (
+      SELECT COUNT(*) FROM menu_modifiers mm
+      WHERE mm.group_id = mg.id
+      AND mm.id = ANY(v_modifier_ids)
+    ) NOT BETWEEN mg.min_selections AND get_modifier_group_max(mg)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Please check your % choices for %', v_group.name, v_menu_item.name;
+    END IF;
+
+    v_unit_price := v_menu_item.price + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, quantity, unit_price, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      clean_order_note(p_restaurant_id, v_item->>'special_instructions'),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,553 @@
+/*
+  # Item Variants
+
+  1. New Tables
+    - `menu_item_variants` - Sizes or portions of a menu item (half/full, small/medium/large),
+      each with its own price, cost price and availability
+
+  2. Enhancements
+    - `order_items.variant_id` / `order_items.variant_name` - The size ordered; the name is
+      kept so history and reports survive the variant being renamed or removed
+
+  3. Functions
+    - `insert_order_lines` - Charges the variant's price and requires a variant for items
+      that have them
+    - `generate_bill`, `get_session_orders`, `void_order_item` - Show the variant with the
+      item name
+    - `get_cancellation_report_by_item` - Reports each variant on its own row
+    - `get_item_sales_report` - Quantity, revenue and cost per item and variant for a date range
+
+  4. Security
+    - Owners manage the variants of their menu items; anyone can read them for the menu
+*/
+
+CREATE TABLE IF NOT EXISTS menu_item_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  menu_item_id uuid NOT NULL REFERENCES menu_items(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price numeric(10,2) NOT NULL CHECK (price >= 0),
+  cost_price numeric(10,2) DEFAULT 0 CHECK (cost_price >= 0),
+  is_available boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (menu_item_id, name)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN variant_id uuid REFERENCES menu_item_variants(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_name'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN variant_name text;
+  END IF;
+END $$;
+
+ALTER TABLE menu_item_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners can manage item variants"
+  ON menu_item_variants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurants
+      WHERE restaurants.id = menu_item_variants.restaurant_id
+      AND restaurants.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view item variants"
+  ON menu_item_variants
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_menu_item_variants_menu_item_id ON menu_item_variants(menu_item_id);
+CREATE INDEX IF NOT EXISTS idx_menu_item_variants_restaurant_id ON menu_item_variants(restaurant_id);
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+  v_group modifier_groups%ROWTYPE;
+  v_variant menu_item_variants%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    -- Items sold in sizes are ordered by size, at the size's price
+    v_variant := NULL;
+
+    IF v_item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM menu_item_variants
+      WHERE id = (v_item->>'variant_id')::uuid
+      AND menu_item_id = v_menu_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid size selected for %', v_menu_item.name;
+      END IF;
+
+      IF NOT v_variant.is_available THEN
+        RAISE EXCEPTION '% (%) is no longer available', v_menu_item.name, v_variant.name;
+      END IF;
+    ELSIF EXISTS (SELECT 1 FROM menu_item_variants WHERE menu_item_id = v_menu_item.id) THEN
+      RAISE EXCEPTION 'Please choose a size for %', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- An ungrouped modifier applies when it is linked to the item or to the item's
+    -- category; a grouped one when its group is
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    LEFT JOIN modifier_groups mg ON mg.id = mm.group_id
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      (
+        mm.group_id IS NULL
+        AND (
+          EXISTS (
+            SELECT 1 FROM menu_item_modifiers mim
+            WHERE mim.menu_item_id = v_menu_item.id
+            AND mim.modifier_id = mm.id
+          )
+          OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+        )
+      )
+      OR (mg.is_active = true AND modifier_group_applies(mg, v_menu_item))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM menu_item_modifiers mim
+      JOIN menu_modifiers mm ON mm.id = mim.modifier_id
+      WHERE mim.menu_item_id = v_menu_item.id
+      AND mim.is_required = true
+      AND mm.is_active = true
+      AND NOT mm.id = ANY(v_modifier_ids)
+    ) THEN
+      RAISE EXCEPTION 'Please choose the required options for %', v_menu_item.name;
+    END IF;
+
+    -- Every group offered on the item needs between its min and max choices
+    SELECT mg.* INTO v_group
+    FROM modifier_groups mg
+    WHERE mg.restaurant_id = p_restaurant_id
+    AND mg.is_active = true
+    AND modifier_group_applies(mg, v_menu_item)
+    AND EXISTS (SELECT 1 FROM menu_modifiers mm WHERE mm.group_id = mg.id AND mm.is_active = true)
+    AND (
+      SELECT COUNT(*) FROM menu_modifiers mm
+      WHERE mm.group_id = mg.id
+      AND mm.id = ANY(v_modifier_ids)
+    ) NOT BETWEEN mg.min_selections AND get_modifier_group_max(mg)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Please check your % choices for %', v_group.name, v_menu_item.name;
+    END IF;
+
+    v_unit_price := COALESCE(v_variant.price, v_menu_item.price) + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, variant_id, variant_name, quantity, unit_price, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_variant.id,
+      v_variant.name,
+      v_quantity,
+      v_unit_price,
+      v_unit_price * v_quantity,
+      clean_order_note(p_restaurant_id, v_item->>'special_instructions'),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION generate_bill(
+  p_tab_id uuid,
+  p_discount_amount numeric DEFAULT 0,
+  p_discount_reason text DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_bill bills%ROWTYPE;
+  v_bill_number integer;
+  v_subtotal numeric(10,2);
+  v_discount numeric(10,2);
+  v_service numeric(10,2);
+  v_factor numeric;
+  v_tax numeric(10,2);
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'This tab is closed and its bill is final';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.total_price), 0) INTO v_subtotal
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to bill on this tab';
+  END IF;
+
+  v_discount := ROUND(COALESCE(p_discount_amount, 0), 2);
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the subtotal';
+  END IF;
+
+  IF v_discount > 0 AND NULLIF(trim(p_discount_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for discounts';
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = v_tab.restaurant_id;
+
+  -- Service charge is on the discounted amount; tax is charged on both, so every
+  -- item is taxed on its share of the discounted amount plus service charge
+  v_service := ROUND((v_subtotal - v_discount) * COALESCE(v_restaurant.service_charge_rate, 0) / 100, 2);
+  v_factor := (v_subtotal - v_discount + v_service) / v_subtotal;
+
+  SELECT * INTO v_bill FROM bills WHERE tab_id = p_tab_id;
+
+  IF NOT FOUND THEN
+    UPDATE restaurants
+    SET last_bill_number = last_bill_number + 1
+    WHERE id = v_tab.restaurant_id
+    RETURNING last_bill_number INTO v_bill_number;
+
+    INSERT INTO bills (restaurant_id, tab_id, bill_number, table_number, issued_by)
+    VALUES (v_tab.restaurant_id, p_tab_id, v_bill_number, v_tab.table_number, auth.uid())
+    RETURNING * INTO v_bill;
+  END IF;
+
+  DELETE FROM bill_lines WHERE bill_id = v_bill.id;
+  DELETE FROM bill_tax_lines WHERE bill_id = v_bill.id;
+
+  INSERT INTO bill_lines (bill_id, order_item_id, position, name, quantity, unit_price, total_price)
+  SELECT
+    v_bill.id,
+    oi.id,
+    ROW_NUMBER() OVER (ORDER BY o.created_at, oi.id),
+    mi.name || COALESCE(' (' || oi.variant_name || ')', '') || COALESCE(
+      ' (' || (
+        SELECT string_agg(mm.name, ', ' ORDER BY mm.name)
+        FROM order_item_modifiers oim
+        JOIN menu_modifiers mm ON mm.id = oim.modifier_id
+        WHERE oim.order_item_id = oi.id
+      ) || ')',
+      ''
+    ),
+    oi.quantity,
+    oi.unit_price,
+    oi.total_price
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  -- Inclusive prices hold every rate of the item, so each rate takes its part of the
+  -- item's combined rate rather than a percentage on top
+  INSERT INTO bill_tax_lines (bill_id, label, rate, taxable_amount, amount)
+  SELECT
+    v_bill.id,
+    item_rates.name,
+    item_rates.rate,
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * 100 / (100 + item_rates.combined_rate)
+        ELSE item_rates.base
+      END
+    ), 2),
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * item_rates.rate / (100 + item_rates.combined_rate)
+        ELSE item_rates.base * item_rates.rate / 100
+      END
+    ), 2)
+  FROM (
+    SELECT
+      tr.id,
+      tr.name,
+      tr.rate,
+      tr.sort_order,
+      oi.total_price * v_factor AS base,
+      SUM(tr.rate) OVER (PARTITION BY oi.id) AS combined_rate
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    CROSS JOIN LATERAL get_item_tax_rates(v_tab.restaurant_id, mi.category_id) tr
+    WHERE o.tab_id = p_tab_id
+    AND o.status <> 'cancelled'
+    AND oi.voided_at IS NULL
+  ) item_rates
+  GROUP BY item_rates.id, item_rates.name, item_rates.rate, item_rates.sort_order
+  ORDER BY item_rates.sort_order;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_tax
+  FROM bill_tax_lines
+  WHERE bill_id = v_bill.id;
+
+  UPDATE bills
+  SET
+    table_number = v_tab.table_number,
+    subtotal = v_subtotal,
+    discount_amount = v_discount,
+    discount_reason = CASE WHEN v_discount > 0 THEN trim(p_discount_reason) END,
+    service_charge_rate = COALESCE(v_restaurant.service_charge_rate, 0),
+    service_charge_amount = v_service,
+    tax_amount = v_tax,
+    tax_inclusive = v_restaurant.tax_inclusive,
+    total_amount = v_subtotal - v_discount + v_service + CASE WHEN v_restaurant.tax_inclusive THEN 0 ELSE v_tax END,
+    updated_at = now()
+  WHERE id = v_bill.id
+  RETURNING * INTO v_bill;
+
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION void_order_item(p_order_item_id uuid, p_reason text)
+RETURNS orders AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an item';
+  END IF;
+
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be voided on open orders';
+  END IF;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Item has already been voided';
+  END IF;
+
+  UPDATE order_items
+  SET
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = v_reason
+  WHERE id = v_item.id;
+
+  INSERT INTO order_item_voids (restaurant_id, order_id, order_item_id, item_name, quantity, amount, reason, voided_by)
+  SELECT v_order.restaurant_id, v_order.id, v_item.id, mi.name || COALESCE(' (' || v_item.variant_name || ')', ''), v_item.quantity, v_item.total_price, v_reason, auth.uid()
+  FROM menu_items mi
+  WHERE mi.id = v_item.menu_item_id;
+
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- Voiding the last dish still cooking finishes the order
+  IF v_order.status = 'preparing' AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+    AND bumped_at IS NULL
+  ) AND EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+  ) THEN
+    UPDATE orders SET status = 'ready' WHERE id = v_order.id;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_session_orders(p_session_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  total_amount numeric,
+  created_at timestamptz,
+  estimated_ready_at timestamptz,
+  cancellation_reason text,
+  pickup_code text,
+  items jsonb
+) AS $$
+  SELECT
+    o.id,
+    o.status,
+    o.total_amount,
+    o.created_at,
+    o.estimated_ready_at,
+    o.cancellation_reason,
+    o.pickup_code,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('name', mi.name || COALESCE(' (' || oi.variant_name || ')', ''), 'quantity', oi.quantity))
+        FROM order_items oi
+        JOIN menu_items mi ON mi.id = oi.menu_item_id
+        WHERE oi.order_id = o.id
+        AND oi.voided_at IS NULL
+      ),
+      '[]'::jsonb
+    ) AS items
+  FROM orders o
+  WHERE o.session_id = p_session_id
+  ORDER BY o.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS get_cancellation_report_by_item(uuid, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION get_cancellation_report_by_item(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  menu_item_id uuid,
+  item_name text,
+  variant_name text,
+  order_count bigint,
+  quantity bigint,
+  lost_revenue numeric
+) AS $$
+  SELECT
+    mi.id AS menu_item_id,
+    mi.name AS item_name,
+    oi.variant_name,
+    COUNT(DISTINCT o.id) AS order_count,
+    SUM(oi.quantity) AS quantity,
+    COALESCE(SUM(oi.total_price), 0) AS lost_revenue
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status = 'cancelled'
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  GROUP BY mi.id, mi.name, oi.variant_name
+  ORDER BY order_count DESC, quantity DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Cost uses the current cost price of the variant, or of the item when it has none
+CREATE OR REPLACE FUNCTION get_item_sales_report(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  menu_item_id uuid,
+  item_name text,
+  variant_name text,
+  order_count bigint,
+  quantity bigint,
+  revenue numeric,
+  cost numeric
+) AS $$
+  SELECT
+    mi.id AS menu_item_id,
+    mi.name AS item_name,
+    oi.variant_name,
+    COUNT(DISTINCT o.id) AS order_count,
+    SUM(oi.quantity) AS quantity,
+    COALESCE(SUM(oi.total_price), 0) AS revenue,
+    COALESCE(SUM(oi.quantity * COALESCE(v.cost_price, mi.cost_price, 0)), 0) AS cost
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  LEFT JOIN menu_item_variants v ON v.id = oi.variant_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  GROUP BY mi.id, mi.name, oi.variant_name
+  ORDER BY revenue DESC, quantity DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,132 @@
+/*
+  # One Tab per Table
+
+  1. Functions
+    - `assign_order_tab` - Every order for a table joins the table's open tab, whichever
+      diner's phone or staff member placed it. A new tab is only opened once the previous
+      one is closed.
+    - `request_tab_bill` / `get_session_tab` - Find the tab through the table the diner's
+      orders went to rather than the diner's own session, so everyone at the table sees
+      and asks for the same bill
+*/
+
+-- Locking the table row stops two simultaneous first orders from opening two tabs
+CREATE OR REPLACE FUNCTION assign_order_tab()
+RETURNS trigger AS $$
+DECLARE
+  v_tab_id uuid;
+BEGIN
+  IF NEW.tab_id IS NOT NULL OR NEW.table_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM tables WHERE id = NEW.table_id FOR UPDATE;
+
+  SELECT id INTO v_tab_id
+  FROM table_tabs
+  WHERE restaurant_id = NEW.restaurant_id
+  AND table_id = NEW.table_id
+  AND status = 'open'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_tab_id IS NULL THEN
+    INSERT INTO table_tabs (restaurant_id, table_id, table_number, session_id)
+    VALUES (NEW.restaurant_id, NEW.table_id, NEW.table_number, NEW.session_id)
+    RETURNING id INTO v_tab_id;
+  END IF;
+
+  NEW.tab_id := v_tab_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The tab of the diner's latest order is their table's tab; it stays visible after
+-- closing so the diner can still see the receipt
+CREATE OR REPLACE FUNCTION get_session_table_tab_id(p_session_id uuid)
+RETURNS uuid AS $$
+  SELECT o.tab_id
+  FROM orders o
+  WHERE o.session_id = p_session_id
+  AND o.table_id IS NOT NULL
+  AND o.tab_id IS NOT NULL
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_session_table_tab_id(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION request_tab_bill(p_session_id uuid)
+RETURNS void AS $$
+  UPDATE table_tabs
+  SET bill_requested_at = COALESCE(bill_requested_at, now())
+  WHERE id = get_session_table_tab_id(p_session_id)
+  AND status = 'open';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_session_tab(p_session_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'total', get_tab_total(t.id),
+    'bill_requested_at', t.bill_requested_at,
+    'bill', (
+      SELECT jsonb_build_object(
+        'bill_number', b.bill_number,
+        'table_number', b.table_number,
+        'subtotal', b.subtotal,
+        'discount_amount', b.discount_amount,
+        'discount_reason', b.discount_reason,
+        'service_charge_rate', b.service_charge_rate,
+        'service_charge_amount', b.service_charge_amount,
+        'tax_amount', b.tax_amount,
+        'tax_inclusive', b.tax_inclusive,
+        'total_amount', b.total_amount,
+        'amount_paid', b.amount_paid,
+        'status', b.status,
+        'created_at', b.created_at,
+        'upi_vpa', r.upi_vpa,
+        'upi_payee_name', COALESCE(NULLIF(trim(r.upi_payee_name), ''), r.name),
+        'lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('name', l.name, 'quantity', l.quantity, 'unit_price', l.unit_price, 'total_price', l.total_price)
+              ORDER BY l.position
+            )
+            FROM bill_lines l
+            WHERE l.bill_id = b.id
+          ),
+          '[]'::jsonb
+        ),
+        'tax_lines', COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object('label', tl.label, 'rate', tl.rate, 'amount', tl.amount)
+              ORDER BY tl.label
+            )
+            FROM bill_tax_lines tl
+            WHERE tl.bill_id = b.id
+          ),
+          '[]'::jsonb
+        )
+      )
+      FROM bills b
+      JOIN restaurants r ON r.id = b.restaurant_id
+      WHERE b.tab_id = t.id
+    ),
+    'shares', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('id', s.id, 'label', s.label, 'amount', s.amount, 'status', s.status)
+          ORDER BY s.created_at, s.label
+        )
+        FROM tab_shares s
+        WHERE s.tab_id = t.id
+      ),
+      '[]'::jsonb
+    )
+  )
+  FROM table_tabs t
+  WHERE t.id = get_session_table_tab_id(p_session_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,29 @@
+/*
+  # Hide Variant Cost Prices
+
+  1. Functions
+    - `get_menu_item_variants` - The sizes shown on the customer menu, without cost prices
+
+  2. Security
+    - `menu_item_variants` is readable by the restaurant's owner only; customers read
+      the sizes through `get_menu_item_variants`
+*/
+
+DROP POLICY IF EXISTS "Anyone can view item variants" ON menu_item_variants;
+
+CREATE OR REPLACE FUNCTION get_menu_item_variants(p_restaurant_id uuid)
+RETURNS TABLE (
+  id uuid,
+  menu_item_id uuid,
+  name text,
+  price numeric,
+  is_available boolean,
+  sort_order integer
+) AS $$
+  SELECT v.id, v.menu_item_id, v.name, v.price, v.is_available, v.sort_order
+  FROM menu_item_variants v
+  WHERE v.restaurant_id = p_restaurant_id
+  ORDER BY v.sort_order, v.price;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_menu_item_variants(uuid) TO anon, authenticated;
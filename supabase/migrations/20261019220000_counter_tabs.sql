@@ -0,0 +1,99 @@
+/*
+  # Tabs for Counter Orders
+
+  1. Functions
+    - `assign_order_tab` - An order without a table (pickup or phone) gets a tab of its own,
+      so it is billed with `generate_bill`, paid with `record_payment` and counted in the
+      tax and payment reports like any table
+    - `close_cancelled_order_tab` - Closes the tab of a table-less order that is cancelled
+      before it was billed
+
+  2. Data
+    - Table-less orders still in progress get their own tab
+
+  3. Indexes
+    - `idx_table_tabs_open_session` is dropped. Tabs belong to tables now, and one pickup
+      customer can have several counter orders, each with its own open tab.
+*/
+
+DROP INDEX IF EXISTS idx_table_tabs_open_session;
+
+-- Locking the table row stops two simultaneous first orders from opening two tabs
+CREATE OR REPLACE FUNCTION assign_order_tab()
+RETURNS trigger AS $$
+DECLARE
+  v_tab_id uuid;
+BEGIN
+  IF NEW.tab_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.table_id IS NULL THEN
+    INSERT INTO table_tabs (restaurant_id, session_id)
+    VALUES (NEW.restaurant_id, NEW.session_id)
+    RETURNING id INTO v_tab_id;
+
+    NEW.tab_id := v_tab_id;
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM tables WHERE id = NEW.table_id FOR UPDATE;
+
+  SELECT id INTO v_tab_id
+  FROM table_tabs
+  WHERE restaurant_id = NEW.restaurant_id
+  AND table_id = NEW.table_id
+  AND status = 'open'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_tab_id IS NULL THEN
+    INSERT INTO table_tabs (restaurant_id, table_id, table_number, session_id)
+    VALUES (NEW.restaurant_id, NEW.table_id, NEW.table_number, NEW.session_id)
+    RETURNING id INTO v_tab_id;
+  END IF;
+
+  NEW.tab_id := v_tab_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A table's tab outlives a cancelled order, but a counter order's tab holds nothing else
+CREATE OR REPLACE FUNCTION close_cancelled_order_tab()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE table_tabs
+  SET status = 'closed', closed_at = now()
+  WHERE id = NEW.tab_id
+  AND table_id IS NULL
+  AND status = 'open'
+  AND NOT EXISTS (SELECT 1 FROM bills WHERE bills.tab_id = NEW.tab_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS close_cancelled_order_tab ON orders;
+CREATE TRIGGER close_cancelled_order_tab
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.table_id IS NULL)
+  EXECUTE FUNCTION close_cancelled_order_tab();
+
+DO $$
+DECLARE
+  v_order record;
+  v_tab_id uuid;
+BEGIN
+  FOR v_order IN
+    SELECT id, restaurant_id, session_id, created_at FROM orders
+    WHERE table_id IS NULL
+    AND tab_id IS NULL
+    AND status NOT IN ('served', 'cancelled')
+  LOOP
+    INSERT INTO table_tabs (restaurant_id, session_id, created_at)
+    VALUES (v_order.restaurant_id, v_order.session_id, v_order.created_at)
+    RETURNING id INTO v_tab_id;
+    UPDATE orders SET tab_id = v_tab_id WHERE id = v_order.id;
+  END LOOP;
+END $$;
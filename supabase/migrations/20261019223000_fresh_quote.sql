@@ -0,0 +1,101 @@
+/*
+  # Re-quote Ready Times on Amendments
+
+  1. Functions
+    - `add_order_items` / `void_order_item` - Refresh the restaurant's ready-time estimates,
+      since adding or voiding a dish changes how much the kitchen has left to cook
+*/
+
+CREATE OR REPLACE FUNCTION add_order_items(p_order_id uuid, p_items jsonb)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be added to open orders';
+  END IF;
+
+  PERFORM insert_order_lines(v_order.id, v_order.restaurant_id, p_items);
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- New lines need cooking, so a finished order goes back to the kitchen
+  UPDATE orders SET status = 'preparing' WHERE id = v_order.id AND status = 'ready';
+
+  PERFORM refresh_order_etas(v_order.restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION void_order_item(p_order_item_id uuid, p_reason text)
+RETURNS orders AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an item';
+  END IF;
+
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be voided on open orders';
+  END IF;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Item has already been voided';
+  END IF;
+
+  UPDATE order_items
+  SET
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = v_reason
+  WHERE id = v_item.id;
+
+  INSERT INTO order_item_voids (restaurant_id, order_id, order_item_id, item_name, quantity, amount, reason, voided_by)
+  SELECT v_order.restaurant_id, v_order.id, v_item.id, mi.name || COALESCE(' (' || v_item.variant_name || ')', ''), v_item.quantity, v_item.total_price, v_reason, auth.uid()
+  FROM menu_items mi
+  WHERE mi.id = v_item.menu_item_id;
+
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- Voiding the last dish still cooking finishes the order
+  IF v_order.status = 'preparing' AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+    AND bumped_at IS NULL
+  ) AND EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+  ) THEN
+    UPDATE orders SET status = 'ready' WHERE id = v_order.id;
+  END IF;
+
+  PERFORM refresh_order_etas(v_order.restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,39 @@
+/*
+  # Leave Voided Lines out of Cancellations
+
+  1. Functions
+    - `get_cancellation_report_by_item` - Skips lines voided before the order was cancelled;
+      those are already counted in the voids report
+*/
+
+CREATE OR REPLACE FUNCTION get_cancellation_report_by_item(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  menu_item_id uuid,
+  item_name text,
+  variant_name text,
+  order_count bigint,
+  quantity bigint,
+  lost_revenue numeric
+) AS $$
+  SELECT
+    mi.id AS menu_item_id,
+    mi.name AS item_name,
+    oi.variant_name,
+    COUNT(DISTINCT o.id) AS order_count,
+    SUM(oi.quantity) AS quantity,
+    COALESCE(SUM(oi.total_price), 0) AS lost_revenue
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status = 'cancelled'
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  AND oi.voided_at IS NULL
+  GROUP BY mi.id, mi.name, oi.variant_name
+  ORDER BY order_count DESC, quantity DESC;
+$$ LANGUAGE sql STABLE;
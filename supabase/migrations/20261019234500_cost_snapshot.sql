@@ -0,0 +1,225 @@
+/*
+  # Cost Price at the Time of Sale
+
+  1. Enhancements
+    - `order_items.unit_cost` - Cost price of the item or its variant when it was ordered, so
+      changing a cost price later doesn't rewrite the margin of past sales. Existing lines
+      are filled in from today's cost prices.
+
+  2. Functions
+    - `insert_order_lines` - Stores `unit_cost`
+    - `get_item_sales_report` - Reports cost from `unit_cost`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'unit_cost'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN unit_cost numeric(10,2);
+  END IF;
+END $$;
+
+UPDATE order_items oi
+SET unit_cost = COALESCE(
+  (SELECT v.cost_price FROM menu_item_variants v WHERE v.id = oi.variant_id),
+  (SELECT mi.cost_price FROM menu_items mi WHERE mi.id = oi.menu_item_id),
+  0
+)
+WHERE oi.unit_cost IS NULL;
+
+CREATE OR REPLACE FUNCTION insert_order_lines(
+  p_order_id uuid,
+  p_restaurant_id uuid,
+  p_items jsonb
+)
+RETURNS integer AS $$
+DECLARE
+  v_item jsonb;
+  v_menu_item menu_items%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric(10,2);
+  v_modifier_ids uuid[];
+  v_modifier_count integer;
+  v_modifier_total numeric(10,2);
+  v_order_item_id uuid;
+  v_prep_minutes integer := 0;
+  v_group modifier_groups%ROWTYPE;
+  v_variant menu_item_variants%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 50 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', v_item->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM menu_items
+    WHERE id = (v_item->>'menu_item_id')::uuid
+    AND restaurant_id = p_restaurant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not belong to this restaurant', v_item->>'menu_item_id';
+    END IF;
+
+    IF NOT COALESCE(v_menu_item.is_available, false) THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name;
+    END IF;
+
+    -- Items sold in sizes are ordered by size, at the size's price
+    v_variant := NULL;
+
+    IF v_item->>'variant_id' IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM menu_item_variants
+      WHERE id = (v_item->>'variant_id')::uuid
+      AND menu_item_id = v_menu_item.id
+      AND restaurant_id = p_restaurant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid size selected for %', v_menu_item.name;
+      END IF;
+
+      IF NOT v_variant.is_available THEN
+        RAISE EXCEPTION '% (%) is no longer available', v_menu_item.name, v_variant.name;
+      END IF;
+    ELSIF EXISTS (
+      SELECT 1 FROM menu_item_variants
+      WHERE menu_item_id = v_menu_item.id
+      AND restaurant_id = p_restaurant_id
+    ) THEN
+      RAISE EXCEPTION 'Please choose a size for %', v_menu_item.name;
+    END IF;
+
+    SELECT COALESCE(array_agg(value::uuid), '{}')
+    INTO v_modifier_ids
+    FROM jsonb_array_elements_text(COALESCE(v_item->'modifier_ids', '[]'::jsonb));
+
+    -- An ungrouped modifier applies when it is linked to the item or to the item's
+    -- category; a grouped one when its group is
+    SELECT COUNT(*), COALESCE(SUM(mm.price_adjustment), 0)
+    INTO v_modifier_count, v_modifier_total
+    FROM menu_modifiers mm
+    LEFT JOIN modifier_groups mg ON mg.id = mm.group_id
+    WHERE mm.id = ANY(v_modifier_ids)
+    AND mm.restaurant_id = p_restaurant_id
+    AND mm.is_active = true
+    AND (
+      (
+        mm.group_id IS NULL
+        AND (
+          EXISTS (
+            SELECT 1 FROM menu_item_modifiers mim
+            WHERE mim.menu_item_id = v_menu_item.id
+            AND mim.modifier_id = mm.id
+          )
+          OR v_menu_item.category_id::text = ANY(COALESCE(mm.applicable_categories, '{}'))
+        )
+      )
+      OR (mg.is_active = true AND modifier_group_applies(mg, v_menu_item))
+    );
+
+    IF v_modifier_count <> cardinality(v_modifier_ids) THEN
+      RAISE EXCEPTION 'Invalid modifier selected for %', v_menu_item.name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM menu_item_modifiers mim
+      JOIN menu_modifiers mm ON mm.id = mim.modifier_id
+      WHERE mim.menu_item_id = v_menu_item.id
+      AND mim.is_required = true
+      AND mm.is_active = true
+      AND NOT mm.id = ANY(v_modifier_ids)
+    ) THEN
+      RAISE EXCEPTION 'Please choose the required options for %', v_menu_item.name;
+    END IF;
+
+    -- Every group offered on the item needs between its min and max choices
+    SELECT mg.* INTO v_group
+    FROM modifier_groups mg
+    WHERE mg.restaurant_id = p_restaurant_id
+    AND mg.is_active = true
+    AND modifier_group_applies(mg, v_menu_item)
+    AND EXISTS (SELECT 1 FROM menu_modifiers mm WHERE mm.group_id = mg.id AND mm.is_active = true)
+    AND (
+      SELECT COUNT(*) FROM menu_modifiers mm
+      WHERE mm.group_id = mg.id
+      AND mm.id = ANY(v_modifier_ids)
+    ) NOT BETWEEN mg.min_selections AND get_modifier_group_max(mg)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Please check your % choices for %', v_group.name, v_menu_item.name;
+    END IF;
+
+    v_unit_price := COALESCE(v_variant.price, v_menu_item.price) + v_modifier_total;
+
+    INSERT INTO order_items (order_id, menu_item_id, variant_id, variant_name, quantity, unit_price, unit_cost, total_price, special_instructions, seat_number)
+    VALUES (
+      p_order_id,
+      v_menu_item.id,
+      v_variant.id,
+      v_variant.name,
+      v_quantity,
+      v_unit_price,
+      COALESCE(v_variant.cost_price, v_menu_item.cost_price, 0),
+      v_unit_price * v_quantity,
+      clean_order_note(p_restaurant_id, v_item->>'special_instructions'),
+      (v_item->>'seat_number')::integer
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, price_adjustment)
+    SELECT v_order_item_id, mm.id, mm.price_adjustment
+    FROM menu_modifiers mm
+    WHERE mm.id = ANY(v_modifier_ids);
+
+    v_prep_minutes := GREATEST(v_prep_minutes, COALESCE(v_menu_item.estimated_prep_time, 15));
+  END LOOP;
+
+  RETURN v_prep_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cost uses the cost price each line was sold at
+CREATE OR REPLACE FUNCTION get_item_sales_report(
+  p_restaurant_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  menu_item_id uuid,
+  item_name text,
+  variant_name text,
+  order_count bigint,
+  quantity bigint,
+  revenue numeric,
+  cost numeric
+) AS $$
+  SELECT
+    mi.id AS menu_item_id,
+    mi.name AS item_name,
+    oi.variant_name,
+    COUNT(DISTINCT o.id) AS order_count,
+    SUM(oi.quantity) AS quantity,
+    COALESCE(SUM(oi.total_price), 0) AS revenue,
+    COALESCE(SUM(oi.quantity * COALESCE(oi.unit_cost, 0)), 0) AS cost
+  FROM orders o
+  JOIN order_items oi ON oi.order_id = o.id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.restaurant_id = p_restaurant_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL
+  AND o.created_at >= p_from
+  AND o.created_at < p_to
+  GROUP BY mi.id, mi.name, oi.variant_name
+  ORDER BY revenue DESC, quantity DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,175 @@
+/*
+  # Settle Bills Already Covered
+
+  1. Functions
+    - `generate_bill` - When a part-paid bill is regenerated after a void and what has been
+      paid already covers the new total, the bill is marked paid and the tab closed.
+      Otherwise no further payment could be taken and the tab would stay open.
+*/
+
+CREATE OR REPLACE FUNCTION generate_bill(
+  p_tab_id uuid,
+  p_discount_amount numeric DEFAULT 0,
+  p_discount_reason text DEFAULT NULL
+)
+RETURNS bills AS $$
+DECLARE
+  v_tab table_tabs%ROWTYPE;
+  v_restaurant restaurants%ROWTYPE;
+  v_bill bills%ROWTYPE;
+  v_bill_number integer;
+  v_subtotal numeric(10,2);
+  v_discount numeric(10,2);
+  v_service numeric(10,2);
+  v_factor numeric;
+  v_tax numeric(10,2);
+BEGIN
+  SELECT * INTO v_tab FROM table_tabs WHERE id = p_tab_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_restaurant_staff(v_tab.restaurant_id) THEN
+    RAISE EXCEPTION 'Tab not found';
+  END IF;
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'This tab is closed and its bill is final';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.total_price), 0) INTO v_subtotal
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to bill on this tab';
+  END IF;
+
+  v_discount := ROUND(COALESCE(p_discount_amount, 0), 2);
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the subtotal';
+  END IF;
+
+  IF v_discount > 0 AND NULLIF(trim(p_discount_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for discounts';
+  END IF;
+
+  SELECT * INTO v_restaurant FROM restaurants WHERE id = v_tab.restaurant_id;
+
+  -- Service charge is on the discounted amount; tax is charged on both, so every
+  -- item is taxed on its share of the discounted amount plus service charge
+  v_service := ROUND((v_subtotal - v_discount) * COALESCE(v_restaurant.service_charge_rate, 0) / 100, 2);
+  v_factor := (v_subtotal - v_discount + v_service) / v_subtotal;
+
+  SELECT * INTO v_bill FROM bills WHERE tab_id = p_tab_id;
+
+  IF NOT FOUND THEN
+    UPDATE restaurants
+    SET last_bill_number = last_bill_number + 1
+    WHERE id = v_tab.restaurant_id
+    RETURNING last_bill_number INTO v_bill_number;
+
+    INSERT INTO bills (restaurant_id, tab_id, bill_number, table_number, issued_by)
+    VALUES (v_tab.restaurant_id, p_tab_id, v_bill_number, v_tab.table_number, auth.uid())
+    RETURNING * INTO v_bill;
+  END IF;
+
+  DELETE FROM bill_lines WHERE bill_id = v_bill.id;
+  DELETE FROM bill_tax_lines WHERE bill_id = v_bill.id;
+
+  INSERT INTO bill_lines (bill_id, order_item_id, position, name, quantity, unit_price, total_price)
+  SELECT
+    v_bill.id,
+    oi.id,
+    ROW_NUMBER() OVER (ORDER BY o.created_at, oi.id),
+    mi.name || COALESCE(' (' || oi.variant_name || ')', '') || COALESCE(
+      ' (' || (
+        SELECT string_agg(mm.name, ', ' ORDER BY mm.name)
+        FROM order_item_modifiers oim
+        JOIN menu_modifiers mm ON mm.id = oim.modifier_id
+        WHERE oim.order_item_id = oi.id
+      ) || ')',
+      ''
+    ),
+    oi.quantity,
+    oi.unit_price,
+    oi.total_price
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN menu_items mi ON mi.id = oi.menu_item_id
+  WHERE o.tab_id = p_tab_id
+  AND o.status <> 'cancelled'
+  AND oi.voided_at IS NULL;
+
+  -- Inclusive prices hold every rate of the item, so each rate takes its part of the
+  -- item's combined rate rather than a percentage on top
+  INSERT INTO bill_tax_lines (bill_id, label, rate, taxable_amount, amount)
+  SELECT
+    v_bill.id,
+    item_rates.name,
+    item_rates.rate,
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * 100 / (100 + item_rates.combined_rate)
+        ELSE item_rates.base
+      END
+    ), 2),
+    ROUND(SUM(
+      CASE WHEN v_restaurant.tax_inclusive
+        THEN item_rates.base * item_rates.rate / (100 + item_rates.combined_rate)
+        ELSE item_rates.base * item_rates.rate / 100
+      END
+    ), 2)
+  FROM (
+    SELECT
+      tr.id,
+      tr.name,
+      tr.rate,
+      tr.sort_order,
+      oi.total_price * v_factor AS base,
+      SUM(tr.rate) OVER (PARTITION BY oi.id) AS combined_rate
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN menu_items mi ON mi.id = oi.menu_item_id
+    CROSS JOIN LATERAL get_item_tax_rates(v_tab.restaurant_id, mi.category_id) tr
+    WHERE o.tab_id = p_tab_id
+    AND o.status <> 'cancelled'
+    AND oi.voided_at IS NULL
+  ) item_rates
+  GROUP BY item_rates.id, item_rates.name, item_rates.rate, item_rates.sort_order
+  ORDER BY item_rates.sort_order;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_tax
+  FROM bill_tax_lines
+  WHERE bill_id = v_bill.id;
+
+  UPDATE bills
+  SET
+    table_number = v_tab.table_number,
+    subtotal = v_subtotal,
+    discount_amount = v_discount,
+    discount_reason = CASE WHEN v_discount > 0 THEN trim(p_discount_reason) END,
+    service_charge_rate = COALESCE(v_restaurant.service_charge_rate, 0),
+    service_charge_amount = v_service,
+    tax_amount = v_tax,
+    tax_inclusive = v_restaurant.tax_inclusive,
+    total_amount = v_subtotal - v_discount + v_service + CASE WHEN v_restaurant.tax_inclusive THEN 0 ELSE v_tax END,
+    updated_at = now()
+  WHERE id = v_bill.id
+  RETURNING * INTO v_bill;
+
+  IF v_bill.amount_paid > 0 AND v_bill.amount_paid >= v_bill.total_amount THEN
+    UPDATE bills
+    SET status = 'paid', paid_at = now()
+    WHERE id = v_bill.id
+    RETURNING * INTO v_bill;
+
+    UPDATE table_tabs
+    SET status = 'closed', closed_at = now()
+    WHERE id = p_tab_id;
+  END IF;
+
+  RETURN v_bill;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,74 @@
+/*
+  # Steadier Ready-Time Quotes
+
+  1. Enhancements
+    - `orders.estimated_queue_minutes` - The minutes of work (prep time plus the queue ahead)
+      a waiting order's quote was last based on
+
+  2. Functions
+    - `refresh_order_etas` - Only writes orders whose quote actually changes, so one event
+      no longer updates (and broadcasts) every open order. A waiting order's quote only
+      moves later when the work in front of it grows; when it shrinks the quote can only
+      come earlier. Orders being prepared are still timed from when cooking started.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'estimated_queue_minutes'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN estimated_queue_minutes integer;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION refresh_order_etas(p_restaurant_id uuid)
+RETURNS void AS $$
+  WITH queue AS (
+    SELECT
+      o.id,
+      o.status,
+      o.preparing_at,
+      o.estimated_ready_at,
+      o.estimated_queue_minutes,
+      estimate_prep_minutes(o.id)
+        + CASE WHEN r.busy_mode THEN r.busy_extra_minutes ELSE 0 END AS prep_minutes,
+      (ROW_NUMBER() OVER (ORDER BY o.created_at, o.id) - 1)::integer AS orders_ahead
+    FROM orders o
+    JOIN restaurants r ON r.id = o.restaurant_id
+    WHERE o.restaurant_id = p_restaurant_id
+    AND o.status IN ('pending', 'confirmed', 'preparing')
+  ),
+  quotes AS (
+    SELECT
+      queue.id,
+      CASE
+        WHEN queue.status = 'preparing'
+          THEN COALESCE(queue.preparing_at, now()) + make_interval(mins => queue.prep_minutes)
+        -- Each open order ahead in the queue holds a waiting order back three minutes
+        WHEN queue.estimated_ready_at IS NULL
+          OR queue.estimated_queue_minutes IS NULL
+          OR queue.prep_minutes + queue.orders_ahead * 3 > queue.estimated_queue_minutes
+          THEN now() + make_interval(mins => queue.prep_minutes + queue.orders_ahead * 3)
+        ELSE LEAST(
+          queue.estimated_ready_at,
+          now() + make_interval(mins => queue.prep_minutes + queue.orders_ahead * 3)
+        )
+      END AS estimated_ready_at,
+      CASE
+        WHEN queue.status = 'preparing' THEN queue.estimated_queue_minutes
+        ELSE queue.prep_minutes + queue.orders_ahead * 3
+      END AS estimated_queue_minutes
+    FROM queue
+  )
+  UPDATE orders o
+  SET
+    estimated_ready_at = quotes.estimated_ready_at,
+    estimated_queue_minutes = quotes.estimated_queue_minutes
+  FROM quotes
+  WHERE o.id = quotes.id
+  AND (
+    o.estimated_ready_at IS DISTINCT FROM quotes.estimated_ready_at
+    OR o.estimated_queue_minutes IS DISTINCT FROM quotes.estimated_queue_minutes
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,83 @@
+/*
+  # Voiding the Last Item Cancels the Order
+
+  1. Functions
+    - `void_order_item` - When no lines are left the order is cancelled with the void's reason
+      and the customer is told, instead of staying open with nothing in it on the kitchen
+      screen and counting toward the kitchen's capacity
+*/
+
+CREATE OR REPLACE FUNCTION void_order_item(p_order_item_id uuid, p_reason text)
+RETURNS orders AS $$
+DECLARE
+  v_item order_items%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_reason text := NULLIF(trim(p_reason), '');
+BEGIN
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an item';
+  END IF;
+
+  SELECT * INTO v_item FROM order_items WHERE id = p_order_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  IF NOT is_restaurant_staff(v_order.restaurant_id) THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF v_order.status IN ('served', 'cancelled') THEN
+    RAISE EXCEPTION 'Items can only be voided on open orders';
+  END IF;
+
+  IF v_item.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Item has already been voided';
+  END IF;
+
+  UPDATE order_items
+  SET
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = v_reason
+  WHERE id = v_item.id;
+
+  INSERT INTO order_item_voids (restaurant_id, order_id, order_item_id, item_name, quantity, amount, reason, voided_by)
+  SELECT v_order.restaurant_id, v_order.id, v_item.id, mi.name || COALESCE(' (' || v_item.variant_name || ')', ''), v_item.quantity, v_item.total_price, v_reason, auth.uid()
+  FROM menu_items mi
+  WHERE mi.id = v_item.menu_item_id;
+
+  PERFORM recalculate_order_total(v_order.id);
+
+  -- An order with nothing left is cancelled; voiding the last dish still cooking finishes it
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+  ) THEN
+    UPDATE orders
+    SET
+      status = 'cancelled',
+      cancellation_reason = 'All items voided: ' || v_reason
+    WHERE id = v_order.id;
+
+    INSERT INTO order_notifications (restaurant_id, order_id, notification_type, recipient_type, message)
+    VALUES (v_order.restaurant_id, v_order.id, 'order_cancelled', 'customer', 'All items voided: ' || v_reason);
+  ELSIF v_order.status = 'preparing' AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = v_order.id
+    AND voided_at IS NULL
+    AND bumped_at IS NULL
+  ) THEN
+    UPDATE orders SET status = 'ready' WHERE id = v_order.id;
+  END IF;
+
+  PERFORM refresh_order_etas(v_order.restaurant_id);
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id;
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;